@@ -0,0 +1,47 @@
+-- CreateTable
+CREATE TABLE "OrderItem" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "unitPrice" DECIMAL(65,30) NOT NULL,
+    "lineTotal" DECIMAL(65,30) NOT NULL,
+    "commissionAmount" DECIMAL(65,30) NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "OrderItem_pkey" PRIMARY KEY ("id")
+);
+
+-- Move the single product of every existing order onto its own line
+INSERT INTO "OrderItem" ("id", "orderId", "productId", "quantity", "unitPrice", "lineTotal", "commissionAmount", "createdAt", "updatedAt")
+SELECT
+    gen_random_uuid()::text,
+    o."id",
+    o."productId",
+    o."quantity",
+    o."totalPrice" / GREATEST(o."quantity", 1),
+    o."totalPrice",
+    COALESCE((SELECT SUM(c."amount") FROM "Commission" c WHERE c."orderId" = o."id"), 0),
+    o."createdAt",
+    o."updatedAt"
+FROM "Order" o;
+
+-- DropForeignKey
+ALTER TABLE "Order" DROP CONSTRAINT "Order_productId_fkey";
+
+-- AlterTable
+ALTER TABLE "Order" DROP COLUMN "productId",
+DROP COLUMN "quantity";
+
+-- CreateIndex
+CREATE INDEX "OrderItem_orderId_idx" ON "OrderItem"("orderId");
+
+-- CreateIndex
+CREATE INDEX "OrderItem_productId_idx" ON "OrderItem"("productId");
+
+-- AddForeignKey
+ALTER TABLE "OrderItem" ADD CONSTRAINT "OrderItem_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrderItem" ADD CONSTRAINT "OrderItem_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
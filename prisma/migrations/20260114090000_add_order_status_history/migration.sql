@@ -0,0 +1,27 @@
+-- CreateEnum
+CREATE TYPE "ActorType" AS ENUM ('ADMIN', 'AGENT', 'CUSTOMER', 'SYSTEM');
+
+-- CreateTable
+CREATE TABLE "OrderStatusHistory" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "fromStatus" "OrderStatus",
+    "toStatus" "OrderStatus" NOT NULL,
+    "actorType" "ActorType" NOT NULL,
+    "actorId" TEXT,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OrderStatusHistory_pkey" PRIMARY KEY ("id")
+);
+
+-- Seed the history of existing orders with their current status
+INSERT INTO "OrderStatusHistory" ("id", "orderId", "fromStatus", "toStatus", "actorType", "note", "createdAt")
+SELECT gen_random_uuid()::text, o."id", NULL, o."status", 'SYSTEM', 'Status at history backfill', o."updatedAt"
+FROM "Order" o;
+
+-- CreateIndex
+CREATE INDEX "OrderStatusHistory_orderId_createdAt_idx" ON "OrderStatusHistory"("orderId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "OrderStatusHistory" ADD CONSTRAINT "OrderStatusHistory_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
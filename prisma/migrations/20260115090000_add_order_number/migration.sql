@@ -0,0 +1,22 @@
+-- Sequence backing order numbers; values are never reused, so gaps are expected
+CREATE SEQUENCE "order_number_seq";
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "orderNumber" TEXT;
+
+-- Number existing orders in the order they were placed
+WITH "numbered" AS (
+    SELECT "id", "createdAt", ROW_NUMBER() OVER (ORDER BY "createdAt", "id") AS "n"
+    FROM "Order"
+)
+UPDATE "Order" o
+SET "orderNumber" = 'AWM-' || EXTRACT(YEAR FROM n."createdAt")::INTEGER || '-' || LPAD(n."n"::TEXT, 6, '0')
+FROM "numbered" n
+WHERE o."id" = n."id";
+
+SELECT setval('order_number_seq', GREATEST((SELECT COUNT(*) FROM "Order"), 1), (SELECT COUNT(*) FROM "Order") > 0);
+
+ALTER TABLE "Order" ALTER COLUMN "orderNumber" SET NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Order_orderNumber_key" ON "Order"("orderNumber");
@@ -0,0 +1,26 @@
+-- CreateEnum
+CREATE TYPE "OrderDocumentType" AS ENUM ('INVOICE', 'PACKING_SLIP');
+
+-- CreateTable
+CREATE TABLE "OrderDocument" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "type" "OrderDocumentType" NOT NULL,
+    "number" TEXT,
+    "content" BYTEA NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OrderDocument_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OrderDocument_number_key" ON "OrderDocument"("number");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OrderDocument_orderId_type_key" ON "OrderDocument"("orderId", "type");
+
+-- AddForeignKey
+ALTER TABLE "OrderDocument" ADD CONSTRAINT "OrderDocument_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Invoice numbers come from their own sequence, independent of order numbers
+CREATE SEQUENCE "invoice_number_seq";
@@ -0,0 +1,18 @@
+-- CreateEnum
+CREATE TYPE "AttributionSource" AS ENUM ('LINK', 'COUPON');
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "attributionSource" "AttributionSource";
+
+-- Orders credited to an agent so far all came from referral links
+UPDATE "Order" SET "attributionSource" = 'LINK' WHERE "agentId" IS NOT NULL;
+
+-- AlterTable
+ALTER TABLE "PromoCode" ADD COLUMN     "agentId" TEXT,
+ADD COLUMN     "createdById" TEXT;
+
+-- CreateIndex
+CREATE INDEX "PromoCode_agentId_idx" ON "PromoCode"("agentId");
+
+-- AddForeignKey
+ALTER TABLE "PromoCode" ADD CONSTRAINT "PromoCode_agentId_fkey" FOREIGN KEY ("agentId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
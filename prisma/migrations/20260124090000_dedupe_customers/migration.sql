@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "Customer" ADD COLUMN     "mergedAt" TIMESTAMP(3),
+ADD COLUMN     "mergedIntoId" TEXT,
+ADD COLUMN     "normalizedPhone" TEXT;
+
+-- Backfill phone numbers of existing customers
+UPDATE "Customer"
+SET "normalizedPhone" = regexp_replace("phone", '[^0-9]', '', 'g')
+WHERE length(regexp_replace(COALESCE("phone", ''), '[^0-9]', '', 'g')) >= 7;
+
+-- CreateIndex
+CREATE INDEX "Customer_normalizedPhone_idx" ON "Customer"("normalizedPhone");
+
+-- CreateIndex
+CREATE INDEX "Customer_mergedIntoId_idx" ON "Customer"("mergedIntoId");
+
+-- AddForeignKey
+ALTER TABLE "Customer" ADD CONSTRAINT "Customer_mergedIntoId_fkey" FOREIGN KEY ("mergedIntoId") REFERENCES "Customer"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,54 @@
+-- AlterTable
+ALTER TABLE "Cart" ADD COLUMN     "currency" VARCHAR(3);
+
+-- Existing orders, commissions and payouts are labelled USD: amounts before this
+-- migration must be in USD. On a store that kept them in another currency, relabel
+-- them after migrating, e.g. UPDATE "Order" SET "currency" = 'EUR'; (and the same for
+-- "Commission" and "Payout"), with BASE_CURRENCY set to that currency.
+-- The default only fills existing rows; new rows always name their currency.
+
+-- AlterTable
+ALTER TABLE "Commission" ADD COLUMN     "currency" VARCHAR(3) NOT NULL DEFAULT 'USD';
+ALTER TABLE "Commission" ALTER COLUMN "currency" DROP DEFAULT;
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "currency" VARCHAR(3) NOT NULL DEFAULT 'USD',
+ADD COLUMN     "exchangeRate" DECIMAL(65,30) NOT NULL DEFAULT 1;
+ALTER TABLE "Order" ALTER COLUMN "currency" DROP DEFAULT;
+
+-- AlterTable
+ALTER TABLE "Payout" ADD COLUMN     "currency" VARCHAR(3) NOT NULL DEFAULT 'USD';
+ALTER TABLE "Payout" ALTER COLUMN "currency" DROP DEFAULT;
+
+-- CreateTable
+CREATE TABLE "ProductPrice" (
+    "id" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "currency" VARCHAR(3) NOT NULL,
+    "amount" DECIMAL(65,30) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ProductPrice_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ExchangeRate" (
+    "id" TEXT NOT NULL,
+    "currency" VARCHAR(3) NOT NULL,
+    "rate" DECIMAL(65,30) NOT NULL,
+    "updatedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ExchangeRate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProductPrice_productId_currency_key" ON "ProductPrice"("productId", "currency");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ExchangeRate_currency_key" ON "ExchangeRate"("currency");
+
+-- AddForeignKey
+ALTER TABLE "ProductPrice" ADD CONSTRAINT "ProductPrice_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
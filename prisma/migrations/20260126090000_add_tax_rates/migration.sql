@@ -0,0 +1,50 @@
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "pricesIncludeTax" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "shippingCountry" VARCHAR(2),
+ADD COLUMN     "shippingPostalCode" TEXT,
+ADD COLUMN     "shippingState" TEXT;
+
+-- AlterTable
+ALTER TABLE "OrderItem" ADD COLUMN     "taxAmount" DECIMAL(65,30) NOT NULL DEFAULT 0,
+ADD COLUMN     "taxJurisdiction" TEXT,
+ADD COLUMN     "taxRate" DECIMAL(65,30) NOT NULL DEFAULT 0,
+ADD COLUMN     "taxRateId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN     "taxExempt" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "TaxRate" (
+    "id" TEXT NOT NULL,
+    "name" VARCHAR(100) NOT NULL,
+    "country" VARCHAR(2) NOT NULL,
+    "state" TEXT,
+    "postalPrefix" TEXT,
+    "category" TEXT,
+    "rate" DECIMAL(65,30) NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TaxRate_pkey" PRIMARY KEY ("id")
+);
+
+-- Spread the order-level tax of existing orders over their lines
+UPDATE "OrderItem" oi
+SET "taxAmount" = ROUND(o."tax" * (oi."lineTotal" - oi."discount") / (o."subtotal" - o."discount"), 2),
+    "taxRate" = ROUND(o."tax" * 100 / (o."subtotal" - o."discount"), 4),
+    "taxJurisdiction" = 'DEFAULT'
+FROM "Order" o
+WHERE oi."orderId" = o."id"
+  AND o."tax" > 0
+  AND o."subtotal" IS NOT NULL
+  AND o."subtotal" - o."discount" > 0;
+
+-- CreateIndex
+CREATE INDEX "OrderItem_taxJurisdiction_idx" ON "OrderItem"("taxJurisdiction");
+
+-- CreateIndex
+CREATE INDEX "TaxRate_country_isActive_idx" ON "TaxRate"("country", "isActive");
+
+-- AddForeignKey
+ALTER TABLE "OrderItem" ADD CONSTRAINT "OrderItem_taxRateId_fkey" FOREIGN KEY ("taxRateId") REFERENCES "TaxRate"("id") ON DELETE SET NULL ON UPDATE CASCADE;
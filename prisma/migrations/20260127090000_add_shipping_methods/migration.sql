@@ -0,0 +1,73 @@
+-- CreateEnum
+CREATE TYPE "ShippingRateType" AS ENUM ('FLAT', 'WEIGHT_BASED', 'FREE_OVER_THRESHOLD');
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "deliveryEstimateFrom" TIMESTAMP(3),
+ADD COLUMN     "deliveryEstimateTo" TIMESTAMP(3),
+ADD COLUMN     "shippingMethodId" TEXT,
+ADD COLUMN     "shippingMethodName" TEXT;
+
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN     "height" DECIMAL(65,30),
+ADD COLUMN     "length" DECIMAL(65,30),
+ADD COLUMN     "weight" DECIMAL(65,30),
+ADD COLUMN     "width" DECIMAL(65,30);
+
+-- CreateTable
+CREATE TABLE "ShippingZone" (
+    "id" TEXT NOT NULL,
+    "name" VARCHAR(100) NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ShippingZone_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ShippingZoneRegion" (
+    "id" TEXT NOT NULL,
+    "zoneId" TEXT NOT NULL,
+    "country" VARCHAR(2) NOT NULL,
+    "state" TEXT,
+    "postalPrefix" TEXT,
+
+    CONSTRAINT "ShippingZoneRegion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ShippingMethod" (
+    "id" TEXT NOT NULL,
+    "zoneId" TEXT NOT NULL,
+    "name" VARCHAR(100) NOT NULL,
+    "type" "ShippingRateType" NOT NULL,
+    "rate" DECIMAL(65,30) NOT NULL DEFAULT 0,
+    "ratePerKg" DECIMAL(65,30),
+    "freeShippingThreshold" DECIMAL(65,30),
+    "maxWeight" DECIMAL(65,30),
+    "minDeliveryDays" INTEGER NOT NULL,
+    "maxDeliveryDays" INTEGER NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ShippingMethod_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ShippingZoneRegion_country_idx" ON "ShippingZoneRegion"("country");
+
+-- CreateIndex
+CREATE INDEX "ShippingZoneRegion_zoneId_idx" ON "ShippingZoneRegion"("zoneId");
+
+-- CreateIndex
+CREATE INDEX "ShippingMethod_zoneId_idx" ON "ShippingMethod"("zoneId");
+
+-- AddForeignKey
+ALTER TABLE "Order" ADD CONSTRAINT "Order_shippingMethodId_fkey" FOREIGN KEY ("shippingMethodId") REFERENCES "ShippingMethod"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ShippingZoneRegion" ADD CONSTRAINT "ShippingZoneRegion_zoneId_fkey" FOREIGN KEY ("zoneId") REFERENCES "ShippingZone"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ShippingMethod" ADD CONSTRAINT "ShippingMethod_zoneId_fkey" FOREIGN KEY ("zoneId") REFERENCES "ShippingZone"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "OrderActivityType" AS ENUM ('NOTE', 'MESSAGE', 'EVENT');
+
+-- CreateTable
+CREATE TABLE "OrderActivity" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "type" "OrderActivityType" NOT NULL,
+    "event" VARCHAR(50),
+    "body" TEXT NOT NULL,
+    "customerVisible" BOOLEAN NOT NULL DEFAULT false,
+    "actorType" "ActorType" NOT NULL,
+    "actorId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OrderActivity_pkey" PRIMARY KEY ("id")
+);
+
+-- Start the thread of existing orders with their status history
+INSERT INTO "OrderActivity" ("id", "orderId", "type", "event", "body", "customerVisible", "actorType", "actorId", "createdAt")
+SELECT gen_random_uuid()::text, h."orderId", 'EVENT', 'STATUS_CHANGED',
+       CASE WHEN h."fromStatus" IS NULL
+         THEN 'Status set to ' || h."toStatus"::text
+         ELSE 'Status changed from ' || h."fromStatus"::text || ' to ' || h."toStatus"::text
+       END || COALESCE(': ' || h."note", ''),
+       true, h."actorType", h."actorId", h."createdAt"
+FROM "OrderStatusHistory" h;
+
+-- CreateIndex
+CREATE INDEX "OrderActivity_orderId_createdAt_idx" ON "OrderActivity"("orderId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "OrderActivity" ADD CONSTRAINT "OrderActivity_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
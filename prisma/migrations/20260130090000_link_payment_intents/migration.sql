@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "paymentIntentId" TEXT;
+
+-- Link existing orders to the intent recorded in their payment details
+UPDATE "Order"
+SET "paymentIntentId" = COALESCE("paymentDetails"->>'paymentIntentId', "paymentDetails"->>'id')
+WHERE jsonb_typeof("paymentDetails") = 'object'
+  AND COALESCE("paymentDetails"->>'paymentIntentId', "paymentDetails"->>'id') LIKE 'pi\_%';
+
+-- CreateIndex
+CREATE INDEX "Order_paymentIntentId_idx" ON "Order"("paymentIntentId");
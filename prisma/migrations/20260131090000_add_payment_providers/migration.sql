@@ -0,0 +1,36 @@
+-- DropIndex
+DROP INDEX "PaymentEvent_providerEventId_key";
+
+-- AlterTable
+ALTER TABLE "PaymentEvent" ADD COLUMN     "provider" TEXT NOT NULL DEFAULT 'stripe';
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PaymentEvent_provider_providerEventId_key" ON "PaymentEvent"("provider", "providerEventId");
+
+-- Rewrite stored Stripe events into the provider-neutral shape handlers now read
+UPDATE "PaymentEvent" SET "payload" = jsonb_build_object(
+    'id', "providerEventId",
+    'provider', 'stripe',
+    'type', "type",
+    'action', CASE "type"
+        WHEN 'payment_intent.succeeded' THEN 'payment_succeeded'
+        WHEN 'payment_intent.payment_failed' THEN 'payment_failed'
+        WHEN 'charge.refunded' THEN 'refund_changed'
+        WHEN 'charge.refund.updated' THEN 'refund_changed'
+    END,
+    'paymentIntentId', CASE
+        WHEN "type" LIKE 'payment_intent.%' THEN "payload"->'data'->'object'->>'id'
+        ELSE "payload"->'data'->'object'->>'payment_intent'
+    END,
+    'paymentIntent', CASE WHEN "type" LIKE 'payment_intent.%' THEN jsonb_build_object(
+        'id', "payload"->'data'->'object'->>'id',
+        'status', "payload"->'data'->'object'->>'status',
+        'amount', ("payload"->'data'->'object'->>'amount')::int,
+        'amountReceived', ("payload"->'data'->'object'->>'amount_received')::int,
+        'currency', "payload"->'data'->'object'->>'currency',
+        'clientSecret', "payload"->'data'->'object'->>'client_secret',
+        'metadata', COALESCE("payload"->'data'->'object'->'metadata', '{}'::jsonb),
+        'lastError', "payload"->'data'->'object'->'last_payment_error'->>'message'
+    ) END
+)
+WHERE NOT ("payload" ? 'action');
@@ -0,0 +1,50 @@
+-- CreateEnum
+CREATE TYPE "PaymentAttemptStatus" AS ENUM ('PENDING', 'SUCCEEDED', 'FAILED', 'CANCELED');
+
+-- CreateTable
+CREATE TABLE "PaymentAttempt" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "paymentIntentId" TEXT NOT NULL,
+    "providerAttemptId" TEXT,
+    "amount" DECIMAL(65,30) NOT NULL,
+    "currency" TEXT NOT NULL,
+    "status" "PaymentAttemptStatus" NOT NULL DEFAULT 'PENDING',
+    "failureMessage" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PaymentAttempt_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PaymentAttempt_orderId_createdAt_idx" ON "PaymentAttempt"("orderId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "PaymentAttempt_paymentIntentId_idx" ON "PaymentAttempt"("paymentIntentId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PaymentAttempt_orderId_providerAttemptId_key" ON "PaymentAttempt"("orderId", "providerAttemptId");
+
+-- AddForeignKey
+ALTER TABLE "PaymentAttempt" ADD CONSTRAINT "PaymentAttempt_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Start the history with the online payment each existing order was linked to
+INSERT INTO "PaymentAttempt" ("id", "orderId", "provider", "paymentIntentId", "amount", "currency", "status", "createdAt", "updatedAt")
+SELECT
+    gen_random_uuid()::text,
+    "id",
+    CASE WHEN "paymentIntentId" LIKE 'mock\_pi\_%' THEN 'mock' ELSE 'stripe' END,
+    "paymentIntentId",
+    "totalPrice",
+    "currency",
+    CASE
+        WHEN "status" = 'PENDING' THEN 'PENDING'::"PaymentAttemptStatus"
+        WHEN "status" = 'CANCELLED' THEN 'CANCELED'::"PaymentAttemptStatus"
+        ELSE 'SUCCEEDED'::"PaymentAttemptStatus"
+    END,
+    "createdAt",
+    "updatedAt"
+FROM "Order"
+WHERE "paymentIntentId" LIKE 'pi\_%' OR "paymentIntentId" LIKE 'mock\_pi\_%';
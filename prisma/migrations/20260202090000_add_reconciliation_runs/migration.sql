@@ -0,0 +1,23 @@
+-- CreateEnum
+CREATE TYPE "ReconciliationTrigger" AS ENUM ('SCHEDULED', 'MANUAL');
+
+-- CreateTable
+CREATE TABLE "ReconciliationRun" (
+    "id" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "periodStart" TIMESTAMP(3) NOT NULL,
+    "periodEnd" TIMESTAMP(3) NOT NULL,
+    "trigger" "ReconciliationTrigger" NOT NULL,
+    "createdById" TEXT,
+    "summary" JSONB NOT NULL,
+    "entries" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ReconciliationRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ReconciliationRun_provider_periodStart_idx" ON "ReconciliationRun"("provider", "periodStart");
+
+-- CreateIndex
+CREATE INDEX "ReconciliationRun_createdAt_idx" ON "ReconciliationRun"("createdAt");
@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "contactFirstName" VARCHAR(100),
+ADD COLUMN     "contactLastName" VARCHAR(100),
+ADD COLUMN     "contactPhone" TEXT;
+
+-- Existing orders keep the contact details their customer has now, the best record of them there is
+UPDATE "Order" o
+SET "contactFirstName" = c."firstName",
+    "contactLastName" = c."lastName",
+    "contactPhone" = c."phone",
+    "shippingAddress" = COALESCE(o."shippingAddress", c."address")
+FROM "Customer" c
+WHERE c."id" = o."customerId";
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "contactEmail" VARCHAR(255);
+
+-- Existing orders take their customer's current email, leaving out the placeholders of guests who gave none
+UPDATE "Order" o
+SET "contactEmail" = c."email"
+FROM "Customer" c
+WHERE c."id" = o."customerId"
+  AND c."email" !~ '^temp-[^@]+@example\.com$';
@@ -1,16 +1,30 @@
 import { Request, Response } from 'express';
 import bcrypt from 'bcrypt';
+import { Prisma } from '@prisma/client';
 import prisma from '../lib/prisma';
+import { orderDetailsInclude, formatOrderItems, parsePaymentDetails, OrderWithDetails } from '../services/order.service';
+import { transitionOrderStatus, getOrderStatusHistory, formatStatusHistory } from '../services/order-status.service';
+import { getOrderActivity, formatOrderActivity } from '../services/order-activity.service';
+import { normalizeOrderNumber } from '../services/order-number.service';
+import { getOrderRefunds, formatRefund } from '../services/refund.service';
+import { getPaymentAttempts, formatPaymentAttempt } from '../services/payment.service';
+import { getSellerDetails } from '../services/settings.service';
+import { createShipment, deliverOrder, getOrderShipments, formatShipment } from '../services/shipment.service';
+import { BASE_CURRENCY, normalizeCurrency } from '../services/currency.service';
+import { parseShippingDimensions } from '../services/shipping.service';
+import { HttpError } from '../utils/errors';
 
 // Dashboard metrics
 export const getDashboardMetrics = async (req: Request, res: Response): Promise<void> => {
   try {
-    // Get total revenue (sum of all completed orders)
-    const totalRevenueResult = await prisma.order.aggregate({
-      where: { status: { in: ['CONFIRMED', 'SHIPPED', 'DELIVERED'] } },
-      _sum: { totalPrice: true },
-    });
-    const totalRevenue = totalRevenueResult._sum.totalPrice?.toNumber() || 0;
+    // Get total revenue (sum of all completed orders), in the base currency at each order's rate.
+    // Partial refunds come off the revenue of orders that are still active
+    const totalRevenueResult = await prisma.$queryRaw`
+      SELECT SUM(("totalPrice" - "refundedAmount") / "exchangeRate") as revenue
+      FROM "Order"
+      WHERE "status" IN ('CONFIRMED', 'SHIPPED', 'DELIVERED');
+    ` as any[];
+    const totalRevenue = parseFloat(totalRevenueResult[0]?.revenue) || 0;
 
     // Get total orders
     const totalOrders = await prisma.order.count();
@@ -35,6 +49,7 @@ export const getDashboardMetrics = async (req: Request, res: Response): Promise<
 
     res.json({
       totalRevenue,
+      currency: BASE_CURRENCY,
       totalOrders,
       totalAgents,
       totalCustomers,
@@ -47,14 +62,14 @@ export const getDashboardMetrics = async (req: Request, res: Response): Promise<
   }
 };
 
-// Daily sales data for chart
+// Daily sales data for chart, in the base currency
 export const getDailySales = async (req: Request, res: Response): Promise<void> => {
   try {
     // Get sales data for the last 7 days
     const salesData = await prisma.$queryRaw`
       SELECT 
         DATE("createdAt") as date,
-        SUM("totalPrice") as sales
+        SUM(("totalPrice" - "refundedAmount") / "exchangeRate") as sales
       FROM "Order"
       WHERE "status" IN ('CONFIRMED', 'SHIPPED', 'DELIVERED')
         AND "createdAt" >= NOW() - INTERVAL '7 days'
@@ -75,14 +90,14 @@ export const getDailySales = async (req: Request, res: Response): Promise<void>
   }
 };
 
-// Monthly revenue data for chart
+// Monthly revenue data for chart, in the base currency
 export const getMonthlyRevenue = async (req: Request, res: Response): Promise<void> => {
   try {
     // Get revenue data for the last 12 months
     const revenueData = await prisma.$queryRaw`
       SELECT 
         CONCAT(EXTRACT(YEAR FROM "createdAt"), '-', LPAD(EXTRACT(MONTH FROM "createdAt")::text, 2, '0')) as month,
-        SUM("totalPrice") as revenue
+        SUM(("totalPrice" - "refundedAmount") / "exchangeRate") as revenue
       FROM "Order"
       WHERE "status" IN ('CONFIRMED', 'SHIPPED', 'DELIVERED')
         AND "createdAt" >= NOW() - INTERVAL '12 months'
@@ -103,7 +118,7 @@ export const getMonthlyRevenue = async (req: Request, res: Response): Promise<vo
   }
 };
 
-// Top performing agents
+// Top performing agents, by sales in the base currency
 export const getTopAgents = async (req: Request, res: Response): Promise<void> => {
   try {
     // Get top 5 agents by total sales
@@ -111,7 +126,7 @@ export const getTopAgents = async (req: Request, res: Response): Promise<void> =
       SELECT 
         u."id",
         u."email" as name,
-        COALESCE(SUM(o."totalPrice"), 0) as sales
+        COALESCE(SUM((o."totalPrice" - o."refundedAmount") / o."exchangeRate"), 0) as sales
       FROM "User" u
       LEFT JOIN "Order" o ON u."id" = o."agentId"
       WHERE u."role" = 'AGENT'
@@ -199,7 +214,7 @@ export const getAllProducts = async (req: Request, res: Response): Promise<void>
 
 export const createProduct = async (req: Request, res: Response): Promise<void> => {
   try {
-    const { name, description, price, stockQuantity, commissionPercentage, image, category } = req.body;
+    const { name, description, price, stockQuantity, commissionPercentage, image, category, taxExempt } = req.body;
 
     // Validate required fields
     if (!name || price === undefined || stockQuantity === undefined || commissionPercentage === undefined) {
@@ -216,6 +231,8 @@ export const createProduct = async (req: Request, res: Response): Promise<void>
       commissionPercentage: parseFloat(commissionPercentage),
       image: image || '',
       category: category || '',
+      taxExempt: taxExempt === true,
+      ...parseShippingDimensions(req.body),
       isActive: true  // Explicitly set to active when created
     };
 
@@ -225,6 +242,10 @@ export const createProduct = async (req: Request, res: Response): Promise<void>
 
     res.status(201).json(product);
   } catch (error: any) {
+    if (error instanceof HttpError) {
+      res.status(error.statusCode).json({ message: error.message });
+      return;
+    }
     console.error('Error creating product:', error);
     
     // Check for specific Prisma error types
@@ -328,7 +349,7 @@ export const addProductImages = async (req: Request, res: Response): Promise<voi
 // New function to create product with images (simplified to avoid Prisma relation issues)
 export const createProductWithImages = async (req: Request, res: Response): Promise<void> => {
   try {
-    const { name, description, price, stockQuantity, commissionPercentage, image, category, images } = req.body;
+    const { name, description, price, stockQuantity, commissionPercentage, image, category, images, taxExempt } = req.body;
 
     const product = await prisma.product.create({
       data: {
@@ -339,6 +360,8 @@ export const createProductWithImages = async (req: Request, res: Response): Prom
         commissionPercentage,
         image: image || (images && images.length > 0 ? images[0] : null), // Set main image
         category,
+        taxExempt: taxExempt === true,
+        ...parseShippingDimensions(req.body),
         isActive: true  // Explicitly set to active when created
       }
     });
@@ -350,6 +373,10 @@ export const createProductWithImages = async (req: Request, res: Response): Prom
 
     res.status(201).json(createdProduct);
   } catch (error) {
+    if (error instanceof HttpError) {
+      res.status(error.statusCode).json({ message: error.message });
+      return;
+    }
     console.error('Error creating product with images:', error);
     res.status(500).json({ message: 'Internal server error' });
   }
@@ -387,7 +414,7 @@ export const deleteProduct = async (req: Request, res: Response): Promise<void>
     }
 
     // Check if the product has any related orders
-    const relatedOrders = await prisma.order.count({
+    const relatedOrders = await prisma.orderItem.count({
       where: { productId: id }
     });
     
@@ -417,7 +444,7 @@ export const deleteProduct = async (req: Request, res: Response): Promise<void>
 export const updateProduct = async (req: Request, res: Response): Promise<void> => {
   try {
     const { id } = req.params;
-    const { name, description, price, stockQuantity, commissionPercentage, image, category, images } = req.body;
+    const { name, description, price, stockQuantity, commissionPercentage, image, category, images, taxExempt } = req.body;
 
     // First check if the product exists
     const existingProduct = await prisma.product.findUnique({
@@ -439,7 +466,9 @@ export const updateProduct = async (req: Request, res: Response): Promise<void>
         stockQuantity: parseInt(stockQuantity),
         commissionPercentage: parseFloat(commissionPercentage),
         image,
-        category
+        category,
+        taxExempt: typeof taxExempt === 'boolean' ? taxExempt : undefined,
+        ...parseShippingDimensions(req.body)
       }
     });
 
@@ -503,6 +532,10 @@ export const updateProduct = async (req: Request, res: Response): Promise<void>
 
     res.status(200).json(formattedProduct);
   } catch (error) {
+    if (error instanceof HttpError) {
+      res.status(error.statusCode).json({ message: error.message });
+      return;
+    }
     console.error('Error updating product:', error);
     // Check if it's a Prisma error for record not found
     if ((error as any).code === 'P2025') {
@@ -633,81 +666,71 @@ export const updateAgentStatus = async (req: Request, res: Response): Promise<vo
 };
 
 // Order management
+const formatAdminOrder = (order: OrderWithDetails) => ({
+  id: order.id,
+  orderNumber: order.orderNumber,
+  status: order.status,
+  totalPrice: Number(order.totalPrice),
+  refundedAmount: Number(order.refundedAmount),
+  currency: order.currency,
+  exchangeRate: Number(order.exchangeRate),
+  subtotal: order.subtotal ? Number(order.subtotal) : undefined,
+  discount: Number(order.discount),
+  discountCode: order.discountCode || undefined,
+  attributionSource: order.attributionSource || undefined,
+  tax: order.tax ? Number(order.tax) : undefined,
+  pricesIncludeTax: order.pricesIncludeTax,
+  shipping: order.shipping ? Number(order.shipping) : undefined,
+  shippingMethod: order.shippingMethodName || undefined,
+  deliveryEstimate: order.deliveryEstimateFrom && order.deliveryEstimateTo
+    ? { from: order.deliveryEstimateFrom.toISOString(), to: order.deliveryEstimateTo.toISOString() }
+    : undefined,
+  paymentMethod: order.paymentMethod || undefined,
+  paymentIntentId: order.paymentIntentId || undefined,
+  paymentDetails: parsePaymentDetails(order.paymentDetails),
+  shippingAddress: order.shippingAddress || undefined,
+  billingAddress: order.billingAddress || undefined,
+  createdAt: order.createdAt.toISOString(),
+  items: formatOrderItems(order.items),
+  customer: {
+    id: order.customer.id,
+    email: order.customer.email,
+    firstName: order.contactFirstName || order.customer.firstName || '',
+    lastName: order.contactLastName || order.customer.lastName || '',
+    phone: order.contactPhone || order.customer.phone || '',
+    shippingAddress: order.shippingAddress || order.customer.address || ''
+  },
+  agent: order.agent ? {
+    id: order.agent.id,
+    email: order.agent.email,
+    firstName: order.agent.firstName || '',
+    lastName: order.agent.lastName || ''
+  } : undefined
+});
+
 export const getAllOrders = async (req: Request, res: Response): Promise<void> => {
   try {
     // Extract query parameters for filtering
-    const { status } = req.query;
+    const { status, orderNumber } = req.query;
     
     // Build where clause based on query parameters
     const whereClause: any = {};
     if (status) {
       whereClause.status = status as string;
     }
+    if (orderNumber) {
+      // Partial match so admins can search by the trailing digits
+      whereClause.orderNumber = { contains: normalizeOrderNumber(orderNumber as string) };
+    }
     
     const orders = await prisma.order.findMany({
       where: whereClause,
-      include: {
-        product: true,
-        customer: {
-          select: {
-            id: true,
-            email: true,
-            firstName: true,
-            lastName: true,
-            phone: true,
-            address: true
-          }
-        },
-        agent: {
-          select: {
-            id: true,
-            email: true,
-            firstName: true,
-            lastName: true
-          }
-        }
-      },
+      include: orderDetailsInclude,
       orderBy: { createdAt: 'desc' }
     });
     
     // Format the response to match the expected structure
-    const formattedOrders = orders.map(order => {
-      return {
-        id: order.id,
-        orderNumber: `ORD-${order.id.slice(-4).toUpperCase()}`,
-        status: order.status,
-        totalPrice: Number(order.totalPrice),
-        subtotal: order.subtotal ? Number(order.subtotal) : undefined,
-        tax: order.tax ? Number(order.tax) : undefined,
-        shipping: order.shipping ? Number(order.shipping) : undefined,
-        paymentMethod: order.paymentMethod || undefined,
-        paymentDetails: order.paymentDetails ? (typeof order.paymentDetails === 'string' ? JSON.parse(order.paymentDetails) : order.paymentDetails) : undefined,
-        shippingAddress: order.shippingAddress || undefined,
-        billingAddress: order.billingAddress || undefined,
-        createdAt: order.createdAt.toISOString(),
-        items: [{
-          id: order.product.id,
-          name: order.product.name,
-          price: Number(order.product.price),
-          quantity: order.quantity,
-          image: order.product.image || undefined
-        }],
-        customer: {
-          id: order.customer.id,
-          email: order.customer.email,
-          firstName: order.customer.firstName || '',
-          lastName: order.customer.lastName || '',
-          phone: order.customer.phone || '',
-          shippingAddress: order.customer.address || ''
-        },
-        agent: order.agent ? {
-          id: order.agent.id,
-          email: order.agent.email,
-          firstName: order.agent.firstName || '',
-          lastName: order.agent.lastName || ''
-        } : undefined
-      };
-    });
+    const formattedOrders = orders.map(formatAdminOrder);
     
     res.json(formattedOrders);
   } catch (error) {
@@ -716,6 +739,47 @@ export const getAllOrders = async (req: Request, res: Response): Promise<void> =
   }
 };
 
+const respondWithOrderDetails = async (res: Response, where: Prisma.OrderWhereUniqueInput): Promise<void> => {
+  const order = await prisma.order.findUnique({
+    where,
+    include: orderDetailsInclude
+  });
+
+  if (!order) {
+    res.status(404).json({ message: 'Order not found' });
+    return;
+  }
+
+  res.json({
+    ...formatAdminOrder(order),
+    statusHistory: formatStatusHistory(await getOrderStatusHistory(order.id)),
+    refunds: (await getOrderRefunds(order.id)).map(formatRefund),
+    paymentAttempts: (await getPaymentAttempts(order.id)).map(formatPaymentAttempt),
+    shipments: (await getOrderShipments(order.id)).map(formatShipment),
+    activity: formatOrderActivity(await getOrderActivity(order.id))
+  });
+};
+
+// Get a single order with its status history
+export const getOrderDetails = async (req: Request, res: Response): Promise<void> => {
+  try {
+    await respondWithOrderDetails(res, { id: req.params.id });
+  } catch (error) {
+    console.error('Error fetching order details:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// Get a single order by its order number (e.g. AWM-2026-000123)
+export const getOrderByNumber = async (req: Request, res: Response): Promise<void> => {
+  try {
+    await respondWithOrderDetails(res, { orderNumber: normalizeOrderNumber(req.params.orderNumber) });
+  } catch (error) {
+    console.error('Error fetching order by number:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
 // Commission management
 export const getAllCommissions = async (req: Request, res: Response): Promise<void> => {
   try {
@@ -723,7 +787,8 @@ export const getAllCommissions = async (req: Request, res: Response): Promise<vo
       include: {
         order: {
           select: {
-            id: true
+            id: true,
+            orderNumber: true
           }
         },
         user: {
@@ -861,6 +926,8 @@ export const createPayout = async (req: Request, res: Response): Promise<void> =
   try {
     const userId = (req as any).user.userId; // Get the authenticated user ID
     const { amount } = req.body;
+    // Commissions are paid out in the currency they were earned in
+    const currency = req.body.currency ? normalizeCurrency(req.body.currency) : BASE_CURRENCY;
 
     // Use hardcoded minimum payout threshold (same as in getSettings function)
     const minimumPayoutThreshold = 50; // $50 minimum payout threshold
@@ -882,6 +949,7 @@ export const createPayout = async (req: Request, res: Response): Promise<void> =
     const allCommissions = await prisma.commission.findMany({
       where: {
         userId: userId,
+        currency,
         status: { in: ['PENDING', 'APPROVED', 'PAID'] }
       }
     });
@@ -890,7 +958,8 @@ export const createPayout = async (req: Request, res: Response): Promise<void> =
     const allPayoutCommissions = await prisma.payoutCommission.findMany({
       where: {
         payout: {
-          userId: userId
+          userId: userId,
+          currency
         }
       },
       include: {
@@ -913,6 +982,7 @@ export const createPayout = async (req: Request, res: Response): Promise<void> =
     const pendingPayoutsResult = await prisma.payout.aggregate({
       where: {
         userId: userId,
+        currency,
         status: 'PENDING'
       },
       _sum: { amount: true }
@@ -948,6 +1018,7 @@ export const createPayout = async (req: Request, res: Response): Promise<void> =
       data: {
         userId,
         amount,
+        currency,
         status: 'PENDING', // New payouts start as pending
       }
     });
@@ -957,6 +1028,7 @@ export const createPayout = async (req: Request, res: Response): Promise<void> =
     const allCommissionsForLinking = await prisma.commission.findMany({
       where: {
         userId: userId,
+        currency,
         status: { in: ['PENDING', 'APPROVED', 'PAID'] }
       }
     });
@@ -965,7 +1037,8 @@ export const createPayout = async (req: Request, res: Response): Promise<void> =
     const allPayoutCommissionsForLinking = await prisma.payoutCommission.findMany({
       where: {
         payout: {
-          userId: userId
+          userId: userId,
+          currency
         }
       },
       include: {
@@ -987,6 +1060,7 @@ export const createPayout = async (req: Request, res: Response): Promise<void> =
     const pendingPayoutsResultForLinking = await prisma.payout.aggregate({
       where: {
         userId: userId,
+        currency,
         status: 'PENDING',
         id: { not: payout.id }  // Exclude the payout we just created
       },
@@ -1009,6 +1083,7 @@ export const createPayout = async (req: Request, res: Response): Promise<void> =
     const availableCommissions = await prisma.commission.findMany({
       where: {
         userId: userId,
+        currency,
         status: { in: ['APPROVED', 'PENDING'] }, // Only approved or pending commissions
         // Exclude only those linked to approved/paid payouts, but allow those linked to pending
         payoutCommissions: {
@@ -1058,7 +1133,9 @@ export const getSettings = async (req: Request, res: Response): Promise<void> =>
       defaultCommissionRate: 10, // 10%
       minimumPayoutThreshold: 50, // $50
       enableAgentRegistrations: true,
-      systemMaintenanceMode: false
+      systemMaintenanceMode: false,
+      // Printed on invoices and packing slips
+      seller: getSellerDetails()
     });
   } catch (error) {
     console.error('Error fetching settings:', error);
@@ -1204,7 +1281,11 @@ export const getAgentReferrals = async (req: Request, res: Response): Promise<vo
     const referrals = await prisma.order.findMany({
       where: { agentId: userId },
       include: {
-        product: true,
+        items: {
+          include: {
+            product: true
+          }
+        },
         customer: {
           select: {
             email: true
@@ -1230,7 +1311,11 @@ export const getAgentCommissions = async (req: Request, res: Response): Promise<
       include: {
         order: {
           include: {
-            product: true
+            items: {
+              include: {
+                product: true
+              }
+            }
           }
         }
       },
@@ -1369,7 +1454,7 @@ export const getAgentReferralClicks = async (req: Request, res: Response): Promi
 export const updateOrderStatus = async (req: Request, res: Response): Promise<void> => {
   try {
     const { id } = req.params;
-    const { status } = req.body;
+    const { status, note, carrier, trackingNumber, trackingUrl } = req.body;
 
     // Validate status
     const validStatuses = ['PENDING', 'CONFIRMED', 'SHIPPED', 'DELIVERED', 'CANCELLED'];
@@ -1378,85 +1463,44 @@ export const updateOrderStatus = async (req: Request, res: Response): Promise<vo
       return;
     }
 
-    // Get the current order to check if status change is valid
-    const order = await prisma.order.findUnique({
-      where: { id },
-    });
+    const actor = { type: 'ADMIN' as const, id: (req as any).user.userId };
 
-    if (!order) {
-      res.status(404).json({ message: 'Order not found' });
-      return;
+    if (status === 'SHIPPED') {
+      // Shipping the whole order at once; partial shipments go through the shipments endpoint
+      if (!carrier) {
+        res.status(400).json({ message: 'A carrier is required to mark an order shipped' });
+        return;
+      }
+      await createShipment(id, { carrier, trackingNumber, trackingUrl, note }, actor);
+    } else if (status === 'DELIVERED') {
+      await deliverOrder(id, actor, note);
+    } else {
+      // Apply the change through the order lifecycle (validates the transition and records history)
+      await transitionOrderStatus(id, status, actor, { note });
     }
 
-    // Update the order status
-    const updatedOrder = await prisma.order.update({
+    const updatedOrder = await prisma.order.findUniqueOrThrow({
       where: { id },
-      data: { status },
-      include: {
-        product: true,
-        customer: {
-          select: {
-            id: true,
-            email: true,
-            firstName: true,
-            lastName: true,
-            phone: true,
-            address: true
-          }
-        },
-        agent: {
-          select: {
-            id: true,
-            email: true,
-            firstName: true,
-            lastName: true
-          }
-        }
-      }
+      include: orderDetailsInclude
     });
 
     // If the order status is changed to CONFIRMED, SHIPPED, or DELIVERED, it contributes to revenue
     // The dashboard will automatically reflect this when recalculating metrics
     
     // Format the response similar to other order responses
-    const formattedOrder = {
-      id: updatedOrder.id,
-      orderNumber: `ORD-${updatedOrder.id.slice(-4).toUpperCase()}`,
-      status: updatedOrder.status,
-      totalPrice: Number(updatedOrder.totalPrice),
-      subtotal: updatedOrder.subtotal ? Number(updatedOrder.subtotal) : undefined,
-      tax: updatedOrder.tax ? Number(updatedOrder.tax) : undefined,
-      shipping: updatedOrder.shipping ? Number(updatedOrder.shipping) : undefined,
-      paymentMethod: updatedOrder.paymentMethod || undefined,
-      paymentDetails: updatedOrder.paymentDetails ? (typeof updatedOrder.paymentDetails === 'string' ? JSON.parse(updatedOrder.paymentDetails) : updatedOrder.paymentDetails) : undefined,
-      shippingAddress: updatedOrder.shippingAddress || undefined,
-      billingAddress: updatedOrder.billingAddress || undefined,
-      createdAt: updatedOrder.createdAt.toISOString(),
-      items: [{
-        id: updatedOrder.product.id,
-        name: updatedOrder.product.name,
-        price: Number(updatedOrder.product.price),
-        quantity: updatedOrder.quantity,
-        image: updatedOrder.product.image || undefined
-      }],
-      customer: {
-        id: updatedOrder.customer.id,
-        email: updatedOrder.customer.email,
-        firstName: updatedOrder.customer.firstName || '',
-        lastName: updatedOrder.customer.lastName || '',
-        phone: updatedOrder.customer.phone || '',
-        shippingAddress: updatedOrder.customer.address || ''
-      },
-      agent: updatedOrder.agent ? {
-        id: updatedOrder.agent.id,
-        email: updatedOrder.agent.email,
-        firstName: updatedOrder.agent.firstName || '',
-        lastName: updatedOrder.agent.lastName || ''
-      } : undefined
-    };
+    const formattedOrder = formatAdminOrder(updatedOrder);
 
-    res.json(formattedOrder);
+    res.json({
+      ...formattedOrder,
+      statusHistory: formatStatusHistory(await getOrderStatusHistory(id)),
+      shipments: (await getOrderShipments(id)).map(formatShipment),
+      activity: formatOrderActivity(await getOrderActivity(id))
+    });
   } catch (error) {
+    if (error instanceof HttpError) {
+      res.status(error.statusCode).json({ message: error.message, ...error.details });
+      return;
+    }
     console.error('Error updating order status:', error);
     res.status(500).json({ message: 'Internal server error' });
   }
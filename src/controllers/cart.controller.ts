@@ -0,0 +1,206 @@
+import { Request, Response } from 'express';
+import {
+  createCart,
+  getCart,
+  getCustomerCart,
+  addCartItem,
+  setCartItemQuantity,
+  removeCartItem,
+  applyCartPromoCode,
+  removeCartPromoCode,
+  updateCart,
+  buildCartView,
+  checkoutCart,
+  getAbandonedCarts,
+  formatCart,
+  CartWithItems
+} from '../services/cart.service';
+import { formatCheckoutResponse } from '../services/checkout.service';
+import { findSessionCustomerId } from '../services/customer.service';
+import { serializeQuote } from '../services/pricing.service';
+import { toTaxDestination } from '../services/tax.service';
+import { HttpError } from '../utils/errors';
+import { roundMoney } from '../utils/money';
+
+const handleCartError = (res: Response, error: unknown, context: string): void => {
+  if (error instanceof HttpError) {
+    res.status(error.statusCode).json({ message: error.message, ...error.details });
+    return;
+  }
+  console.error(`Error ${context}:`, error);
+  res.status(500).json({ message: 'Internal server error' });
+};
+
+const respondWithCart = async (res: Response, cart: CartWithItems, status: number = 200): Promise<void> => {
+  res.status(status).json(formatCart(await buildCartView(cart)));
+};
+
+// Start a new cart; the returned token identifies it from then on
+export const createCartHandler = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const customerId = await findSessionCustomerId((req as any).user);
+    const cart = await createCart({ agentId: req.body?.referralAgentId, customerId });
+    await respondWithCart(res, cart, 201);
+  } catch (error) {
+    handleCartError(res, error, 'creating cart');
+  }
+};
+
+// The signed-in customer's most recent active cart
+export const getCurrentCart = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const customerId = await findSessionCustomerId((req as any).user);
+    if (!customerId) {
+      res.status(401).json({ message: 'Sign in as a customer to load your cart' });
+      return;
+    }
+
+    const cart = await getCustomerCart(customerId);
+    if (!cart) {
+      res.status(404).json({ message: 'No active cart' });
+      return;
+    }
+
+    await respondWithCart(res, cart);
+  } catch (error) {
+    handleCartError(res, error, 'fetching current cart');
+  }
+};
+
+export const getCartHandler = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const customerId = await findSessionCustomerId((req as any).user);
+    await respondWithCart(res, await getCart(req.params.token, customerId));
+  } catch (error) {
+    handleCartError(res, error, 'fetching cart');
+  }
+};
+
+// Set or clear the referral agent and currency of the cart
+export const updateCartHandler = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { referralAgentId, currency } = req.body;
+    await respondWithCart(res, await updateCart(req.params.token, { agentId: referralAgentId, currency }));
+  } catch (error) {
+    handleCartError(res, error, 'updating cart');
+  }
+};
+
+export const addCartItemHandler = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { productId, quantity = 1 } = req.body;
+    await respondWithCart(res, await addCartItem(req.params.token, productId, quantity));
+  } catch (error) {
+    handleCartError(res, error, 'adding cart item');
+  }
+};
+
+export const updateCartItemHandler = async (req: Request, res: Response): Promise<void> => {
+  try {
+    await respondWithCart(res, await setCartItemQuantity(req.params.token, req.params.productId, req.body.quantity));
+  } catch (error) {
+    handleCartError(res, error, 'updating cart item');
+  }
+};
+
+export const removeCartItemHandler = async (req: Request, res: Response): Promise<void> => {
+  try {
+    await respondWithCart(res, await removeCartItem(req.params.token, req.params.productId));
+  } catch (error) {
+    handleCartError(res, error, 'removing cart item');
+  }
+};
+
+export const applyCartPromoCodeHandler = async (req: Request, res: Response): Promise<void> => {
+  try {
+    await respondWithCart(res, await applyCartPromoCode(req.params.token, req.body.promoCode));
+  } catch (error) {
+    handleCartError(res, error, 'applying promo code to cart');
+  }
+};
+
+export const removeCartPromoCodeHandler = async (req: Request, res: Response): Promise<void> => {
+  try {
+    await respondWithCart(res, await removeCartPromoCode(req.params.token));
+  } catch (error) {
+    handleCartError(res, error, 'removing promo code from cart');
+  }
+};
+
+// Totals for the cart as it would be ordered now; ?country=&state=&postalCode= adds the destination's
+// tax and shipping methods, ?shippingMethodId= picks one of them
+export const getCartQuote = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const destination = toTaxDestination({
+      country: req.query.country as string,
+      state: req.query.state as string,
+      postalCode: req.query.postalCode as string
+    });
+    const view = await buildCartView(await getCart(req.params.token), destination, req.query.shippingMethodId as string);
+
+    res.json({
+      quote: view.quote ? serializeQuote(view.quote) : null,
+      issues: view.issues,
+      promoCodeError: view.promoCodeError || undefined
+    });
+  } catch (error) {
+    handleCartError(res, error, 'quoting cart');
+  }
+};
+
+// Place an order from the cart's contents
+export const checkoutCartHandler = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { customerInfo, paymentMethod, paymentDetails, shippingMethodId } = req.body;
+
+    const result = await checkoutCart(req.params.token, {
+      customerInfo,
+      paymentMethod,
+      paymentDetails,
+      shippingMethodId,
+      clientTotals: {
+        subtotal: req.body.subtotal,
+        discount: req.body.discount,
+        tax: req.body.tax,
+        shipping: req.body.shipping,
+        totalAmount: req.body.totalAmount
+      },
+      user: (req as any).user
+    });
+
+    res.status(201).json(formatCheckoutResponse(result));
+  } catch (error) {
+    handleCartError(res, error, 'checking out cart');
+  }
+};
+
+// Admin: carts with items left untouched for `hours` (default 24)
+export const getAbandonedCartsHandler = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const hours = req.query.hours ? parseFloat(req.query.hours as string) : 24;
+    if (!Number.isFinite(hours) || hours <= 0) {
+      res.status(400).json({ message: 'hours must be a positive number' });
+      return;
+    }
+
+    const carts = await getAbandonedCarts(hours);
+
+    res.json(carts.map(cart => ({
+      id: cart.id,
+      customer: cart.customer || undefined,
+      agentId: cart.agentId || undefined,
+      promoCode: cart.promoCode || undefined,
+      itemCount: cart.items.reduce((sum, item) => sum + item.quantity, 0),
+      value: roundMoney(cart.items.reduce((sum, item) => sum + Number(item.product.price) * item.quantity, 0)),
+      items: cart.items.map(item => ({
+        productId: item.productId,
+        name: item.product.name,
+        quantity: item.quantity
+      })),
+      createdAt: cart.createdAt.toISOString(),
+      updatedAt: cart.updatedAt.toISOString()
+    })));
+  } catch (error) {
+    handleCartError(res, error, 'fetching abandoned carts');
+  }
+};
@@ -0,0 +1,77 @@
+import { Request, Response } from 'express';
+import prisma from '../lib/prisma';
+import {
+  BASE_CURRENCY,
+  listExchangeRates,
+  setExchangeRate,
+  setProductPrices,
+  formatExchangeRate,
+  formatProductPrice
+} from '../services/currency.service';
+import { HttpError } from '../utils/errors';
+
+const handleCurrencyError = (res: Response, error: unknown, context: string): void => {
+  if (error instanceof HttpError) {
+    res.status(error.statusCode).json({ message: error.message, ...error.details });
+    return;
+  }
+  console.error(`Error ${context}:`, error);
+  res.status(500).json({ message: 'Internal server error' });
+};
+
+// Base currency and the rates of every other currency that can be sold in
+export const getCurrencies = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const rates = await listExchangeRates();
+
+    res.json({
+      baseCurrency: BASE_CURRENCY,
+      currencies: [BASE_CURRENCY, ...rates.map(rate => rate.currency)],
+      exchangeRates: rates.map(formatExchangeRate)
+    });
+  } catch (error) {
+    handleCurrencyError(res, error, 'fetching currencies');
+  }
+};
+
+// Admin: set how many units of a currency one unit of the base currency buys
+export const updateExchangeRate = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const exchangeRate = await setExchangeRate(req.params.currency, req.body.rate, (req as any).user.userId);
+    res.json(formatExchangeRate(exchangeRate));
+  } catch (error) {
+    handleCurrencyError(res, error, 'updating exchange rate');
+  }
+};
+
+export const getProductPrices = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const product = await prisma.product.findUnique({
+      where: { id: req.params.id },
+      include: { prices: { orderBy: { currency: 'asc' } } }
+    });
+
+    if (!product) {
+      res.status(404).json({ message: 'Product not found' });
+      return;
+    }
+
+    res.json({
+      baseCurrency: BASE_CURRENCY,
+      basePrice: Number(product.price),
+      prices: product.prices.map(formatProductPrice)
+    });
+  } catch (error) {
+    handleCurrencyError(res, error, 'fetching product prices');
+  }
+};
+
+// Admin: set per-currency prices, e.g. { "prices": { "EUR": 19.9, "GBP": null } }
+export const updateProductPrices = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const prices = await setProductPrices(req.params.id, req.body.prices);
+    res.json({ prices: prices.map(formatProductPrice) });
+  } catch (error) {
+    handleCurrencyError(res, error, 'updating product prices');
+  }
+};
@@ -0,0 +1,47 @@
+import { Request, Response } from 'express';
+import { findDuplicateCustomers, mergeCustomers, formatCustomer } from '../services/customer.service';
+import { HttpError } from '../utils/errors';
+
+const handleCustomerError = (res: Response, error: unknown, context: string): void => {
+  if (error instanceof HttpError) {
+    res.status(error.statusCode).json({ message: error.message, ...error.details });
+    return;
+  }
+  console.error(`Error ${context}:`, error);
+  res.status(500).json({ message: 'Internal server error' });
+};
+
+// Customers that share an email (ignoring case) or a phone number
+export const getDuplicateCustomers = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const groups = await findDuplicateCustomers();
+
+    res.json(groups.map(group => ({
+      matchedBy: group.matchedBy,
+      value: group.value,
+      customers: group.customers.map(customer => ({
+        ...formatCustomer(customer),
+        orderCount: customer.orderCount
+      }))
+    })));
+  } catch (error) {
+    handleCustomerError(res, error, 'fetching duplicate customers');
+  }
+};
+
+// Merge duplicates into the customer to keep, moving their orders over
+export const mergeCustomersHandler = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { duplicateIds } = req.body;
+    const result = await mergeCustomers(req.params.id, duplicateIds);
+
+    res.json({
+      message: 'Customers merged successfully',
+      customer: formatCustomer(result.customer),
+      mergedCustomerIds: result.mergedCustomerIds,
+      ordersMoved: result.ordersMoved
+    });
+  } catch (error) {
+    handleCustomerError(res, error, 'merging customers');
+  }
+};
@@ -0,0 +1,32 @@
+import { Request, Response } from 'express';
+import { addOrderComment, getOrderActivity, formatOrderActivity } from '../services/order-activity.service';
+import { HttpError } from '../utils/errors';
+
+const handleActivityError = (res: Response, error: unknown, context: string): void => {
+  if (error instanceof HttpError) {
+    res.status(error.statusCode).json({ message: error.message, ...error.details });
+    return;
+  }
+  console.error(`Error ${context}:`, error);
+  res.status(500).json({ message: 'Internal server error' });
+};
+
+// Admin: the order's full thread, including internal notes
+export const getOrderActivityHandler = async (req: Request, res: Response): Promise<void> => {
+  try {
+    res.json(formatOrderActivity(await getOrderActivity(req.params.id)));
+  } catch (error) {
+    handleActivityError(res, error, 'fetching order activity');
+  }
+};
+
+// Admin: { "type": "NOTE" | "MESSAGE", "body": "..." }; messages are shown to the customer
+export const addOrderCommentHandler = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { type = 'NOTE', body } = req.body;
+    const entry = await addOrderComment(req.params.id, type, body, { type: 'ADMIN', id: (req as any).user.userId });
+    res.status(201).json(formatOrderActivity([entry])[0]);
+  } catch (error) {
+    handleActivityError(res, error, 'adding order comment');
+  }
+};
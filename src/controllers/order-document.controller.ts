@@ -0,0 +1,31 @@
+import { Request, Response } from 'express';
+import { OrderDocumentType } from '@prisma/client';
+import { getOrderDocument, orderDocumentFileName } from '../services/order-document.service';
+import { assertOrderAccess } from '../services/order-access.service';
+import { HttpError } from '../utils/errors';
+import { extractOrderAccessToken } from '../utils/jwt';
+
+const sendOrderDocument = async (req: Request, res: Response, type: OrderDocumentType): Promise<void> => {
+  try {
+    await assertOrderAccess(req.params.id, { user: (req as any).user, accessToken: extractOrderAccessToken(req) });
+
+    const document = await getOrderDocument(req.params.id, type);
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${orderDocumentFileName(document)}"`);
+    res.send(Buffer.from(document.content));
+  } catch (error) {
+    if (error instanceof HttpError) {
+      res.status(error.statusCode).json({ message: error.message, ...error.details });
+      return;
+    }
+    console.error(`Error generating ${type.toLowerCase()}:`, error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// Download the order's invoice (PDF), issuing it on first request
+export const downloadInvoice = (req: Request, res: Response): Promise<void> => sendOrderDocument(req, res, 'INVOICE');
+
+// Download the order's packing slip (PDF, no prices)
+export const downloadPackingSlip = (req: Request, res: Response): Promise<void> => sendOrderDocument(req, res, 'PACKING_SLIP');
@@ -0,0 +1,46 @@
+import { Request, Response } from 'express';
+import { quoteCheckout, serializeQuote } from '../../services/pricing.service';
+import { findApplicablePromoCode, toPromotionRule } from '../../services/promotion.service';
+import { checkoutDestination } from '../../services/checkout.service';
+import { formatShippingOption } from '../../services/shipping.service';
+import { HttpError } from '../../utils/errors';
+
+const handleQuoteError = (res: Response, error: unknown, context: string): void => {
+  if (error instanceof HttpError) {
+    res.status(error.statusCode).json({ message: error.message, ...error.details });
+    return;
+  }
+  console.error(`Error ${context}:`, error);
+  res.status(500).json({ message: 'Internal server error' });
+};
+
+const quoteRequest = async (req: Request) => {
+  const { items, promoCode, currency, customerInfo, shippingMethodId } = req.body;
+
+  const promotion = promoCode ? toPromotionRule(await findApplicablePromoCode(promoCode)) : null;
+  return quoteCheckout(items, { promotion, currency, destination: checkoutDestination(customerInfo), shippingMethodId });
+};
+
+// Price a cart on the server without placing an order
+export const getQuote = async (req: Request, res: Response): Promise<void> => {
+  try {
+    res.status(200).json(serializeQuote(await quoteRequest(req)));
+  } catch (error) {
+    handleQuoteError(res, error, 'quoting order');
+  }
+};
+
+// Shipping methods available for the items at the customer's address, cheapest first
+export const getShippingMethods = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const quote = await quoteRequest(req);
+
+    res.status(200).json({
+      currency: quote.currency,
+      selected: quote.shippingMethod ? formatShippingOption(quote.shippingMethod) : undefined,
+      shippingMethods: quote.shippingOptions.map(option => formatShippingOption(option))
+    });
+  } catch (error) {
+    handleQuoteError(res, error, 'listing shipping methods');
+  }
+};
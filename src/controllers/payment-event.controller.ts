@@ -0,0 +1,32 @@
+import { Request, Response } from 'express';
+import { listPaymentEvents, retryPaymentEvent, formatPaymentEvent } from '../services/payment-event.service';
+import { HttpError } from '../utils/errors';
+
+const handlePaymentEventError = (res: Response, error: unknown, context: string): void => {
+  if (error instanceof HttpError) {
+    res.status(error.statusCode).json({ message: error.message, ...error.details });
+    return;
+  }
+  console.error(`Error ${context}:`, error);
+  res.status(500).json({ message: 'Internal server error' });
+};
+
+// Admin: stored webhook events, ?status= (default FAILED)
+export const getPaymentEvents = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const paymentEvents = await listPaymentEvents(req.query.status as string | undefined);
+    res.json(paymentEvents.map(formatPaymentEvent));
+  } catch (error) {
+    handlePaymentEventError(res, error, 'fetching payment events');
+  }
+};
+
+// Admin: run a failed event again from its stored payload
+export const retryPaymentEventHandler = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const paymentEvent = await retryPaymentEvent(req.params.id);
+    res.json(formatPaymentEvent(paymentEvent));
+  } catch (error) {
+    handlePaymentEventError(res, error, 'retrying payment event');
+  }
+};
@@ -1,10 +1,15 @@
 import { Request, Response } from 'express';
-import { createPaymentIntent as createStripePaymentIntent, retrievePaymentIntent } from '../services/stripe.service';
-import prisma from '../lib/prisma';
+import { getPaymentProvider, getProviderByName, getIntentProvider } from '../services/payment-provider.service';
+import { quoteCheckout, assertClientTotals, serializeQuote } from '../services/pricing.service';
+import { HttpError } from '../utils/errors';
+import { handlePaymentEvent } from '../services/payment-event.service';
+import { confirmPaidOrders, confirmPayment as payIntent } from '../services/payment.service';
+import { findApplicablePromoCode, toPromotionRule } from '../services/promotion.service';
+import { checkoutDestination } from '../services/checkout.service';
 
 export const createPaymentIntent = async (req: Request, res: Response): Promise<void> => {
   try {
-    const { items, totalAmount, customerInfo, agentId } = req.body;
+    const { items, totalAmount, customerInfo, agentId, promoCode, currency, shippingMethodId, paymentMethod = 'card' } = req.body;
 
     // Validate request body
     if (!items || !Array.isArray(items) || items.length === 0) {
@@ -17,26 +22,51 @@ export const createPaymentIntent = async (req: Request, res: Response): Promise<
       return;
     }
 
-    // Create a payment intent with Stripe
+    const provider = getPaymentProvider(paymentMethod);
+    if (!provider.online) {
+      res.status(400).json({ message: `${paymentMethod} is not paid online` });
+      return;
+    }
+
+    // Charge the server quote, never the client total, so the intent matches the order
+    const promotion = promoCode ? toPromotionRule(await findApplicablePromoCode(promoCode)) : null;
+    const quote = await quoteCheckout(items, {
+      promotion,
+      currency,
+      destination: checkoutDestination(customerInfo),
+      shippingMethodId
+    });
+    assertClientTotals(quote, { items, totalAmount });
+
+    // Create a payment intent with the method's provider
     const paymentIntentData = {
-      amount: Math.round(totalAmount * 100), // Convert to cents
-      currency: 'usd',
+      amount: quote.total, // Providers convert to minor units
+      currency: quote.currency,
       metadata: {
         userId: req.body.userId || '',
         agentId: agentId || '',
+        promoCode: quote.promoCode || '',
         items: JSON.stringify(items),
       },
-      receipt_email: customerInfo?.email || undefined,
+      receiptEmail: customerInfo?.email || undefined,
     };
 
-    const paymentIntent = await createStripePaymentIntent(paymentIntentData);
+    const paymentIntent = await provider.createIntent(paymentIntentData);
 
     res.status(200).json({
+      provider: provider.name,
       clientSecret: paymentIntent.clientSecret,
       id: paymentIntent.id,
+      amount: quote.total,
+      currency: quote.currency,
+      quote: serializeQuote(quote),
       message: 'Payment intent created successfully'
     });
   } catch (error) {
+    if (error instanceof HttpError) {
+      res.status(error.statusCode).json({ message: error.message, ...error.details });
+      return;
+    }
     console.error('Error creating payment intent:', error);
     res.status(500).json({ 
       message: 'Failed to create payment intent',
@@ -45,128 +75,38 @@ export const createPaymentIntent = async (req: Request, res: Response): Promise<
   }
 };
 
+// Provider webhooks, /webhook for Stripe and /webhook/:provider for the others. The body
+// arrives unparsed (see server.ts) so its signature can be checked.
 export const handleWebhook = async (req: Request, res: Response): Promise<void> => {
-  const sig = req.headers['stripe-signature'] as string;
-  const endpointSecret = process.env.STRIPE_WEBHOOK_SECRET;
-
-  if (!endpointSecret) {
-    console.error('Missing Stripe webhook secret');
-    res.status(500).json({ message: 'Missing webhook secret' });
+  if (!Buffer.isBuffer(req.body)) {
+    res.status(400).send('Webhook error: missing raw body');
     return;
   }
 
+  let event;
   try {
-    // For now, we'll just log the event since we don't have the stripe library to construct the event
-    // In a production environment, you would verify the webhook signature here
-    const event = req.body;
-    
-    console.log(`Received Stripe event: ${event.type}`);
-
-    // Handle different event types
-    switch (event.type) {
-      case 'payment_intent.succeeded':
-        const paymentIntentSucceeded = event.data.object;
-        console.log(`Payment succeeded for payment intent: ${paymentIntentSucceeded.id}`);
-        
-        // Update order status in database to 'CONFIRMED'
-        // Extract metadata to identify the order
-        const metadata = paymentIntentSucceeded.metadata;
-        
-        // In the place-order controller, we create multiple orders for each item
-        // We need to find and update those orders
-        // The agentId is passed in metadata
-        if (metadata.agentId) {
-          // Find recent pending orders for this agent/customer that match the payment amount
-          // This is a simplified approach - in production, you'd have a more reliable way to link payment intents to orders
-          try {
-            // Get all pending orders with the agent ID
-            const pendingOrders = await prisma.order.findMany({
-              where: {
-                agentId: metadata.agentId,
-                status: 'PENDING',
-                // Add time constraint to avoid updating old orders
-                createdAt: {
-                  gte: new Date(Date.now() - 24 * 60 * 60 * 1000) // Last 24 hours
-                }
-              },
-              orderBy: {
-                createdAt: 'desc'
-              },
-              take: 10 // Limit to recent orders
-            });
-            
-            // Update the most recent pending order
-            if (pendingOrders.length > 0) {
-              const orderToUpdate = pendingOrders[0];
-              
-              await prisma.order.update({
-                where: { id: orderToUpdate.id },
-                data: { status: 'CONFIRMED' }
-              });
-              
-              console.log(`Order ${orderToUpdate.id} status updated to CONFIRMED`);
-            }
-          } catch (updateError) {
-            console.error('Error updating order status:', updateError);
-          }
-        } else {
-          // If no agentId in metadata, try to update based on payment amount
-          // This is a fallback approach
-          const paymentAmount = paymentIntentSucceeded.amount;
-          
-          try {
-            const pendingOrders = await prisma.order.findMany({
-              where: {
-                status: 'PENDING',
-                totalPrice: {
-                  gte: paymentAmount / 100 - 0.01,
-                  lte: paymentAmount / 100 + 0.01
-                },
-                createdAt: {
-                  gte: new Date(Date.now() - 24 * 60 * 60 * 1000) // Last 24 hours
-                }
-              },
-              orderBy: {
-                createdAt: 'desc'
-              },
-              take: 10
-            });
-            
-            // Update the most recent matching pending order
-            if (pendingOrders.length > 0) {
-              const orderToUpdate = pendingOrders[0];
-              
-              await prisma.order.update({
-                where: { id: orderToUpdate.id },
-                data: { status: 'CONFIRMED' }
-              });
-              
-              console.log(`Order ${orderToUpdate.id} status updated to CONFIRMED`);
-            }
-          } catch (updateError) {
-            console.error('Error updating order status by amount:', updateError);
-          }
-        }
-        break;
-        
-      case 'payment_intent.payment_failed':
-        const paymentIntentFailed = event.data.object;
-        console.log(`Payment failed for payment intent: ${paymentIntentFailed.id}`);
-        break;
-        
-      case 'charge.succeeded':
-        const charge = event.data.object;
-        console.log(`Charge succeeded: ${charge.id}`);
-        break;
-        
-      default:
-        console.log(`Unhandled event type: ${event.type}`);
+    event = getProviderByName(req.params.provider || 'stripe').parseWebhook(req.body, req.headers);
+  } catch (err) {
+    if (err instanceof HttpError) {
+      res.status(err.statusCode).json({ message: err.message });
+      return;
     }
+    console.error('Webhook parsing failed:', err);
+    res.status(400).send(`Webhook error: ${(err as Error).message}`);
+    return;
+  }
+
+  try {
+    console.log(`Received ${event.provider} event: ${event.type}`);
 
-    res.json({ received: true });
+    // Failures are kept on the stored event for an admin to re-run, so the provider is not asked to retry
+    const { paymentEvent, duplicate } = await handlePaymentEvent(event);
+
+    res.json({ received: true, duplicate, status: paymentEvent.status });
   } catch (err) {
+    // The event could not even be stored; let the provider deliver it again
     console.error('Webhook error:', err);
-    res.status(400).send(`Webhook error: ${(err as Error).message}`);
+    res.status(500).send(`Webhook error: ${(err as Error).message}`);
   }
 };
 
@@ -179,13 +119,16 @@ export const verifyPayment = async (req: Request, res: Response): Promise<void>
       return;
     }
 
-    const paymentIntent = await retrievePaymentIntent(paymentIntentId);
+    const paymentIntent = await getIntentProvider(paymentIntentId).retrieveIntent(paymentIntentId);
 
     if (paymentIntent.status === 'succeeded') {
-      // Payment successful, create the order in the database
+      // Confirm the orders this intent pays, in case the webhook hasn't yet
+      const orders = await confirmPaidOrders(paymentIntent);
+
       res.status(200).json({
         status: paymentIntent.status,
         message: 'Payment verified successfully',
+        orders: orders.map(order => ({ id: order.id, orderNumber: order.orderNumber, status: order.status })),
         paymentIntent
       });
     } else {
@@ -196,10 +139,45 @@ export const verifyPayment = async (req: Request, res: Response): Promise<void>
       });
     }
   } catch (error) {
+    if (error instanceof HttpError) {
+      res.status(error.statusCode).json({ message: error.message, ...error.details });
+      return;
+    }
     console.error('Error verifying payment:', error);
     res.status(500).json({ 
       message: 'Failed to verify payment',
       error: (error as Error).message 
     });
   }
-};
\ No newline at end of file
+};
+
+// Pay a mock intent from the server in development; confirms its orders when it succeeds
+export const confirmPayment = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { paymentIntentId, paymentMethod } = req.body;
+
+    if (!paymentIntentId) {
+      res.status(400).json({ message: 'Payment intent ID is required' });
+      return;
+    }
+
+    const { paymentIntent, orders } = await payIntent(paymentIntentId, paymentMethod);
+
+    res.status(paymentIntent.status === 'succeeded' ? 200 : 402).json({
+      status: paymentIntent.status,
+      message: paymentIntent.status === 'succeeded' ? 'Payment completed' : paymentIntent.lastError || 'Payment not completed',
+      orders: orders.map(order => ({ id: order.id, orderNumber: order.orderNumber, status: order.status })),
+      paymentIntent
+    });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      res.status(error.statusCode).json({ message: error.message, ...error.details });
+      return;
+    }
+    console.error('Error confirming payment:', error);
+    res.status(500).json({
+      message: 'Failed to confirm payment',
+      error: (error as Error).message
+    });
+  }
+};
@@ -0,0 +1,109 @@
+import { Request, Response } from 'express';
+import prisma from '../lib/prisma';
+import { createPromoCode, updatePromoCode, formatPromoCode } from '../services/promotion.service';
+import { StatusActor } from '../services/order-status.service';
+import { HttpError } from '../utils/errors';
+
+const handlePromoCodeError = (res: Response, error: unknown, context: string): void => {
+  if (error instanceof HttpError) {
+    res.status(error.statusCode).json({ message: error.message, ...error.details });
+    return;
+  }
+  console.error(`Error ${context}:`, error);
+  res.status(500).json({ message: 'Internal server error' });
+};
+
+// Admins act on every code; agents only on their own coupons
+const actorFrom = (req: Request): StatusActor => {
+  const user = (req as any).user;
+  return { type: user.role === 'AGENT' ? 'AGENT' : 'ADMIN', id: user.userId };
+};
+
+export const getAllPromoCodes = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { isActive, agentId } = req.query;
+    const actor = actorFrom(req);
+
+    const whereClause: any = {};
+    if (isActive !== undefined) {
+      whereClause.isActive = isActive === 'true';
+    }
+    if (actor.type === 'AGENT') {
+      whereClause.agentId = actor.id;
+    } else if (agentId) {
+      whereClause.agentId = agentId as string;
+    }
+
+    const promoCodes = await prisma.promoCode.findMany({
+      where: whereClause,
+      orderBy: { createdAt: 'desc' }
+    });
+
+    res.json(promoCodes.map(formatPromoCode));
+  } catch (error) {
+    handlePromoCodeError(res, error, 'fetching promo codes');
+  }
+};
+
+// Get a promo code with the total discount it has given
+export const getPromoCodeById = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const actor = actorFrom(req);
+    const promoCode = await prisma.promoCode.findUnique({
+      where: { id: req.params.id }
+    });
+
+    if (!promoCode || (actor.type === 'AGENT' && promoCode.agentId !== actor.id)) {
+      res.status(404).json({ message: 'Promo code not found' });
+      return;
+    }
+
+    const redemptions = await prisma.promoRedemption.aggregate({
+      where: { promoCodeId: promoCode.id },
+      _sum: { amount: true },
+      _count: true
+    });
+
+    res.json({
+      ...formatPromoCode(promoCode),
+      redemptionCount: redemptions._count,
+      totalDiscount: Number(redemptions._sum.amount || 0)
+    });
+  } catch (error) {
+    handlePromoCodeError(res, error, 'fetching promo code');
+  }
+};
+
+export const createPromoCodeHandler = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const promoCode = await createPromoCode(req.body, actorFrom(req));
+    res.status(201).json(formatPromoCode(promoCode));
+  } catch (error) {
+    handlePromoCodeError(res, error, 'creating promo code');
+  }
+};
+
+export const updatePromoCodeHandler = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const promoCode = await updatePromoCode(req.params.id, req.body, actorFrom(req));
+    res.json(formatPromoCode(promoCode));
+  } catch (error) {
+    handlePromoCodeError(res, error, 'updating promo code');
+  }
+};
+
+export const updatePromoCodeStatus = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { isActive } = req.body;
+
+    if (typeof isActive !== 'boolean') {
+      res.status(400).json({ message: 'isActive must be a boolean' });
+      return;
+    }
+
+    const promoCode = await updatePromoCode(req.params.id, { isActive }, actorFrom(req));
+    res.json(formatPromoCode(promoCode));
+  } catch (error) {
+    handlePromoCodeError(res, error, 'updating promo code status');
+  }
+};
@@ -0,0 +1,87 @@
+import { Request, Response } from 'express';
+import {
+  runReconciliation,
+  listReconciliationRuns,
+  getReconciliationRun,
+  reconciliationRunCsv,
+  reconciliationFileName,
+  formatReconciliationRun
+} from '../services/reconciliation.service';
+import { getOnlinePaymentProviders } from '../services/payment-provider.service';
+import { HttpError } from '../utils/errors';
+
+const handleReconciliationError = (res: Response, error: unknown, context: string): void => {
+  if (error instanceof HttpError) {
+    res.status(error.statusCode).json({ message: error.message, ...error.details });
+    return;
+  }
+  console.error(`Error ${context}:`, error);
+  res.status(500).json({ message: 'Internal server error' });
+};
+
+/**
+ * Parse a from / to date, or return the fallback when it's absent
+ */
+const parseDateParam = (value: unknown, name: string, fallback: Date): Date => {
+  if (value === undefined || value === null || value === '') {
+    return fallback;
+  }
+
+  const date = new Date(String(value));
+  if (isNaN(date.getTime())) {
+    throw new HttpError(400, `${name} must be a valid date`);
+  }
+  return date;
+};
+
+// Admin: reconcile payments made in [from, to), by default yesterday (UTC), e.g.
+// { "provider": "stripe", "from": "2026-02-01", "to": "2026-02-02" }. Without a provider
+// every provider that takes payments online is reconciled.
+export const createReconciliationRun = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const today = new Date(new Date().toISOString().slice(0, 10));
+    const from = parseDateParam(req.body.from, 'from', new Date(today.getTime() - 24 * 60 * 60 * 1000));
+    const to = parseDateParam(req.body.to, 'to', today);
+    const providers = req.body.provider
+      ? [String(req.body.provider)]
+      : getOnlinePaymentProviders().map(provider => provider.name);
+
+    const runs = [];
+    for (const provider of providers) {
+      runs.push(await runReconciliation(provider, from, to, 'MANUAL', (req as any).user.userId));
+    }
+
+    res.status(201).json(runs.map(run => formatReconciliationRun(run)));
+  } catch (error) {
+    handleReconciliationError(res, error, 'reconciling payments');
+  }
+};
+
+// Admin: past runs with their summaries, newest first
+export const getReconciliationRuns = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const runs = await listReconciliationRuns();
+    res.json(runs.map(run => formatReconciliationRun(run)));
+  } catch (error) {
+    handleReconciliationError(res, error, 'fetching reconciliation runs');
+  }
+};
+
+// Admin: one run with its mismatches; ?all=true includes matched payments,
+// ?format=csv downloads every entry as CSV
+export const getReconciliationRunHandler = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const run = await getReconciliationRun(req.params.id);
+
+    if (req.query.format === 'csv') {
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${reconciliationFileName(run)}"`);
+      res.send(reconciliationRunCsv(run));
+      return;
+    }
+
+    res.json(formatReconciliationRun(run, { allEntries: req.query.all === 'true' }));
+  } catch (error) {
+    handleReconciliationError(res, error, 'fetching reconciliation run');
+  }
+};
@@ -0,0 +1,32 @@
+import { Request, Response } from 'express';
+import { issueRefund, getOrderRefunds, formatRefund } from '../services/refund.service';
+import { HttpError } from '../utils/errors';
+
+// Admin refunds all or part of an order's payment
+export const createRefund = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { amount, reason, returnRequestId } = req.body;
+
+    const refund = await issueRefund(id, { amount, reason, returnRequestId }, { type: 'ADMIN', id: (req as any).user.userId });
+
+    res.status(201).json(formatRefund(refund));
+  } catch (error) {
+    if (error instanceof HttpError) {
+      res.status(error.statusCode).json({ message: error.message, ...error.details });
+      return;
+    }
+    console.error('Error creating refund:', error);
+    res.status(500).json({ message: 'Failed to create refund', error: (error as Error).message });
+  }
+};
+
+export const getRefundsForOrder = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const refunds = await getOrderRefunds(req.params.id);
+    res.json(refunds.map(formatRefund));
+  } catch (error) {
+    console.error('Error fetching refunds:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
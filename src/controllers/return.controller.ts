@@ -0,0 +1,127 @@
+import { Request, Response } from 'express';
+import prisma from '../lib/prisma';
+import {
+  createReturnRequest,
+  approveReturnRequest,
+  rejectReturnRequest,
+  receiveReturnRequest,
+  formatReturnRequest,
+  returnRequestInclude
+} from '../services/return.service';
+import { assertOrderAccess } from '../services/order-access.service';
+import { HttpError } from '../utils/errors';
+import { extractOrderAccessToken } from '../utils/jwt';
+
+const handleReturnError = (res: Response, error: unknown, context: string): void => {
+  if (error instanceof HttpError) {
+    res.status(error.statusCode).json({ message: error.message, ...error.details });
+    return;
+  }
+  console.error(`Error ${context}:`, error);
+  res.status(500).json({ message: 'Internal server error' });
+};
+
+// Customer opens a return for their delivered order, with their session or the order access token
+export const createCustomerReturn = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { reason, items } = req.body;
+
+    const access = await assertOrderAccess(id, { user: (req as any).user, accessToken: extractOrderAccessToken(req) });
+    const order = await prisma.order.findUniqueOrThrow({ where: { id }, select: { id: true, customerId: true } });
+    const actor = access === 'ADMIN' || access === 'AGENT'
+      ? { type: access, id: (req as any).user.userId }
+      : { type: 'CUSTOMER' as const, id: order.customerId };
+
+    const returnRequest = await createReturnRequest(order.id, reason, items, actor);
+
+    res.status(201).json(formatReturnRequest(returnRequest));
+  } catch (error) {
+    handleReturnError(res, error, 'creating customer return');
+  }
+};
+
+// Admin opens a return on behalf of a customer
+export const createAdminReturn = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { reason, items } = req.body;
+
+    const returnRequest = await createReturnRequest(id, reason, items, { type: 'ADMIN', id: (req as any).user.userId });
+
+    res.status(201).json(formatReturnRequest(returnRequest));
+  } catch (error) {
+    handleReturnError(res, error, 'creating return');
+  }
+};
+
+export const getAllReturns = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { status, orderId } = req.query;
+
+    const whereClause: any = {};
+    if (status) {
+      whereClause.status = status as string;
+    }
+    if (orderId) {
+      whereClause.orderId = orderId as string;
+    }
+
+    const returnRequests = await prisma.returnRequest.findMany({
+      where: whereClause,
+      include: returnRequestInclude,
+      orderBy: { createdAt: 'desc' }
+    });
+
+    res.json(returnRequests.map(formatReturnRequest));
+  } catch (error) {
+    handleReturnError(res, error, 'fetching returns');
+  }
+};
+
+export const getReturnById = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const returnRequest = await prisma.returnRequest.findUnique({
+      where: { id },
+      include: returnRequestInclude
+    });
+
+    if (!returnRequest) {
+      res.status(404).json({ message: 'Return request not found' });
+      return;
+    }
+
+    res.json(formatReturnRequest(returnRequest));
+  } catch (error) {
+    handleReturnError(res, error, 'fetching return');
+  }
+};
+
+export const approveReturn = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const returnRequest = await approveReturnRequest(req.params.id, { type: 'ADMIN', id: (req as any).user.userId }, req.body.note);
+    res.json(formatReturnRequest(returnRequest));
+  } catch (error) {
+    handleReturnError(res, error, 'approving return');
+  }
+};
+
+export const rejectReturn = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const returnRequest = await rejectReturnRequest(req.params.id, { type: 'ADMIN', id: (req as any).user.userId }, req.body.note);
+    res.json(formatReturnRequest(returnRequest));
+  } catch (error) {
+    handleReturnError(res, error, 'rejecting return');
+  }
+};
+
+export const receiveReturn = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const returnRequest = await receiveReturnRequest(req.params.id, { type: 'ADMIN', id: (req as any).user.userId }, req.body.note);
+    res.json(formatReturnRequest(returnRequest));
+  } catch (error) {
+    handleReturnError(res, error, 'receiving return');
+  }
+};
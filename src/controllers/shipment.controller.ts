@@ -0,0 +1,61 @@
+import { Request, Response } from 'express';
+import {
+  createShipment,
+  markShipmentDelivered,
+  getOrderShipments,
+  formatShipment
+} from '../services/shipment.service';
+import { HttpError } from '../utils/errors';
+
+const handleShipmentError = (res: Response, error: unknown, context: string): void => {
+  if (error instanceof HttpError) {
+    res.status(error.statusCode).json({ message: error.message, ...error.details });
+    return;
+  }
+  console.error(`Error ${context}:`, error);
+  res.status(500).json({ message: 'Internal server error' });
+};
+
+// Admin ships some or all remaining lines of an order
+export const createOrderShipment = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { carrier, trackingNumber, trackingUrl, note, items } = req.body;
+
+    const shipment = await createShipment(
+      id,
+      { carrier, trackingNumber, trackingUrl, note, items },
+      { type: 'ADMIN', id: (req as any).user.userId }
+    );
+
+    res.status(201).json(formatShipment(shipment));
+  } catch (error) {
+    handleShipmentError(res, error, 'creating shipment');
+  }
+};
+
+export const getShipmentsForOrder = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const shipments = await getOrderShipments(req.params.id);
+    res.json(shipments.map(formatShipment));
+  } catch (error) {
+    handleShipmentError(res, error, 'fetching shipments');
+  }
+};
+
+export const deliverShipment = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { deliveredAt } = req.body;
+
+    const deliveredDate = deliveredAt ? new Date(deliveredAt) : new Date();
+    if (isNaN(deliveredDate.getTime())) {
+      res.status(400).json({ message: 'Invalid deliveredAt date' });
+      return;
+    }
+
+    const shipment = await markShipmentDelivered(req.params.id, { type: 'ADMIN', id: (req as any).user.userId }, deliveredDate);
+    res.json(formatShipment(shipment));
+  } catch (error) {
+    handleShipmentError(res, error, 'delivering shipment');
+  }
+};
@@ -0,0 +1,88 @@
+import { Request, Response } from 'express';
+import {
+  listShippingZones,
+  createShippingZone,
+  updateShippingZone,
+  deleteShippingZone,
+  createShippingMethod,
+  updateShippingMethod,
+  deleteShippingMethod,
+  formatShippingZone,
+  formatShippingMethod
+} from '../services/shipping.service';
+import { HttpError } from '../utils/errors';
+
+const handleShippingError = (res: Response, error: unknown, context: string): void => {
+  if (error instanceof HttpError) {
+    res.status(error.statusCode).json({ message: error.message, ...error.details });
+    return;
+  }
+  console.error(`Error ${context}:`, error);
+  res.status(500).json({ message: 'Internal server error' });
+};
+
+// Admin: every zone with its regions and methods
+export const getShippingZones = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const zones = await listShippingZones();
+    res.json(zones.map(formatShippingZone));
+  } catch (error) {
+    handleShippingError(res, error, 'fetching shipping zones');
+  }
+};
+
+// Admin: e.g. { "name": "Domestic", "regions": [{ "country": "US" }, { "country": "US", "state": "AK" }] }
+export const createShippingZoneHandler = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const zone = await createShippingZone(req.body);
+    res.status(201).json(formatShippingZone(zone));
+  } catch (error) {
+    handleShippingError(res, error, 'creating shipping zone');
+  }
+};
+
+export const updateShippingZoneHandler = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const zone = await updateShippingZone(req.params.id, req.body);
+    res.json(formatShippingZone(zone));
+  } catch (error) {
+    handleShippingError(res, error, 'updating shipping zone');
+  }
+};
+
+export const deleteShippingZoneHandler = async (req: Request, res: Response): Promise<void> => {
+  try {
+    await deleteShippingZone(req.params.id);
+    res.json({ message: 'Shipping zone deleted' });
+  } catch (error) {
+    handleShippingError(res, error, 'deleting shipping zone');
+  }
+};
+
+// Admin: e.g. { "name": "Express", "type": "WEIGHT_BASED", "rate": 5, "ratePerKg": 1.5, "minDeliveryDays": 1, "maxDeliveryDays": 2 }
+export const createShippingMethodHandler = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const method = await createShippingMethod(req.params.id, req.body);
+    res.status(201).json(formatShippingMethod(method));
+  } catch (error) {
+    handleShippingError(res, error, 'creating shipping method');
+  }
+};
+
+export const updateShippingMethodHandler = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const method = await updateShippingMethod(req.params.id, req.body);
+    res.json(formatShippingMethod(method));
+  } catch (error) {
+    handleShippingError(res, error, 'updating shipping method');
+  }
+};
+
+export const deleteShippingMethodHandler = async (req: Request, res: Response): Promise<void> => {
+  try {
+    await deleteShippingMethod(req.params.id);
+    res.json({ message: 'Shipping method deleted' });
+  } catch (error) {
+    handleShippingError(res, error, 'deleting shipping method');
+  }
+};
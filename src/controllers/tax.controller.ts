@@ -0,0 +1,89 @@
+import { Request, Response } from 'express';
+import {
+  listTaxRates,
+  createTaxRate,
+  updateTaxRate,
+  deleteTaxRate,
+  getTaxReport,
+  formatTaxRate
+} from '../services/tax.service';
+import { HttpError } from '../utils/errors';
+
+const handleTaxError = (res: Response, error: unknown, context: string): void => {
+  if (error instanceof HttpError) {
+    res.status(error.statusCode).json({ message: error.message, ...error.details });
+    return;
+  }
+  console.error(`Error ${context}:`, error);
+  res.status(500).json({ message: 'Internal server error' });
+};
+
+/**
+ * Parse a ?from= / ?to= date, or return the fallback when it's absent
+ */
+const parseDateParam = (value: unknown, name: string, fallback: Date): Date => {
+  if (value === undefined || value === '') {
+    return fallback;
+  }
+
+  const date = new Date(String(value));
+  if (isNaN(date.getTime())) {
+    throw new HttpError(400, `${name} must be a valid date`);
+  }
+  return date;
+};
+
+export const getTaxRates = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const taxRates = await listTaxRates();
+    res.json(taxRates.map(formatTaxRate));
+  } catch (error) {
+    handleTaxError(res, error, 'fetching tax rates');
+  }
+};
+
+// Admin: e.g. { "name": "California", "country": "US", "state": "CA", "rate": 7.25 }
+export const createTaxRateHandler = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const taxRate = await createTaxRate(req.body);
+    res.status(201).json(formatTaxRate(taxRate));
+  } catch (error) {
+    handleTaxError(res, error, 'creating tax rate');
+  }
+};
+
+export const updateTaxRateHandler = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const taxRate = await updateTaxRate(req.params.id, req.body);
+    res.json(formatTaxRate(taxRate));
+  } catch (error) {
+    handleTaxError(res, error, 'updating tax rate');
+  }
+};
+
+export const deleteTaxRateHandler = async (req: Request, res: Response): Promise<void> => {
+  try {
+    await deleteTaxRate(req.params.id);
+    res.json({ message: 'Tax rate deleted' });
+  } catch (error) {
+    handleTaxError(res, error, 'deleting tax rate');
+  }
+};
+
+// Admin: tax collected per jurisdiction for orders placed in [from, to); defaults to the current month
+export const getTaxReportHandler = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const now = new Date();
+    const from = parseDateParam(req.query.from, 'from', new Date(now.getFullYear(), now.getMonth(), 1));
+    const to = parseDateParam(req.query.to, 'to', new Date(now.getFullYear(), now.getMonth() + 1, 1));
+
+    if (from >= to) {
+      res.status(400).json({ message: 'from must be before to' });
+      return;
+    }
+
+    res.json(await getTaxReport(from, to));
+  } catch (error) {
+    handleTaxError(res, error, 'building tax report');
+  }
+};
@@ -111,3 +111,33 @@ export const requireAdminOrAgent = async (req: Request, res: Response, next: Nex
     res.status(500).json({ message: 'Internal server error' });
   }
 };
+
+/**
+ * Middleware that attaches the signed-in user when there is one, but lets
+ * anonymous requests through
+ */
+export const optionalAuth = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const token = extractTokenFromCookies(req, 'access');
+    const payload = token ? verifyAccessToken(token) : null;
+
+    if (payload) {
+      const user = await prisma.user.findUnique({
+        where: { id: payload.userId },
+      });
+
+      if (user && user.isActive) {
+        (req as any).user = {
+          userId: user.id,
+          email: user.email,
+          role: user.role,
+        };
+      }
+    }
+
+    next();
+  } catch (error) {
+    console.error('Optional auth middleware error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
@@ -0,0 +1,81 @@
+import { Request, Response, NextFunction } from 'express';
+import {
+  claimIdempotencyKey,
+  completeIdempotencyKey,
+  releaseIdempotencyKey,
+  holdIdempotencyKey,
+  hashRequestBody,
+  idempotencyCaller
+} from '../services/idempotency.service';
+import { extractOrderAccessToken } from '../utils/jwt';
+
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * Middleware honoring the `Idempotency-Key` header.
+ *
+ * The first request with a key runs normally and its response is stored; repeats
+ * with the same body get that response back instead of running again. Keys are
+ * per caller, so one client's key never replays another's response. Requests
+ * without the header are not affected. Server errors release the key so the client
+ * can retry.
+ */
+export const idempotent = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const key = req.header('Idempotency-Key');
+
+  if (!key) {
+    next();
+    return;
+  }
+
+  if (key.length > MAX_KEY_LENGTH) {
+    res.status(400).json({ message: `Idempotency-Key must be at most ${MAX_KEY_LENGTH} characters` });
+    return;
+  }
+
+  try {
+    const caller = idempotencyCaller((req as any).user?.userId, extractOrderAccessToken(req));
+    const scope = `${req.method} ${req.baseUrl}${req.path} ${caller}`;
+    const claim = await claimIdempotencyKey(scope, key, hashRequestBody(req.body));
+
+    switch (claim.outcome) {
+      case 'mismatch':
+        res.status(422).json({ message: 'Idempotency-Key was already used with a different request body' });
+        return;
+      case 'in_progress':
+        res.setHeader('Retry-After', '1');
+        res.status(409).json({ message: 'A request with this Idempotency-Key is still being processed' });
+        return;
+      case 'replay':
+        res.setHeader('Idempotent-Replayed', 'true');
+        res.status(claim.record.responseStatus || 200).json(claim.record.responseBody);
+        return;
+      case 'claimed':
+        break;
+    }
+
+    const recordId = claim.record.id;
+    const originalJson = res.json.bind(res);
+    const stopHolding = holdIdempotencyKey(recordId);
+    res.on('close', stopHolding);
+
+    // Store the response before sending it, so a repeat never sees the key unfinished
+    // after the client already has its answer
+    res.json = (body?: unknown) => {
+      stopHolding();
+      const save = res.statusCode >= 500
+        ? releaseIdempotencyKey(recordId)
+        : completeIdempotencyKey(recordId, res.statusCode, body);
+
+      save
+        .catch(error => console.error('Error saving idempotent response:', error))
+        .finally(() => originalJson(body));
+      return res;
+    };
+
+    next();
+  } catch (error) {
+    console.error('Idempotency middleware error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
@@ -22,8 +22,54 @@ import {
   updateSettings,
   createProductWithImages,
   addProductImages,
-  updateOrderStatus
+  updateOrderStatus,
+  getOrderDetails,
+  getOrderByNumber
 } from '../controllers/admin.controller';
+import {
+  createAdminReturn,
+  getAllReturns,
+  getReturnById,
+  approveReturn,
+  rejectReturn,
+  receiveReturn
+} from '../controllers/return.controller';
+import { createRefund, getRefundsForOrder } from '../controllers/refund.controller';
+import { createOrderShipment, getShipmentsForOrder, deliverShipment } from '../controllers/shipment.controller';
+import { downloadInvoice, downloadPackingSlip } from '../controllers/order-document.controller';
+import {
+  getAllPromoCodes,
+  getPromoCodeById,
+  createPromoCodeHandler,
+  updatePromoCodeHandler,
+  updatePromoCodeStatus
+} from '../controllers/promo-code.controller';
+import { getAbandonedCartsHandler } from '../controllers/cart.controller';
+import { getDuplicateCustomers, mergeCustomersHandler } from '../controllers/customer.controller';
+import { getCurrencies, updateExchangeRate, getProductPrices, updateProductPrices } from '../controllers/currency.controller';
+import {
+  getTaxRates,
+  createTaxRateHandler,
+  updateTaxRateHandler,
+  deleteTaxRateHandler,
+  getTaxReportHandler
+} from '../controllers/tax.controller';
+import {
+  getShippingZones,
+  createShippingZoneHandler,
+  updateShippingZoneHandler,
+  deleteShippingZoneHandler,
+  createShippingMethodHandler,
+  updateShippingMethodHandler,
+  deleteShippingMethodHandler
+} from '../controllers/shipping.controller';
+import { getOrderActivityHandler, addOrderCommentHandler } from '../controllers/order-activity.controller';
+import { getPaymentEvents, retryPaymentEventHandler } from '../controllers/payment-event.controller';
+import {
+  createReconciliationRun,
+  getReconciliationRuns,
+  getReconciliationRunHandler
+} from '../controllers/reconciliation.controller';
 import { requireAdmin } from '../middlewares/auth.middleware';
 
 const router = express.Router();
@@ -43,6 +89,28 @@ router.put('/products/:id', requireAdmin, updateProduct);
 router.delete('/products/:id', requireAdmin, deleteProduct);
 router.patch('/products/:id/status', requireAdmin, updateProductStatus);
 router.post('/products/:id/images', requireAdmin, addProductImages); // New endpoint for adding images to existing product
+router.get('/products/:id/prices', requireAdmin, getProductPrices);
+router.put('/products/:id/prices', requireAdmin, updateProductPrices);
+
+// Currencies and exchange rates against the base currency
+router.get('/currencies', requireAdmin, getCurrencies);
+router.put('/exchange-rates/:currency', requireAdmin, updateExchangeRate);
+
+// Tax rules by destination and product category
+router.get('/tax-rates', requireAdmin, getTaxRates);
+router.post('/tax-rates', requireAdmin, createTaxRateHandler);
+router.put('/tax-rates/:id', requireAdmin, updateTaxRateHandler);
+router.delete('/tax-rates/:id', requireAdmin, deleteTaxRateHandler);
+router.get('/reports/tax', requireAdmin, getTaxReportHandler);
+
+// Shipping zones and the methods offered in each
+router.get('/shipping-zones', requireAdmin, getShippingZones);
+router.post('/shipping-zones', requireAdmin, createShippingZoneHandler);
+router.put('/shipping-zones/:id', requireAdmin, updateShippingZoneHandler);
+router.delete('/shipping-zones/:id', requireAdmin, deleteShippingZoneHandler);
+router.post('/shipping-zones/:id/methods', requireAdmin, createShippingMethodHandler);
+router.put('/shipping-methods/:id', requireAdmin, updateShippingMethodHandler);
+router.delete('/shipping-methods/:id', requireAdmin, deleteShippingMethodHandler);
 
 // Agent routes
 router.post('/agents', requireAdmin, createAgent);
@@ -51,7 +119,51 @@ router.patch('/agents/:id/status', requireAdmin, updateAgentStatus);
 
 // Order routes
 router.get('/orders', requireAdmin, getAllOrders);
+router.get('/orders/number/:orderNumber', requireAdmin, getOrderByNumber);
+router.get('/orders/:id', requireAdmin, getOrderDetails);
 router.patch('/orders/:id/status', requireAdmin, updateOrderStatus);
+router.get('/orders/:id/activity', requireAdmin, getOrderActivityHandler);
+router.post('/orders/:id/activity', requireAdmin, addOrderCommentHandler);
+router.post('/orders/:id/returns', requireAdmin, createAdminReturn);
+router.get('/orders/:id/refunds', requireAdmin, getRefundsForOrder);
+router.post('/orders/:id/refunds', requireAdmin, createRefund);
+router.get('/orders/:id/shipments', requireAdmin, getShipmentsForOrder);
+router.post('/orders/:id/shipments', requireAdmin, createOrderShipment);
+router.get('/orders/:id/invoice', requireAdmin, downloadInvoice);
+router.get('/orders/:id/packing-slip', requireAdmin, downloadPackingSlip);
+
+// Stripe webhook events and their processing status
+router.get('/payment-events', requireAdmin, getPaymentEvents);
+router.post('/payment-events/:id/retry', requireAdmin, retryPaymentEventHandler);
+
+// Payment reconciliation against provider balance transactions
+router.get('/reconciliation-runs', requireAdmin, getReconciliationRuns);
+router.post('/reconciliation-runs', requireAdmin, createReconciliationRun);
+router.get('/reconciliation-runs/:id', requireAdmin, getReconciliationRunHandler);
+
+// Shipment routes
+router.patch('/shipments/:id/deliver', requireAdmin, deliverShipment);
+
+// Return (RMA) routes
+router.get('/returns', requireAdmin, getAllReturns);
+router.get('/returns/:id', requireAdmin, getReturnById);
+router.patch('/returns/:id/approve', requireAdmin, approveReturn);
+router.patch('/returns/:id/reject', requireAdmin, rejectReturn);
+router.patch('/returns/:id/receive', requireAdmin, receiveReturn);
+
+// Promo code routes
+router.get('/promo-codes', requireAdmin, getAllPromoCodes);
+router.get('/promo-codes/:id', requireAdmin, getPromoCodeById);
+router.post('/promo-codes', requireAdmin, createPromoCodeHandler);
+router.put('/promo-codes/:id', requireAdmin, updatePromoCodeHandler);
+router.patch('/promo-codes/:id/status', requireAdmin, updatePromoCodeStatus);
+
+// Customer deduplication
+router.get('/customers/duplicates', requireAdmin, getDuplicateCustomers);
+router.post('/customers/:id/merge', requireAdmin, mergeCustomersHandler);
+
+// Carts left with items but no checkout
+router.get('/carts/abandoned', requireAdmin, getAbandonedCartsHandler);
 
 // Commission routes
 router.get('/commissions', requireAdmin, getAllCommissions);
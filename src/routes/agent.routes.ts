@@ -9,6 +9,13 @@ import {
   createPayout
 } from '../controllers/admin.controller'; // Using the same controller for now
 import { getAgentById } from '../controllers/agent.controller';
+import {
+  getAllPromoCodes,
+  getPromoCodeById,
+  createPromoCodeHandler,
+  updatePromoCodeHandler,
+  updatePromoCodeStatus
+} from '../controllers/promo-code.controller';
 import { requireAgent } from '../middlewares/auth.middleware';
 
 const router = express.Router();
@@ -22,6 +29,13 @@ router.post('/payouts', requireAgent, createPayout);
 router.get('/profile', requireAgent, getAgentProfile);
 router.put('/profile', requireAgent, updateAgentProfile);
 
+// The agent's own coupon codes
+router.get('/coupons', requireAgent, getAllPromoCodes);
+router.get('/coupons/:id', requireAgent, getPromoCodeById);
+router.post('/coupons', requireAgent, createPromoCodeHandler);
+router.put('/coupons/:id', requireAgent, updatePromoCodeHandler);
+router.patch('/coupons/:id/status', requireAgent, updatePromoCodeStatus);
+
 // Public route for getting agent by ID
 router.get('/:id', getAgentById);
 
@@ -0,0 +1,39 @@
+import express from 'express';
+import {
+  createCartHandler,
+  getCurrentCart,
+  getCartHandler,
+  updateCartHandler,
+  addCartItemHandler,
+  updateCartItemHandler,
+  removeCartItemHandler,
+  applyCartPromoCodeHandler,
+  removeCartPromoCodeHandler,
+  getCartQuote,
+  checkoutCartHandler
+} from '../controllers/cart.controller';
+import { optionalAuth } from '../middlewares/auth.middleware';
+import { idempotent } from '../middlewares/idempotency.middleware';
+
+const router = express.Router();
+
+// Carts are addressed by their token; a signed-in customer's carts are also linked to them
+router.post('/', optionalAuth, createCartHandler);
+router.get('/current', optionalAuth, getCurrentCart);
+router.get('/:token', optionalAuth, getCartHandler);
+router.patch('/:token', updateCartHandler);
+
+// Cart contents
+router.post('/:token/items', addCartItemHandler);
+router.put('/:token/items/:productId', updateCartItemHandler);
+router.delete('/:token/items/:productId', removeCartItemHandler);
+
+// Promo code
+router.post('/:token/promo-code', applyCartPromoCodeHandler);
+router.delete('/:token/promo-code', removeCartPromoCodeHandler);
+
+// Totals and checkout
+router.get('/:token/quote', getCartQuote);
+router.post('/:token/checkout', optionalAuth, idempotent, checkoutCartHandler);
+
+export default router;
@@ -1,5 +1,9 @@
 import express from 'express';
-import { createOrder, getOrderById } from '../controllers/order.controller';
+import { createOrder, getOrderById, getOrderByNumber, trackOrder, retryPayment } from '../controllers/order.controller';
+import { createCustomerReturn } from '../controllers/return.controller';
+import { downloadInvoice, downloadPackingSlip } from '../controllers/order-document.controller';
+import { idempotent } from '../middlewares/idempotency.middleware';
+import { optionalAuth } from '../middlewares/auth.middleware';
 
 const router = express.Router();
 
@@ -8,10 +12,29 @@ router.get('/test', (req, res) => {
   res.json({ message: 'Orders API is working' });
 });
 
-// Create a new order
-router.post('/create', createOrder);
+// Create a new order (compatibility route, same checkout as POST /api/orders/place)
+router.post('/create', optionalAuth, idempotent, createOrder);
+
+// Guest order tracking by email and order number (redacted view)
+router.post('/track', trackOrder);
+
+// The routes below need the customer's session, an admin or the order's agent,
+// or the order access token issued at checkout (X-Order-Access-Token header or ?token=)
+
+// Get order by its order number (e.g. AWM-2026-000123)
+router.get('/number/:orderNumber', optionalAuth, getOrderByNumber);
 
 // Get order by ID
-router.get('/:id', getOrderById);
+router.get('/:id', optionalAuth, getOrderById);
+
+// Download the order's invoice and packing slip as PDF
+router.get('/:id/invoice', optionalAuth, downloadInvoice);
+router.get('/:id/packing-slip', optionalAuth, downloadPackingSlip);
+
+// Pay again with a new payment intent after a failed payment
+router.post('/:id/payment/retry', optionalAuth, retryPayment);
+
+// Request a return for a delivered order
+router.post('/:id/returns', optionalAuth, createCustomerReturn);
 
-export default router;
\ No newline at end of file
+export default router;
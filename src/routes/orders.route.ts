@@ -1,9 +1,18 @@
 import express from 'express';
 import { placeOrder } from '../controllers/orders/place-order.controller';
+import { getQuote, getShippingMethods } from '../controllers/orders/quote.controller';
+import { idempotent } from '../middlewares/idempotency.middleware';
+import { optionalAuth } from '../middlewares/auth.middleware';
 
 const router = express.Router();
 
-// Place a new order
-router.post('/place', placeOrder);
+// Price a cart with the server-side pricing engine
+router.post('/quote', getQuote);
 
-export default router;
\ No newline at end of file
+// Shipping methods for the items and the address in customerInfo
+router.post('/shipping-methods', getShippingMethods);
+
+// Place a new order (send an Idempotency-Key header to make retries safe)
+router.post('/place', optionalAuth, idempotent, placeOrder);
+
+export default router;
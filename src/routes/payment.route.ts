@@ -1,15 +1,23 @@
 import express from 'express';
-import { createPaymentIntent, handleWebhook, verifyPayment } from '../controllers/payment.controller';
+import { createPaymentIntent, handleWebhook, verifyPayment, confirmPayment } from '../controllers/payment.controller';
+import { idempotent } from '../middlewares/idempotency.middleware';
+import { mockPaymentsEnabled } from '../services/payment-provider.service';
 
 const router = express.Router();
 
 // Create a payment intent
-router.post('/create-payment-intent', createPaymentIntent);
+router.post('/create-payment-intent', idempotent, createPaymentIntent);
 
-// Handle Stripe webhook events
-router.post('/webhook', express.raw({ type: 'application/json' }), handleWebhook);
+// Handle provider webhook events (the raw body is read in server.ts, ahead of express.json())
+router.post('/webhook', handleWebhook);
+router.post('/webhook/:provider', handleWebhook);
 
 // Verify payment status
 router.post('/verify', verifyPayment);
 
+// Pay a mock intent from the server; only where mock payments are on
+if (mockPaymentsEnabled()) {
+  router.post('/confirm', confirmPayment);
+}
+
 export default router;
\ No newline at end of file
@@ -3,6 +3,7 @@ import {
   getPublicProducts,
   getProductById
 } from '../controllers/product.controller';
+import { getCurrencies } from '../controllers/currency.controller';
 import {
   createProductWithImages,
   addProductImages
@@ -12,6 +13,7 @@ const router = express.Router();
 
 // Public product routes (no authentication required)
 router.get('/', getPublicProducts);
+router.get('/currencies', getCurrencies); // Currencies a checkout can be priced in
 router.get('/:id', getProductById);
 
 // Admin routes for managing product images (requires authentication)
@@ -9,8 +9,12 @@ import orderRoutes from './routes/order.routes';
 import ordersRoute from './routes/orders.route';
 import referralRoutes from './routes/referral.routes';
 import paymentRoutes from './routes/payment.route';
+import cartRoutes from './routes/cart.routes';
 import bcrypt from 'bcryptjs';
 import prisma from './lib/prisma';
+import { startReservationSweeper } from './services/reservation.service';
+import { startIdempotencyKeyPurger } from './services/idempotency.service';
+import { startReconciliationJob } from './services/reconciliation.service';
 
 const app = express();
 const PORT = process.env.PORT || 5002;
@@ -33,9 +37,13 @@ app.use(cors({
   }, // Dynamic origin handling for development
   credentials: true, // Allow cookies to be sent with requests
   optionsSuccessStatus: 200, // Some legacy browsers (IE11, various SmartTVs) choke on 204
-  methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'], // Explicitly allow these methods
-  allowedHeaders: ['Content-Type', 'Authorization', 'Credentials'] // Explicitly allow these headers
+  methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'], // Explicitly allow these methods
+  allowedHeaders: ['Content-Type', 'Authorization', 'Credentials', 'Idempotency-Key', 'X-Order-Access-Token'], // Explicitly allow these headers
+  exposedHeaders: ['Idempotent-Replayed', 'Retry-After']
 }));
+// Payment webhooks need their raw body to verify the signature, so it is read
+// before express.json() gets to it (which then leaves the request alone)
+app.use('/api/payment/webhook', express.raw({ type: 'application/json' }));
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 app.use(cookieParser());
@@ -49,6 +57,7 @@ app.use('/api/orders', ordersRoute);
 app.use('/api/order', orderRoutes); // Individual order routes
 app.use('/api/referral', referralRoutes);
 app.use('/api/payment', paymentRoutes);
+app.use('/api/carts', cartRoutes);
 
 
 
@@ -110,6 +119,15 @@ const server = app.listen(PORT, () => {
   initializeDatabase().catch(error => {
     console.error('Failed to initialize database:', error);
   });
+
+  // Cancel unpaid orders whose stock reservation has expired
+  startReservationSweeper();
+
+  // Drop idempotency keys past their retention period
+  startIdempotencyKeyPurger();
+
+  // Reconcile each finished day's payments with the providers
+  startReconciliationJob();
 });
 
 // Graceful shutdown
@@ -0,0 +1,426 @@
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { HttpError } from '../utils/errors';
+import { roundMoney } from '../utils/money';
+import { placeCheckout, resolveAgent, checkoutDestination, CheckoutInput, CheckoutResult } from './checkout.service';
+import { TaxDestination } from './tax.service';
+import { resolveCurrency } from './currency.service';
+import { findApplicablePromoCode, normalizePromoCode, toPromotionRule } from './promotion.service';
+import { quoteCheckout, CheckoutQuote, PromotionRule, serializeQuote } from './pricing.service';
+
+// A checkout that has held its cart this long is assumed to have crashed
+const CHECKOUT_LOCK_MINUTES = 2;
+
+export const cartInclude = {
+  items: {
+    include: {
+      product: true
+    },
+    orderBy: { createdAt: 'asc' }
+  }
+} satisfies Prisma.CartInclude;
+
+export type CartWithItems = Prisma.CartGetPayload<{ include: typeof cartInclude }>;
+
+export type CartIssueType = 'UNAVAILABLE' | 'INSUFFICIENT_STOCK' | 'PRICE_CHANGED';
+
+export interface CartIssue {
+  productId: string;
+  name: string;
+  type: CartIssueType;
+  message: string;
+}
+
+// A cart re-checked against current prices, stock and promo code rules
+export interface CartView {
+  cart: CartWithItems;
+  quote: CheckoutQuote | null;
+  issues: CartIssue[];
+  promoCodeError: string | null;
+}
+
+export type CartCheckoutInput = Pick<CheckoutInput, 'customerInfo' | 'paymentMethod' | 'paymentDetails' | 'shippingMethodId' | 'clientTotals' | 'user'>;
+
+const generateCartToken = (): string => crypto.randomBytes(24).toString('base64url');
+
+const loadCart = async (token: string): Promise<CartWithItems> => {
+  const cart = await prisma.cart.findUnique({
+    where: { token },
+    include: cartInclude
+  });
+
+  if (!cart) {
+    throw new HttpError(404, 'Cart not found');
+  }
+  return cart;
+};
+
+/**
+ * A cart that can still be changed
+ */
+const loadActiveCart = async (token: string): Promise<CartWithItems> => {
+  const cart = await loadCart(token);
+
+  if (cart.status !== 'ACTIVE') {
+    throw new HttpError(409, cart.status === 'CONVERTED' ? 'Cart has already been checked out' : 'Cart is being checked out', {
+      orderId: cart.orderId || undefined
+    });
+  }
+  return cart;
+};
+
+const assertQuantity = (quantity: unknown): number => {
+  if (!Number.isInteger(quantity) || (quantity as number) < 0) {
+    throw new HttpError(400, 'Quantity must be a whole number of zero or more');
+  }
+  return quantity as number;
+};
+
+export const createCart = async (options: { agentId?: string | null; customerId?: string | null } = {}): Promise<CartWithItems> => {
+  const agentId = await resolveAgent(options.agentId);
+
+  return prisma.cart.create({
+    data: {
+      token: generateCartToken(),
+      agentId,
+      customerId: options.customerId || null
+    },
+    include: cartInclude
+  });
+};
+
+/**
+ * The cart for a token. A signed-in customer opening an anonymous cart claims it,
+ * so the same cart follows them to other devices.
+ */
+export const getCart = async (token: string, customerId?: string | null): Promise<CartWithItems> => {
+  const cart = await loadCart(token);
+
+  if (customerId && !cart.customerId && cart.status === 'ACTIVE') {
+    return prisma.cart.update({
+      where: { id: cart.id },
+      data: { customerId },
+      include: cartInclude
+    });
+  }
+  return cart;
+};
+
+/**
+ * Most recently used active cart of a signed-in customer
+ */
+export const getCustomerCart = async (customerId: string): Promise<CartWithItems | null> => {
+  return prisma.cart.findFirst({
+    where: { customerId, status: 'ACTIVE' },
+    include: cartInclude,
+    orderBy: { updatedAt: 'desc' }
+  });
+};
+
+/**
+ * Add units of a product, on top of any already in the cart
+ */
+export const addCartItem = async (token: string, productId: string, quantity: number): Promise<CartWithItems> => {
+  const cart = await loadActiveCart(token);
+
+  if (assertQuantity(quantity) === 0) {
+    throw new HttpError(400, 'Quantity must be at least 1');
+  }
+
+  const product = await prisma.product.findUnique({ where: { id: String(productId) } });
+  if (!product || !product.isActive) {
+    throw new HttpError(404, `Product with ID ${productId} not found`);
+  }
+
+  const existing = cart.items.find(item => item.productId === product.id);
+  const newQuantity = (existing ? existing.quantity : 0) + quantity;
+
+  if (newQuantity > product.stockQuantity) {
+    throw new HttpError(409, `Only ${product.stockQuantity} unit(s) of ${product.name} are in stock`);
+  }
+
+  await prisma.cartItem.upsert({
+    where: { cartId_productId: { cartId: cart.id, productId: product.id } },
+    create: { cartId: cart.id, productId: product.id, quantity, unitPrice: product.price },
+    update: { quantity: { increment: quantity }, unitPrice: product.price }
+  });
+
+  return touchCart(cart.id);
+};
+
+/**
+ * Set the quantity of a product in the cart; zero removes it
+ */
+export const setCartItemQuantity = async (token: string, productId: string, quantity: number): Promise<CartWithItems> => {
+  const cart = await loadActiveCart(token);
+  const item = cart.items.find(line => line.productId === productId);
+
+  if (!item) {
+    throw new HttpError(404, 'Product is not in the cart');
+  }
+
+  if (assertQuantity(quantity) === 0) {
+    await prisma.cartItem.delete({ where: { id: item.id } });
+  } else {
+    if (quantity > item.product.stockQuantity) {
+      throw new HttpError(409, `Only ${item.product.stockQuantity} unit(s) of ${item.product.name} are in stock`);
+    }
+    await prisma.cartItem.update({
+      where: { id: item.id },
+      data: { quantity, unitPrice: item.product.price }
+    });
+  }
+
+  return touchCart(cart.id);
+};
+
+export const removeCartItem = async (token: string, productId: string): Promise<CartWithItems> => {
+  return setCartItemQuantity(token, productId, 0);
+};
+
+/**
+ * Apply a promo code after checking it is valid for what's in the cart right now
+ */
+export const applyCartPromoCode = async (token: string, code: string): Promise<CartWithItems> => {
+  const cart = await loadActiveCart(token);
+
+  if (!code || typeof code !== 'string') {
+    throw new HttpError(400, 'A promo code is required');
+  }
+
+  const promotion = toPromotionRule(await findApplicablePromoCode(code));
+  if (cart.items.length > 0) {
+    // Throws when the cart is below the minimum or has nothing the code applies to
+    await quoteCheckout(cart.items.map(item => ({ productId: item.productId, quantity: item.quantity })), { promotion, currency: cart.currency });
+  }
+
+  return prisma.cart.update({
+    where: { id: cart.id },
+    data: { promoCode: normalizePromoCode(code) },
+    include: cartInclude
+  });
+};
+
+export const removeCartPromoCode = async (token: string): Promise<CartWithItems> => {
+  const cart = await loadActiveCart(token);
+
+  return prisma.cart.update({
+    where: { id: cart.id },
+    data: { promoCode: null },
+    include: cartInclude
+  });
+};
+
+/**
+ * Change the cart's referral agent (e.g. the customer followed a referral link)
+ * or the currency it is priced in. Fields left out are kept; null clears them.
+ */
+export const updateCart = async (
+  token: string,
+  input: { agentId?: string | null; currency?: string | null }
+): Promise<CartWithItems> => {
+  const cart = await loadActiveCart(token);
+
+  return prisma.cart.update({
+    where: { id: cart.id },
+    data: {
+      agentId: input.agentId !== undefined ? await resolveAgent(input.agentId) : undefined,
+      currency: input.currency !== undefined
+        ? (input.currency ? (await resolveCurrency(input.currency)).currency : null)
+        : undefined
+    },
+    include: cartInclude
+  });
+};
+
+const touchCart = (cartId: string): Promise<CartWithItems> => {
+  return prisma.cart.update({
+    where: { id: cartId },
+    data: { updatedAt: new Date() },
+    include: cartInclude
+  });
+};
+
+/**
+ * Re-check a cart against current products: flag items that are gone, short on
+ * stock or repriced since they were added, and quote whatever can be bought.
+ */
+export const buildCartView = async (
+  cart: CartWithItems,
+  destination?: TaxDestination | null,
+  shippingMethodId?: string | null
+): Promise<CartView> => {
+  const issues: CartIssue[] = [];
+  const purchasable: { productId: string; quantity: number }[] = [];
+
+  for (const item of cart.items) {
+    const { product } = item;
+
+    if (!product.isActive) {
+      issues.push({ productId: product.id, name: product.name, type: 'UNAVAILABLE', message: `${product.name} is no longer available` });
+      continue;
+    }
+
+    if (product.stockQuantity < item.quantity) {
+      issues.push({
+        productId: product.id,
+        name: product.name,
+        type: 'INSUFFICIENT_STOCK',
+        message: `Only ${product.stockQuantity} unit(s) of ${product.name} are in stock`
+      });
+      continue;
+    }
+
+    if (roundMoney(Number(product.price)) !== roundMoney(Number(item.unitPrice))) {
+      issues.push({
+        productId: product.id,
+        name: product.name,
+        type: 'PRICE_CHANGED',
+        message: `The price of ${product.name} changed from ${Number(item.unitPrice).toFixed(2)} to ${Number(product.price).toFixed(2)}`
+      });
+    }
+
+    purchasable.push({ productId: product.id, quantity: item.quantity });
+  }
+
+  let promotion: PromotionRule | null = null;
+  let promoCodeError: string | null = null;
+
+  if (cart.promoCode) {
+    try {
+      promotion = toPromotionRule(await findApplicablePromoCode(cart.promoCode));
+    } catch (error) {
+      if (!(error instanceof HttpError)) throw error;
+      promoCodeError = error.message;
+    }
+  }
+
+  let quote: CheckoutQuote | null = null;
+  if (purchasable.length > 0) {
+    try {
+      quote = await quoteCheckout(purchasable, { promotion, currency: cart.currency, destination, shippingMethodId });
+    } catch (error) {
+      // The code no longer fits the cart (minimum value, scope); quote without it
+      if (!(error instanceof HttpError) || !promotion) throw error;
+      promoCodeError = error.message;
+      quote = await quoteCheckout(purchasable, { currency: cart.currency, destination, shippingMethodId });
+    }
+  }
+
+  return { cart, quote, issues, promoCodeError };
+};
+
+/**
+ * Turn the cart into an order through the regular checkout. The cart is claimed
+ * first so two concurrent checkouts can't both place an order from it.
+ */
+export const checkoutCart = async (token: string, input: CartCheckoutInput): Promise<CheckoutResult> => {
+  const staleBefore = new Date(Date.now() - CHECKOUT_LOCK_MINUTES * 60 * 1000);
+  const claimed = await prisma.cart.updateMany({
+    where: {
+      token,
+      OR: [
+        { status: 'ACTIVE' },
+        { status: 'CHECKING_OUT', updatedAt: { lt: staleBefore } }
+      ]
+    },
+    data: { status: 'CHECKING_OUT' }
+  });
+
+  if (claimed.count === 0) {
+    await loadActiveCart(token);
+    throw new HttpError(409, 'Cart is being checked out');
+  }
+
+  const cart = await loadCart(token);
+
+  try {
+    const view = await buildCartView(cart, checkoutDestination(input.customerInfo), input.shippingMethodId);
+
+    if (cart.items.length === 0) {
+      throw new HttpError(400, 'Cart is empty');
+    }
+
+    const blocking = view.issues.filter(issue => issue.type !== 'PRICE_CHANGED');
+    if (blocking.length > 0) {
+      throw new HttpError(409, 'Some items in the cart cannot be ordered', { issues: blocking });
+    }
+
+    if (view.promoCodeError) {
+      throw new HttpError(409, view.promoCodeError, { quote: view.quote ? serializeQuote(view.quote) : undefined });
+    }
+
+    const result = await placeCheckout({
+      ...input,
+      items: cart.items.map(item => ({ productId: item.productId, quantity: item.quantity })),
+      agentId: cart.agentId,
+      customerId: cart.customerId,
+      promoCode: cart.promoCode,
+      currency: cart.currency
+    });
+
+    await prisma.cart.update({
+      where: { id: cart.id },
+      data: { status: 'CONVERTED', orderId: result.order.id, convertedAt: new Date() }
+    });
+
+    return result;
+  } catch (error) {
+    await prisma.cart.update({
+      where: { id: cart.id },
+      data: { status: 'ACTIVE' }
+    });
+    throw error;
+  }
+};
+
+/**
+ * Active carts with items that haven't been touched for a while
+ */
+export const getAbandonedCarts = async (idleHours: number) => {
+  const idleSince = new Date(Date.now() - idleHours * 60 * 60 * 1000);
+
+  return prisma.cart.findMany({
+    where: {
+      status: 'ACTIVE',
+      updatedAt: { lt: idleSince },
+      items: { some: {} }
+    },
+    include: {
+      ...cartInclude,
+      customer: { select: { id: true, email: true, firstName: true, lastName: true } }
+    },
+    orderBy: { updatedAt: 'desc' }
+  });
+};
+
+/**
+ * Format a checked cart for JSON responses
+ */
+export const formatCart = (view: CartView) => {
+  const { cart, quote, issues, promoCodeError } = view;
+
+  return {
+    token: cart.token,
+    status: cart.status,
+    orderId: cart.orderId || undefined,
+    agentId: cart.agentId || undefined,
+    promoCode: cart.promoCode || undefined,
+    currency: quote ? quote.currency : cart.currency || undefined,
+    promoCodeError: promoCodeError || undefined,
+    items: cart.items.map(item => ({
+      productId: item.productId,
+      name: item.product.name,
+      image: item.product.image || undefined,
+      quantity: item.quantity,
+      // In the cart's currency when the item can be ordered
+      price: quote?.lines.find(line => line.productId === item.productId)?.unitPrice ?? Number(item.product.price),
+      addedPrice: Number(item.unitPrice),
+      available: item.product.isActive && item.product.stockQuantity >= item.quantity
+    })),
+    issues,
+    quote: quote ? serializeQuote(quote) : null,
+    updatedAt: cart.updatedAt.toISOString()
+  };
+};
@@ -0,0 +1,120 @@
+import crypto from 'crypto';
+import { Order } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { HttpError } from '../utils/errors';
+import { toMinorUnits } from './currency.service';
+import { PaymentIntentStatus, PaymentProvider, ProviderPaymentIntent, ProviderRefund } from './payment-provider.service';
+
+const INTENT_PREFIX = 'cod_';
+
+/**
+ * Where a cash payment stands follows the order: collected once it is delivered
+ */
+const intentStatus = (order: Order): PaymentIntentStatus => {
+  switch (order.status) {
+    case 'DELIVERED':
+    case 'REFUNDED':
+      return 'succeeded';
+    case 'CANCELLED':
+      return 'canceled';
+    default:
+      return 'processing';
+  }
+};
+
+/**
+ * Cash collected by the courier. Nothing happens outside this app, so the order is
+ * the record of the payment and refunds are paid out by hand.
+ */
+export const cashOnDeliveryProvider: PaymentProvider = {
+  name: 'cash_on_delivery',
+  online: false,
+  intentPrefix: INTENT_PREFIX,
+
+  async createIntent(input) {
+    return {
+      id: `${INTENT_PREFIX}${crypto.randomUUID()}`,
+      status: 'processing',
+      amount: toMinorUnits(input.amount, input.currency),
+      amountReceived: 0,
+      currency: input.currency.toLowerCase(),
+      clientSecret: null,
+      metadata: input.metadata || {},
+      latestAttemptId: null,
+      lastError: null
+    };
+  },
+
+  async confirmIntent() {
+    throw new HttpError(409, 'Cash on delivery is paid when the order is delivered');
+  },
+
+  async retrieveIntent(paymentIntentId): Promise<ProviderPaymentIntent> {
+    const order = await prisma.order.findFirst({ where: { paymentIntentId } });
+
+    if (!order) {
+      throw new HttpError(404, 'Payment not found');
+    }
+
+    const amount = toMinorUnits(Number(order.totalPrice), order.currency);
+    const status = intentStatus(order);
+
+    return {
+      id: paymentIntentId,
+      status,
+      amount,
+      amountReceived: status === 'succeeded' ? amount : 0,
+      currency: order.currency.toLowerCase(),
+      clientSecret: null,
+      metadata: { orderIds: order.id, orderNumbers: order.orderNumber },
+      latestAttemptId: null,
+      lastError: null
+    };
+  },
+
+  async cancelIntent() {
+    throw new HttpError(409, 'Cash on delivery payments end with their order');
+  },
+
+  async updateIntentMetadata() {
+    // The order is the only record of the payment; there is nothing else to tag
+  },
+
+  async refund(input): Promise<ProviderRefund> {
+    return {
+      id: `${INTENT_PREFIX}re_${crypto.randomUUID()}`,
+      paymentIntentId: input.paymentIntentId,
+      amount: toMinorUnits(input.amount, input.currency),
+      currency: input.currency.toLowerCase(),
+      status: 'succeeded',
+      reason: input.metadata?.reason || null,
+      metadata: input.metadata || {}
+    };
+  },
+
+  async listRefunds(paymentIntentId) {
+    const refunds = await prisma.refund.findMany({
+      where: { order: { paymentIntentId }, providerRefundId: { not: null } },
+      include: { order: { select: { currency: true } } }
+    });
+
+    return refunds.map(refund => ({
+      id: refund.providerRefundId as string,
+      paymentIntentId,
+      amount: toMinorUnits(Number(refund.amount), refund.order.currency),
+      currency: refund.order.currency.toLowerCase(),
+      status: refund.status.toLowerCase(),
+      reason: refund.reason,
+      metadata: {}
+    }));
+  },
+
+  async listBalanceTransactions() {
+    // Cash never passes through a provider balance
+    return [];
+  },
+
+  parseWebhook() {
+    throw new HttpError(404, 'Cash on delivery does not send webhooks');
+  }
+};
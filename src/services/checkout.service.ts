@@ -0,0 +1,333 @@
+import { AttributionSource, OrderStatus, Prisma, PromoCode } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { HttpError } from '../utils/errors';
+import { roundMoney } from '../utils/money';
+import { generateOrderAccessToken } from '../utils/jwt';
+import { reserveStock } from './stock.service';
+import { reservationExpiry } from './reservation.service';
+import { recordStatusHistory } from './order-status.service';
+import { generateOrderNumber } from './order-number.service';
+import { resolveCustomer, findSessionCustomerId, normalizeEmail, isPlaceholderEmail } from './customer.service';
+import { toTaxDestination, TaxDestination } from './tax.service';
+import { deliveryEstimate } from './shipping.service';
+import { findApplicablePromoCode, toPromotionRule, redeemPromoCode } from './promotion.service';
+import { orderDetailsInclude, formatOrderItems, getPaymentIntentId, OrderWithDetails } from './order.service';
+import { OrderRequester } from './order-access.service';
+import {
+  validateCheckoutPaymentIntent,
+  tagPaymentIntent,
+  startOrderPayment,
+  confirmPaidOrders,
+  CheckoutPayment
+} from './payment.service';
+import { getPaymentProvider } from './payment-provider.service';
+import {
+  quoteCheckout,
+  assertClientTotals,
+  lineCommission,
+  serializeQuote,
+  CheckoutQuote,
+  ClientTotals
+} from './pricing.service';
+
+// Who gets the sale when a referral link and an agent's coupon name different agents: 'coupon' or 'link'
+const ATTRIBUTION_PRECEDENCE: string = process.env.ATTRIBUTION_PRECEDENCE === 'link' ? 'link' : 'coupon';
+
+export interface CheckoutItemInput {
+  productId: string;
+  quantity: number;
+  price?: number | string;
+}
+
+export interface CheckoutCustomerInfo {
+  email?: string;
+  firstName?: string;
+  lastName?: string;
+  phone?: string;
+  shippingAddress?: string;
+  // Structured destination used for tax: ISO country code, state or region code, postal code
+  shippingCountry?: string;
+  shippingState?: string;
+  shippingPostalCode?: string;
+  billingAddress?: string;
+}
+
+export interface CheckoutInput {
+  items: CheckoutItemInput[];
+  agentId?: string | null;
+  // Trusted as is: take it from a request only through permittedCustomerId
+  customerId?: string | null;
+  customerInfo?: CheckoutCustomerInfo;
+  paymentMethod?: string;
+  paymentDetails?: Prisma.InputJsonValue;
+  promoCode?: string | null;
+  // ISO code of the currency the buyer pays in; the base currency when omitted
+  currency?: string | null;
+  // The cheapest method available for the address when omitted
+  shippingMethodId?: string | null;
+  clientTotals?: Omit<ClientTotals, 'items'>;
+  // The signed-in user placing the order, if any; only a customer's own session updates their record
+  user?: OrderRequester['user'];
+}
+
+export interface CheckoutResult {
+  order: OrderWithDetails;
+  quote: CheckoutQuote;
+  paymentRequired: boolean;
+  // The intent that pays the order; cash on delivery gets one too, without a client secret
+  payment: CheckoutPayment;
+}
+
+/**
+ * Only active agents can be credited with a sale
+ */
+export const resolveAgent = async (agentId?: string | null): Promise<string | null> => {
+  if (!agentId) {
+    return null;
+  }
+
+  const agent = await prisma.user.findUnique({
+    where: { id: agentId }
+  });
+
+  if (!agent || agent.role !== 'AGENT' || !agent.isActive) {
+    throw new HttpError(400, 'Referral agent not found or inactive');
+  }
+
+  return agent.id;
+};
+
+/**
+ * Pick the agent credited with the order from the referral link and the coupon code
+ */
+const resolveAttribution = (
+  linkAgentId: string | null | undefined,
+  promoCode: PromoCode | null
+): { agentId: string | null; source: AttributionSource | null } => {
+  const couponAgentId = promoCode?.agentId || null;
+
+  if (couponAgentId && (!linkAgentId || ATTRIBUTION_PRECEDENCE === 'coupon')) {
+    return { agentId: couponAgentId, source: 'COUPON' };
+  }
+  if (linkAgentId) {
+    return { agentId: linkAgentId, source: 'LINK' };
+  }
+  return { agentId: null, source: null };
+};
+
+/**
+ * The customer ID a request may place its order for: staff may name any customer,
+ * a signed-in customer only themselves. Anyone else's is ignored, and the customer
+ * is found from the contact details instead.
+ */
+export const permittedCustomerId = async (customerId: unknown, user?: OrderRequester['user']): Promise<string | null> => {
+  if (!customerId || typeof customerId !== 'string') {
+    return null;
+  }
+
+  if (user?.role === 'ADMIN' || user?.role === 'AGENT') {
+    return customerId;
+  }
+  return customerId === await findSessionCustomerId(user) ? customerId : null;
+};
+
+/**
+ * The tax destination given with the customer's details
+ */
+export const checkoutDestination = (customerInfo?: CheckoutCustomerInfo): TaxDestination => {
+  return toTaxDestination({
+    country: customerInfo?.shippingCountry,
+    state: customerInfo?.shippingState,
+    postalCode: customerInfo?.shippingPostalCode
+  });
+};
+
+/**
+ * Turn a cart into one order: price it on the server, resolve the customer and
+ * agent, reserve stock, create the order with its lines and record the agent's
+ * commission. Everything after pricing runs in one transaction, so a checkout
+ * that loses the race for the last units leaves nothing behind.
+ */
+export const placeCheckout = async (input: CheckoutInput): Promise<CheckoutResult> => {
+  const { items, customerInfo, paymentMethod } = input;
+
+  // Price the checkout from the Product rows and reject tampered totals
+  const promoCode = input.promoCode ? await findApplicablePromoCode(input.promoCode) : null;
+  const destination = checkoutDestination(customerInfo);
+  const quote = await quoteCheckout(items, {
+    promotion: promoCode ? toPromotionRule(promoCode) : null,
+    currency: input.currency,
+    destination,
+    shippingMethodId: input.shippingMethodId
+  });
+  assertClientTotals(quote, { items, ...input.clientTotals });
+
+  const shippingMethod = quote.shippingMethod;
+  if (!shippingMethod) {
+    throw new HttpError(400, 'A shipping country is required to calculate shipping');
+  }
+  const delivery = deliveryEstimate(shippingMethod);
+
+  const attribution = resolveAttribution(input.agentId, promoCode);
+  const agentId = await resolveAgent(attribution.agentId);
+
+  // Orders paid during checkout wait in PENDING until the payment succeeds
+  const paymentProvider = getPaymentProvider(paymentMethod);
+  const paymentRequired = paymentProvider.online;
+  const orderStatus: OrderStatus = paymentRequired ? 'PENDING' : 'CONFIRMED';
+
+  // A client that already created an intent must have created it for exactly this total
+  const clientIntentId = paymentRequired && input.paymentDetails
+    ? getPaymentIntentId(input.paymentDetails as Prisma.JsonValue)
+    : null;
+  const clientIntent = clientIntentId ? await validateCheckoutPaymentIntent(paymentProvider, clientIntentId, quote) : null;
+
+  // Build one line per cart item, snapshotting the unit price, its discount and the agent's
+  // commission, which is earned on the discounted amount
+  const orderItems = quote.lines.map(line => ({
+    productId: line.productId,
+    quantity: line.quantity,
+    unitPrice: line.unitPrice,
+    lineTotal: line.lineTotal,
+    discount: line.discount,
+    taxRate: line.taxRate,
+    taxAmount: line.taxAmount,
+    taxRateId: line.taxRateId,
+    taxJurisdiction: line.taxJurisdiction,
+    commissionAmount: agentId ? lineCommission(line) : 0
+  }));
+  const totalCommission = roundMoney(orderItems.reduce((sum, item) => sum + item.commissionAmount, 0));
+
+  const staff = input.user?.role === 'ADMIN' || input.user?.role === 'AGENT';
+  const sessionCustomerId = await findSessionCustomerId(input.user);
+
+  const order = await prisma.$transaction(async (tx) => {
+    await reserveStock(tx, quote.lines);
+
+    const customer = await resolveCustomer(
+      tx,
+      input.customerId,
+      customerInfo,
+      input.user?.role === 'CUSTOMER' ? input.user.email : null
+    );
+
+    // The customer's stored details fill gaps only for staff or the customer's own session;
+    // a guest who gives someone's email gets just what they typed on their order
+    const fromRecord = staff || customer.id === sessionCustomerId;
+
+    const created = await tx.order.create({
+      data: {
+        orderNumber: await generateOrderNumber(tx),
+        customerId: customer.id,
+        agentId,
+        attributionSource: attribution.source,
+        totalPrice: quote.total,
+        currency: quote.currency,
+        exchangeRate: quote.exchangeRate,
+        status: orderStatus,
+        paymentMethod: paymentMethod || null,
+        paymentDetails: input.paymentDetails || {},
+        paymentIntentId: clientIntentId,
+        paymentAttempts: clientIntent
+          ? { create: { provider: paymentProvider.name, paymentIntentId: clientIntent.id, amount: quote.total, currency: quote.currency } }
+          : undefined,
+        subtotal: quote.subtotal,
+        discount: quote.discount,
+        discountCode: promoCode ? promoCode.code : null,
+        promoCodeId: promoCode ? promoCode.id : null,
+        tax: quote.tax,
+        pricesIncludeTax: quote.pricesIncludeTax,
+        shipping: quote.shipping,
+        shippingCountry: destination.country,
+        shippingState: destination.state,
+        shippingPostalCode: destination.postalCode,
+        shippingMethodId: shippingMethod.methodId,
+        shippingMethodName: shippingMethod.name,
+        deliveryEstimateFrom: delivery ? delivery.from : null,
+        deliveryEstimateTo: delivery ? delivery.to : null,
+        contactFirstName: customerInfo?.firstName || (fromRecord ? customer.firstName : null),
+        contactLastName: customerInfo?.lastName || (fromRecord ? customer.lastName : null),
+        contactPhone: customerInfo?.phone || (fromRecord ? customer.phone : null),
+        contactEmail: normalizeEmail(customerInfo?.email) || (fromRecord && !isPlaceholderEmail(customer.email) ? customer.email : null),
+        billingAddress: customerInfo?.billingAddress || undefined,
+        shippingAddress: customerInfo?.shippingAddress || (fromRecord ? customer.address : null) || undefined,
+        // Unpaid online orders only hold their stock for a limited time
+        reservationExpiresAt: paymentRequired ? reservationExpiry() : null,
+        items: {
+          create: orderItems
+        }
+      },
+      include: orderDetailsInclude
+    });
+
+    await recordStatusHistory(tx, created.id, null, orderStatus, { type: 'CUSTOMER', id: customer.id }, 'Order placed');
+
+    if (promoCode) {
+      await redeemPromoCode(tx, promoCode, customer.id, created.id, quote.discount);
+    }
+
+    // Record a single commission for the whole order
+    if (agentId && totalCommission > 0) {
+      await tx.commission.create({
+        data: {
+          userId: agentId,
+          orderId: created.id,
+          amount: totalCommission,
+          currency: quote.currency,
+          status: 'PENDING'
+        }
+      });
+    }
+
+    return created;
+  });
+
+  if (!clientIntent) {
+    const payment = await startOrderPayment(paymentProvider, order, quote, order.customer.email);
+    return { order: { ...order, paymentIntentId: payment.paymentIntentId }, quote, paymentRequired, payment };
+  }
+
+  await tagPaymentIntent(clientIntent.id, [order]);
+  const payment = { provider: paymentProvider.name, paymentIntentId: clientIntent.id, clientSecret: clientIntent.clientSecret };
+
+  // Paid before the order existed, so the webhook found nothing to confirm
+  if (clientIntent.status === 'succeeded') {
+    await confirmPaidOrders(clientIntent);
+    const confirmed = await prisma.order.findUniqueOrThrow({ where: { id: order.id }, include: orderDetailsInclude });
+    return { order: confirmed, quote, paymentRequired, payment };
+  }
+
+  return { order, quote, paymentRequired, payment };
+};
+
+/**
+ * Response body shared by every order-creation route
+ */
+export const formatCheckoutResponse = (result: CheckoutResult) => {
+  const { order, quote, paymentRequired, payment } = result;
+
+  return {
+    message: paymentRequired ? 'Order created successfully, awaiting payment' : 'Order placed successfully',
+    orderId: order.id,
+    orderNumber: order.orderNumber,
+    // Lets a guest view the order later; include it in the confirmation
+    accessToken: generateOrderAccessToken(order.id),
+    totalAmount: quote.total,
+    currency: quote.currency,
+    order: {
+      id: order.id,
+      orderNumber: order.orderNumber,
+      status: order.status,
+      reservationExpiresAt: order.reservationExpiresAt ? order.reservationExpiresAt.toISOString() : undefined,
+      totalAmount: quote.total,
+      items: formatOrderItems(order.items),
+      quote: serializeQuote(quote)
+    },
+    paymentRequired,
+    payment: {
+      provider: payment.provider,
+      paymentIntentId: payment.paymentIntentId,
+      clientSecret: payment.clientSecret || undefined
+    }
+  };
+};
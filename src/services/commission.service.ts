@@ -0,0 +1,106 @@
+import { Prisma } from '@prisma/client';
+import { roundMoney } from '../utils/money';
+
+/**
+ * Take `reduction` back from the commission earned on an order.
+ *
+ * Commissions that have not been paid yet are reduced in place (and blocked once
+ * nothing is left). Anything already paid out is recovered with a negative
+ * ADJUSTMENT commission, which is netted against the agent's next payout.
+ * Returns the amount actually clawed back.
+ */
+export const adjustOrderCommission = async (
+  tx: Prisma.TransactionClient,
+  orderId: string,
+  reduction: number,
+  note: string
+): Promise<number> => {
+  let remaining = roundMoney(reduction);
+  if (remaining <= 0) {
+    return 0;
+  }
+
+  const commissions = await tx.commission.findMany({
+    where: {
+      orderId,
+      type: 'SALE',
+      status: { in: ['PENDING', 'APPROVED', 'PAID'] }
+    },
+    orderBy: { createdAt: 'asc' }
+  });
+
+  let clawedBack = 0;
+
+  // Unpaid commissions first: just lower what the agent will earn
+  for (const commission of commissions.filter(c => c.status !== 'PAID')) {
+    if (remaining <= 0) break;
+
+    const amount = Number(commission.amount);
+    const taken = roundMoney(Math.min(amount, remaining));
+    const newAmount = roundMoney(amount - taken);
+
+    await tx.commission.update({
+      where: { id: commission.id },
+      data: {
+        amount: newAmount,
+        status: newAmount <= 0 ? 'BLOCKED' : commission.status,
+        note: note
+      }
+    });
+
+    remaining = roundMoney(remaining - taken);
+    clawedBack = roundMoney(clawedBack + taken);
+  }
+
+  // Paid commissions can't be changed; book a negative adjustment against future payouts
+  const paid = commissions.filter(c => c.status === 'PAID');
+  if (remaining > 0 && paid.length > 0) {
+    const previousAdjustments = await tx.commission.aggregate({
+      where: { orderId, type: 'ADJUSTMENT', status: { not: 'BLOCKED' } },
+      _sum: { amount: true }
+    });
+    // What is still recoverable after earlier adjustments on this order
+    const recoverable = roundMoney(
+      paid.reduce((sum, c) => sum + Number(c.amount), 0) + Number(previousAdjustments._sum.amount || 0)
+    );
+    const taken = roundMoney(Math.min(recoverable, remaining));
+
+    if (taken > 0) {
+      await tx.commission.create({
+        data: {
+          orderId,
+          userId: paid[0].userId,
+          amount: -taken,
+          currency: paid[0].currency,
+          status: 'APPROVED',
+          type: 'ADJUSTMENT',
+          note
+        }
+      });
+      clawedBack = roundMoney(clawedBack + taken);
+    }
+  }
+
+  return clawedBack;
+};
+
+/**
+ * Commission the returns and refunds of an order have taken back so far. A refund
+ * can pay for returned units, so each takes back only what the other hasn't.
+ */
+export const orderCommissionTakenBack = async (tx: Prisma.TransactionClient, orderId: string): Promise<number> => {
+  const [returnAdjustments, refundAdjustments] = await Promise.all([
+    tx.returnRequest.aggregate({
+      where: { orderId },
+      _sum: { commissionAdjustment: true }
+    }),
+    tx.refund.aggregate({
+      where: { orderId },
+      _sum: { commissionAdjustment: true }
+    })
+  ]);
+
+  return roundMoney(
+    Number(returnAdjustments._sum.commissionAdjustment || 0) + Number(refundAdjustments._sum.commissionAdjustment || 0)
+  );
+};
@@ -0,0 +1,141 @@
+import { ExchangeRate, ProductPrice } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { HttpError } from '../utils/errors';
+
+const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+// Currencies the payment provider charges in whole units rather than cents
+const ZERO_DECIMAL_CURRENCIES = ['BIF', 'CLP', 'DJF', 'GNF', 'JPY', 'KMF', 'KRW', 'MGA', 'PYG', 'RWF', 'UGX', 'VND', 'VUV', 'XAF', 'XOF', 'XPF'];
+
+export const normalizeCurrency = (currency: string): string => String(currency).trim().toUpperCase();
+
+// Product prices, reports and agent payouts are kept in this currency; don't change it once orders exist
+export const BASE_CURRENCY: string = normalizeCurrency(process.env.BASE_CURRENCY || 'USD');
+
+// A checkout currency and its rate against the base currency
+export interface CurrencyContext {
+  currency: string;
+  rate: number;
+}
+
+/**
+ * Resolve the currency a checkout is priced in. Only the base currency and
+ * currencies with a stored exchange rate can be used.
+ */
+export const resolveCurrency = async (currency?: string | null): Promise<CurrencyContext> => {
+  const code = currency ? normalizeCurrency(currency) : BASE_CURRENCY;
+
+  if (code === BASE_CURRENCY) {
+    return { currency: code, rate: 1 };
+  }
+
+  const exchangeRate = await prisma.exchangeRate.findUnique({ where: { currency: code } });
+  if (!exchangeRate) {
+    throw new HttpError(400, `Currency ${code} is not supported`);
+  }
+
+  return { currency: code, rate: Number(exchangeRate.rate) };
+};
+
+/**
+ * Amount in the smallest unit the payment provider charges in (cents for most currencies)
+ */
+export const toMinorUnits = (amount: number, currency: string): number => {
+  return ZERO_DECIMAL_CURRENCIES.includes(normalizeCurrency(currency)) ? Math.round(amount) : Math.round(amount * 100);
+};
+
+export const fromMinorUnits = (amount: number, currency: string): number => {
+  return ZERO_DECIMAL_CURRENCIES.includes(normalizeCurrency(currency)) ? amount : amount / 100;
+};
+
+/**
+ * Every currency that can be sold in besides the base currency
+ */
+export const listExchangeRates = async (): Promise<ExchangeRate[]> => {
+  return prisma.exchangeRate.findMany({ orderBy: { currency: 'asc' } });
+};
+
+/**
+ * Create or update the rate of a currency against the base currency
+ */
+export const setExchangeRate = async (currency: string, rate: number | string, updatedById: string | null): Promise<ExchangeRate> => {
+  const code = normalizeCurrency(currency || '');
+  if (!CURRENCY_PATTERN.test(code)) {
+    throw new HttpError(400, 'Currency must be a three-letter ISO code');
+  }
+  if (code === BASE_CURRENCY) {
+    throw new HttpError(400, `${BASE_CURRENCY} is the base currency; its rate is always 1`);
+  }
+
+  const value = parseFloat(String(rate));
+  if (!Number.isFinite(value) || value <= 0) {
+    throw new HttpError(400, 'Rate must be a positive number');
+  }
+
+  return prisma.exchangeRate.upsert({
+    where: { currency: code },
+    create: { currency: code, rate: value, updatedById },
+    update: { rate: value, updatedById }
+  });
+};
+
+/**
+ * Set a product's prices in other currencies. A null amount removes the price,
+ * so the product falls back to converting its base price.
+ */
+export const setProductPrices = async (
+  productId: string,
+  prices: Record<string, number | string | null>
+): Promise<ProductPrice[]> => {
+  if (!prices || typeof prices !== 'object' || Array.isArray(prices)) {
+    throw new HttpError(400, 'Prices must be an object keyed by currency code');
+  }
+
+  const product = await prisma.product.findUnique({ where: { id: productId } });
+  if (!product) {
+    throw new HttpError(404, 'Product not found');
+  }
+
+  const supported = new Set((await listExchangeRates()).map(rate => rate.currency));
+  const updates = Object.entries(prices).map(([currency, amount]) => {
+    const code = normalizeCurrency(currency);
+    if (!supported.has(code)) {
+      throw new HttpError(400, `Currency ${code} is not supported; add an exchange rate for it first`);
+    }
+
+    if (amount === null || amount === '') {
+      return { currency: code, amount: null };
+    }
+    const value = parseFloat(String(amount));
+    if (!Number.isFinite(value) || value <= 0) {
+      throw new HttpError(400, `Price in ${code} must be a positive number`);
+    }
+    return { currency: code, amount: value };
+  });
+
+  return prisma.$transaction(async (tx) => {
+    for (const update of updates) {
+      if (update.amount === null) {
+        await tx.productPrice.deleteMany({ where: { productId, currency: update.currency } });
+      } else {
+        await tx.productPrice.upsert({
+          where: { productId_currency: { productId, currency: update.currency } },
+          create: { productId, currency: update.currency, amount: update.amount },
+          update: { amount: update.amount }
+        });
+      }
+    }
+
+    return tx.productPrice.findMany({ where: { productId }, orderBy: { currency: 'asc' } });
+  });
+};
+
+export const formatExchangeRate = (exchangeRate: ExchangeRate) => ({
+  currency: exchangeRate.currency,
+  rate: Number(exchangeRate.rate),
+  updatedAt: exchangeRate.updatedAt.toISOString()
+});
+
+export const formatProductPrice = (price: ProductPrice) => ({
+  currency: price.currency,
+  amount: Number(price.amount)
+});
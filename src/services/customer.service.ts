@@ -0,0 +1,322 @@
+import crypto from 'crypto';
+import { Customer, Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { HttpError } from '../utils/errors';
+
+// Fewer digits than this can't identify anyone
+const MIN_PHONE_DIGITS = 7;
+const PLACEHOLDER_EMAIL_PATTERN = /^temp-[^@]+@example\.com$/;
+
+export interface CustomerContactInput {
+  email?: string;
+  firstName?: string;
+  lastName?: string;
+  phone?: string;
+  shippingAddress?: string;
+}
+
+export interface DuplicateCustomerGroup {
+  matchedBy: 'EMAIL' | 'PHONE';
+  value: string;
+  customers: (Customer & { orderCount: number })[];
+}
+
+export const normalizeEmail = (email?: string | null): string | null => {
+  const normalized = email ? String(email).trim().toLowerCase() : '';
+  return normalized || null;
+};
+
+/**
+ * Digits of a phone number, or null when there aren't enough to match on
+ */
+export const normalizePhone = (phone?: string | null): string | null => {
+  const digits = phone ? String(phone).replace(/\D/g, '') : '';
+  return digits.length >= MIN_PHONE_DIGITS ? digits : null;
+};
+
+/**
+ * Guests who checked out without an email get a generated one
+ */
+export const isPlaceholderEmail = (email: string): boolean => PLACEHOLDER_EMAIL_PATTERN.test(email);
+
+const placeholderEmail = (): string => `temp-${crypto.randomUUID()}@example.com`;
+
+/**
+ * The customer a record was merged into, or the record itself
+ */
+const followMerges = async (db: Prisma.TransactionClient, customer: Customer): Promise<Customer> => {
+  let current = customer;
+  while (current.mergedIntoId) {
+    current = await db.customer.findUniqueOrThrow({ where: { id: current.mergedIntoId } });
+  }
+  return current;
+};
+
+export const findCustomerByEmail = async (db: Prisma.TransactionClient, email?: string | null): Promise<Customer | null> => {
+  const normalized = normalizeEmail(email);
+  if (!normalized) {
+    return null;
+  }
+
+  const customer = await db.customer.findUnique({ where: { email: normalized } });
+  return customer ? followMerges(db, customer) : null;
+};
+
+/**
+ * The Customer record of a signed-in customer account, matched by email
+ */
+export const findSessionCustomerId = async (user?: { role: string; email: string } | null): Promise<string | null> => {
+  if (!user || user.role !== 'CUSTOMER') {
+    return null;
+  }
+
+  const customer = await findCustomerByEmail(prisma, user.email);
+  return customer ? customer.id : null;
+};
+
+/**
+ * A returning customer recognized by email, or by phone number. A phone match only
+ * counts when it can't be a different person: either no email was given, or the
+ * matched customer never gave one.
+ */
+const findExistingCustomer = async (
+  db: Prisma.TransactionClient,
+  email: string | null,
+  phone: string | null
+): Promise<Customer | null> => {
+  const byEmail = await findCustomerByEmail(db, email);
+  if (byEmail || !phone) {
+    return byEmail;
+  }
+
+  const byPhone = await db.customer.findMany({
+    where: { normalizedPhone: phone, mergedIntoId: null },
+    orderBy: { createdAt: 'asc' }
+  });
+
+  return byPhone.find(customer => !email || isPlaceholderEmail(customer.email)) || null;
+};
+
+/**
+ * Find the customer placing an order: an explicit customer ID, a returning customer
+ * with the same email or phone, or a new record. A returning customer's contact
+ * details are only updated from the checkout when the customer is signed in under
+ * the checkout email (`sessionEmail`); a guest's details stay on the order, so
+ * knowing someone's email doesn't let anyone rewrite their record.
+ */
+export const resolveCustomer = async (
+  db: Prisma.TransactionClient,
+  customerId?: string | null,
+  contact?: CustomerContactInput,
+  sessionEmail?: string | null
+): Promise<Customer> => {
+  if (customerId) {
+    const customer = await db.customer.findUnique({
+      where: { id: customerId }
+    });
+
+    if (!customer) {
+      throw new HttpError(404, 'Customer not found');
+    }
+    return followMerges(db, customer);
+  }
+
+  const email = normalizeEmail(contact?.email);
+  const normalizedPhone = normalizePhone(contact?.phone);
+  const authenticated = !!email && normalizeEmail(sessionEmail) === email;
+  // A guest giving an email isn't matched by phone: that would attach the email to someone else's record
+  const existing = await findExistingCustomer(db, email, authenticated || !email ? normalizedPhone : null);
+
+  if (existing && !authenticated) {
+    return existing;
+  }
+
+  if (existing) {
+    return db.customer.update({
+      where: { id: existing.id },
+      data: {
+        // A guest known only by phone now gives their email
+        email: email && isPlaceholderEmail(existing.email) ? email : undefined,
+        firstName: contact?.firstName || existing.firstName,
+        lastName: contact?.lastName || existing.lastName,
+        address: contact?.shippingAddress || existing.address,
+        phone: contact?.phone || existing.phone,
+        normalizedPhone: normalizedPhone || existing.normalizedPhone
+      }
+    });
+  }
+
+  const data = {
+    firstName: contact?.firstName || 'Guest',
+    lastName: contact?.lastName || 'Customer',
+    address: contact?.shippingAddress || '',
+    phone: contact?.phone || '',
+    normalizedPhone,
+    isActive: true
+  };
+
+  if (!email) {
+    return db.customer.create({
+      data: { ...data, email: placeholderEmail() }
+    });
+  }
+
+  // Upsert so two first orders with the same email can't create two customers
+  return db.customer.upsert({
+    where: { email },
+    create: { ...data, email },
+    update: {}
+  });
+};
+
+/**
+ * Groups of unmerged customers that look like the same person: emails that differ
+ * only in case or spacing, and shared phone numbers
+ */
+export const findDuplicateCustomers = async (): Promise<DuplicateCustomerGroup[]> => {
+  const emailGroups = await prisma.$queryRaw<{ value: string }[]>`
+    SELECT lower(trim("email")) AS value
+    FROM "Customer"
+    WHERE "mergedIntoId" IS NULL
+    GROUP BY lower(trim("email"))
+    HAVING COUNT(*) > 1
+  `;
+
+  const phoneGroups = await prisma.customer.groupBy({
+    by: ['normalizedPhone'],
+    where: { mergedIntoId: null, normalizedPhone: { not: null } },
+    having: { normalizedPhone: { _count: { gt: 1 } } }
+  });
+
+  const candidates = await prisma.customer.findMany({
+    where: {
+      mergedIntoId: null,
+      OR: [
+        ...emailGroups.map(group => ({ email: { equals: group.value, mode: 'insensitive' as const } })),
+        { normalizedPhone: { in: phoneGroups.map(group => group.normalizedPhone as string) } }
+      ]
+    },
+    include: { _count: { select: { orders: true } } },
+    orderBy: { createdAt: 'asc' }
+  });
+
+  const withOrderCount = candidates.map(({ _count, ...customer }) => ({ ...customer, orderCount: _count.orders }));
+
+  return [
+    ...emailGroups.map(group => ({
+      matchedBy: 'EMAIL' as const,
+      value: group.value,
+      customers: withOrderCount.filter(customer => customer.email.trim().toLowerCase() === group.value)
+    })),
+    ...phoneGroups.map(group => ({
+      matchedBy: 'PHONE' as const,
+      value: group.normalizedPhone as string,
+      customers: withOrderCount.filter(customer => customer.normalizedPhone === group.normalizedPhone)
+    }))
+  ];
+};
+
+/**
+ * Merge duplicate customers into one. Their orders, carts and promo code uses move
+ * to the kept customer, which also takes over contact details it is missing. The
+ * duplicates stay as inactive records pointing at the kept customer, so lookups by
+ * their email still find it.
+ */
+export const mergeCustomers = async (primaryId: string, duplicateIds: string[]) => {
+  if (!primaryId || !Array.isArray(duplicateIds) || duplicateIds.length === 0) {
+    throw new HttpError(400, 'A customer to keep and at least one duplicate are required');
+  }
+
+  const ids = Array.from(new Set(duplicateIds.map(String)));
+  if (ids.includes(primaryId)) {
+    throw new HttpError(400, 'A customer cannot be merged into itself');
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const primary = await tx.customer.findUnique({ where: { id: primaryId } });
+    if (!primary) {
+      throw new HttpError(404, 'Customer not found');
+    }
+    if (primary.mergedIntoId) {
+      throw new HttpError(409, 'The customer to keep has itself been merged into another customer');
+    }
+
+    const duplicates = await tx.customer.findMany({
+      where: { id: { in: ids } },
+      orderBy: { createdAt: 'asc' }
+    });
+    if (duplicates.length !== ids.length) {
+      throw new HttpError(404, 'One or more duplicate customers not found');
+    }
+
+    // Claim the duplicates so a concurrent merge of the same records fails
+    const claimed = await tx.customer.updateMany({
+      where: { id: { in: ids }, mergedIntoId: null },
+      data: { mergedIntoId: primary.id, mergedAt: new Date(), isActive: false }
+    });
+    if (claimed.count !== ids.length) {
+      throw new HttpError(409, 'One or more customers have already been merged');
+    }
+
+    const orders = await tx.order.updateMany({
+      where: { customerId: { in: ids } },
+      data: { customerId: primary.id }
+    });
+    await tx.cart.updateMany({
+      where: { customerId: { in: ids } },
+      data: { customerId: primary.id }
+    });
+    await tx.promoRedemption.updateMany({
+      where: { customerId: { in: ids } },
+      data: { customerId: primary.id }
+    });
+    // Records merged into a duplicate earlier now point straight at the kept customer
+    await tx.customer.updateMany({
+      where: { mergedIntoId: { in: ids } },
+      data: { mergedIntoId: primary.id }
+    });
+
+    // The kept customer takes a real email from a duplicate if it only has a placeholder
+    const emailSource = isPlaceholderEmail(primary.email)
+      ? duplicates.find(duplicate => !isPlaceholderEmail(duplicate.email))
+      : undefined;
+    if (emailSource) {
+      await tx.customer.update({
+        where: { id: emailSource.id },
+        data: { email: placeholderEmail() }
+      });
+    }
+
+    const phoneSource = duplicates.find(duplicate => duplicate.phone);
+    const addressSource = duplicates.find(duplicate => duplicate.address);
+
+    const customer = await tx.customer.update({
+      where: { id: primary.id },
+      data: {
+        email: emailSource ? normalizeEmail(emailSource.email) || undefined : undefined,
+        phone: primary.phone || phoneSource?.phone,
+        normalizedPhone: primary.normalizedPhone || normalizePhone(phoneSource?.phone),
+        address: primary.address || addressSource?.address
+      }
+    });
+
+    return { customer, mergedCustomerIds: ids, ordersMoved: orders.count };
+  });
+};
+
+/**
+ * Format a customer for JSON responses
+ */
+export const formatCustomer = (customer: Customer) => ({
+  id: customer.id,
+  email: customer.email,
+  hasPlaceholderEmail: isPlaceholderEmail(customer.email),
+  firstName: customer.firstName,
+  lastName: customer.lastName,
+  phone: customer.phone || undefined,
+  address: customer.address || undefined,
+  isActive: customer.isActive,
+  mergedIntoId: customer.mergedIntoId || undefined,
+  mergedAt: customer.mergedAt ? customer.mergedAt.toISOString() : undefined,
+  createdAt: customer.createdAt.toISOString()
+});
@@ -0,0 +1,189 @@
+import crypto from 'crypto';
+import { IdempotencyKey, Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+
+// How long a key and its stored response are kept
+const IDEMPOTENCY_KEY_TTL_HOURS: number = parseInt(process.env.IDEMPOTENCY_KEY_TTL_HOURS || '24');
+// A running request renews its lock; once it hasn't for this long it is assumed dead
+// and its key can be retried
+const IDEMPOTENCY_LOCK_SECONDS: number = parseInt(process.env.IDEMPOTENCY_LOCK_SECONDS || '60');
+
+export type IdempotencyClaim =
+  | { outcome: 'claimed'; record: IdempotencyKey }
+  | { outcome: 'replay'; record: IdempotencyKey }
+  | { outcome: 'in_progress' }
+  | { outcome: 'mismatch' };
+
+/**
+ * JSON with object keys sorted, so the same body always hashes the same
+ */
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+};
+
+export const hashRequestBody = (body: unknown): string => {
+  return crypto.createHash('sha256').update(stableStringify(body)).digest('hex');
+};
+
+/**
+ * Who a key belongs to: the signed-in user, else the holder of an order access token.
+ * Tokens are hashed so the stored scope can't be used as one.
+ */
+export const idempotencyCaller = (userId?: string | null, accessToken?: string | null): string => {
+  if (userId) {
+    return `user:${userId}`;
+  }
+  if (accessToken) {
+    return `token:${crypto.createHash('sha256').update(accessToken).digest('hex')}`;
+  }
+  return 'anonymous';
+};
+
+/**
+ * Try to take ownership of a key for this request. A repeat of a finished request
+ * gets its stored response, a repeat of a running one is told to wait, and a key
+ * reused for a different body is refused.
+ */
+export const claimIdempotencyKey = async (scope: string, key: string, requestHash: string): Promise<IdempotencyClaim> => {
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + IDEMPOTENCY_KEY_TTL_HOURS * 60 * 60 * 1000);
+
+  try {
+    const record = await prisma.idempotencyKey.create({
+      data: { scope, key, requestHash, expiresAt, lockedAt: now }
+    });
+    return { outcome: 'claimed', record };
+  } catch (error) {
+    if (!(error instanceof Prisma.PrismaClientKnownRequestError) || error.code !== 'P2002') {
+      throw error;
+    }
+  }
+
+  const existing = await prisma.idempotencyKey.findUnique({
+    where: { scope_key: { scope, key } }
+  });
+
+  // Released between our insert and this read; let the client retry
+  if (!existing) {
+    return { outcome: 'in_progress' };
+  }
+
+  // An expired key is treated as new
+  if (existing.expiresAt <= now) {
+    const result = await prisma.idempotencyKey.updateMany({
+      where: { id: existing.id, updatedAt: existing.updatedAt },
+      data: { requestHash, status: 'IN_PROGRESS', responseStatus: null, responseBody: Prisma.DbNull, lockedAt: now, expiresAt }
+    });
+    return result.count > 0
+      ? { outcome: 'claimed', record: { ...existing, requestHash, status: 'IN_PROGRESS', lockedAt: now, expiresAt } }
+      : { outcome: 'in_progress' };
+  }
+
+  if (existing.requestHash !== requestHash) {
+    return { outcome: 'mismatch' };
+  }
+
+  if (existing.status === 'COMPLETED') {
+    return { outcome: 'replay', record: existing };
+  }
+
+  // The first request stopped renewing its lock without finishing; let this one take over
+  const staleBefore = new Date(now.getTime() - IDEMPOTENCY_LOCK_SECONDS * 1000);
+  if (existing.lockedAt <= staleBefore) {
+    const result = await prisma.idempotencyKey.updateMany({
+      where: { id: existing.id, status: 'IN_PROGRESS', lockedAt: existing.lockedAt },
+      data: { lockedAt: now }
+    });
+    if (result.count > 0) {
+      return { outcome: 'claimed', record: { ...existing, lockedAt: now } };
+    }
+  }
+
+  return { outcome: 'in_progress' };
+};
+
+/**
+ * Mark a claimed key's request as still running
+ */
+export const renewIdempotencyKeyLock = async (id: string): Promise<void> => {
+  await prisma.idempotencyKey.updateMany({
+    where: { id, status: 'IN_PROGRESS' },
+    data: { lockedAt: new Date() }
+  });
+};
+
+/**
+ * Renew a claimed key's lock while its request runs, so a slow request is never
+ * taken for a dead one and run twice. Call the returned function when it's done.
+ */
+export const holdIdempotencyKey = (id: string): (() => void) => {
+  const timer = setInterval(() => {
+    renewIdempotencyKeyLock(id).catch(error => {
+      console.error('Error renewing idempotency key lock:', error);
+    });
+  }, (IDEMPOTENCY_LOCK_SECONDS * 1000) / 3);
+
+  timer.unref();
+  return () => clearInterval(timer);
+};
+
+/**
+ * Store the response of a claimed key so repeats can replay it
+ */
+export const completeIdempotencyKey = async (
+  id: string,
+  responseStatus: number,
+  responseBody: unknown
+): Promise<void> => {
+  await prisma.idempotencyKey.update({
+    where: { id },
+    data: {
+      status: 'COMPLETED',
+      responseStatus,
+      responseBody: responseBody === undefined ? Prisma.DbNull : (responseBody as Prisma.InputJsonValue)
+    }
+  });
+};
+
+/**
+ * Give a key back after a failure that is worth retrying
+ */
+export const releaseIdempotencyKey = async (id: string): Promise<void> => {
+  await prisma.idempotencyKey.deleteMany({
+    where: { id, status: 'IN_PROGRESS' }
+  });
+};
+
+/**
+ * Delete keys past their retention period. Returns the number deleted.
+ */
+export const purgeExpiredIdempotencyKeys = async (now: Date = new Date()): Promise<number> => {
+  const result = await prisma.idempotencyKey.deleteMany({
+    where: { expiresAt: { lte: now } }
+  });
+  return result.count;
+};
+
+/**
+ * Purge expired keys every hour for as long as the server runs
+ */
+export const startIdempotencyKeyPurger = (): NodeJS.Timeout => {
+  const timer = setInterval(() => {
+    purgeExpiredIdempotencyKeys().catch(error => {
+      console.error('Error purging expired idempotency keys:', error);
+    });
+  }, 60 * 60 * 1000);
+
+  // Don't keep the process alive just for the purger
+  timer.unref();
+  return timer;
+};
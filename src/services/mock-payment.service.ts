@@ -0,0 +1,268 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { HttpError } from '../utils/errors';
+import { toMinorUnits } from './currency.service';
+import {
+  PaymentIntentStatus,
+  PaymentProvider,
+  ProviderBalanceTransaction,
+  ProviderEventAction,
+  ProviderPaymentIntent,
+  ProviderRefund
+} from './payment-provider.service';
+
+const MOCK_SIGNATURE_HEADER = 'x-mock-signature';
+// Used when a mock intent is confirmed without naming a payment method
+const DEFAULT_MOCK_PAYMENT_METHOD = 'mock_card_success';
+// Balance transactions reported besides those of this process's payments, e.g. to rehearse reconciliation
+const MOCK_BALANCE_TRANSACTIONS_FILE: string = process.env.MOCK_BALANCE_TRANSACTIONS_FILE || 'fixtures/mock-balance-transactions.json';
+// Fee charged on mock payments: a percentage plus a fixed amount in minor units
+const MOCK_FEE_PERCENT = 2.9;
+const MOCK_FEE_FIXED = 30;
+
+// Payment methods the mock understands and how paying with each ends, after Stripe's test cards
+const MOCK_PAYMENT_METHODS: Record<string, { status: PaymentIntentStatus; error?: string }> = {
+  mock_card_success: { status: 'succeeded' },
+  mock_card_declined: { status: 'requires_payment_method', error: 'Your card was declined.' },
+  mock_card_insufficient_funds: { status: 'requires_payment_method', error: 'Your card has insufficient funds.' },
+  mock_card_requires_action: { status: 'requires_action' }
+};
+
+const MOCK_EVENT_ACTIONS: Partial<Record<string, ProviderEventAction>> = {
+  'payment_intent.succeeded': 'payment_succeeded',
+  'payment_intent.payment_failed': 'payment_failed',
+  'charge.refunded': 'refund_changed'
+};
+
+// Intents, their refunds and the balance they move live in memory for as long as the process runs
+const intents = new Map<string, ProviderPaymentIntent>();
+const refunds = new Map<string, ProviderRefund[]>();
+const ledger: ProviderBalanceTransaction[] = [];
+
+let fixtureTransactions: ProviderBalanceTransaction[] | null = null;
+
+const mockId = (prefix: string): string => `${prefix}${crypto.randomBytes(12).toString('hex')}`;
+
+/**
+ * Balance transactions from the fixture file, read once. A missing file means none.
+ */
+const loadFixtureTransactions = (): ProviderBalanceTransaction[] => {
+  if (fixtureTransactions) {
+    return fixtureTransactions;
+  }
+
+  const file = path.resolve(process.cwd(), MOCK_BALANCE_TRANSACTIONS_FILE);
+  if (!fs.existsSync(file)) {
+    fixtureTransactions = [];
+    return fixtureTransactions;
+  }
+
+  const entries: Array<Omit<ProviderBalanceTransaction, 'createdAt' | 'net'> & { createdAt: string; net?: number }> =
+    JSON.parse(fs.readFileSync(file, 'utf8'));
+
+  fixtureTransactions = entries.map(entry => ({
+    ...entry,
+    paymentIntentId: entry.paymentIntentId || null,
+    fee: entry.fee || 0,
+    net: entry.net ?? entry.amount - (entry.fee || 0),
+    currency: entry.currency.toLowerCase(),
+    createdAt: new Date(entry.createdAt)
+  }));
+  return fixtureTransactions;
+};
+
+const recordBalanceTransaction = (kind: ProviderBalanceTransaction['kind'], paymentIntent: ProviderPaymentIntent, amount: number): void => {
+  const fee = kind === 'charge' ? Math.round(amount * MOCK_FEE_PERCENT / 100) + MOCK_FEE_FIXED : 0;
+
+  ledger.push({
+    id: mockId('mock_txn_'),
+    kind,
+    paymentIntentId: paymentIntent.id,
+    amount,
+    fee,
+    net: amount - fee,
+    currency: paymentIntent.currency,
+    createdAt: new Date()
+  });
+};
+
+const findIntent = (paymentIntentId: string): ProviderPaymentIntent => {
+  const paymentIntent = intents.get(paymentIntentId);
+
+  if (!paymentIntent) {
+    throw new HttpError(404, `No such payment intent: ${paymentIntentId}`);
+  }
+  return paymentIntent;
+};
+
+/**
+ * Signature header value for a mock webhook body, for local scripts that simulate deliveries.
+ * Deliveries to /api/payment/webhook/mock are signed with MOCK_PAYMENT_WEBHOOK_SECRET; without
+ * it none are accepted.
+ */
+export const signMockWebhook = (payload: string | Buffer): string => {
+  const secret = process.env.MOCK_PAYMENT_WEBHOOK_SECRET;
+  if (!secret) {
+    console.error('Missing mock payment webhook secret');
+    throw new HttpError(500, 'Missing webhook secret');
+  }
+
+  return crypto.createHmac('sha256', secret).update(payload).digest('hex');
+};
+
+/**
+ * An in-process stand-in for a card provider, so checkouts run in development and
+ * tests without network access. Ids are random but outcomes are not: paying with
+ * one of MOCK_PAYMENT_METHODS always ends the same way, and refunds always succeed
+ * up to the amount received.
+ */
+export const mockPaymentProvider: PaymentProvider = {
+  name: 'mock',
+  online: true,
+  intentPrefix: 'mock_pi_',
+
+  async createIntent(input) {
+    const id = mockId('mock_pi_');
+    const paymentIntent: ProviderPaymentIntent = {
+      id,
+      status: 'requires_payment_method',
+      amount: toMinorUnits(input.amount, input.currency),
+      amountReceived: 0,
+      currency: input.currency.toLowerCase(),
+      clientSecret: `${id}_secret_${crypto.randomBytes(8).toString('hex')}`,
+      metadata: { ...input.metadata },
+      latestAttemptId: null,
+      lastError: null
+    };
+
+    intents.set(id, paymentIntent);
+    return { ...paymentIntent };
+  },
+
+  async confirmIntent(paymentIntentId, paymentMethod = DEFAULT_MOCK_PAYMENT_METHOD) {
+    const paymentIntent = findIntent(paymentIntentId);
+
+    if (paymentIntent.status === 'succeeded') {
+      return { ...paymentIntent };
+    }
+    if (paymentIntent.status === 'canceled') {
+      throw new HttpError(409, 'This payment intent was canceled');
+    }
+
+    const outcome = MOCK_PAYMENT_METHODS[paymentMethod];
+    if (!outcome) {
+      throw new HttpError(400, `Unknown mock payment method; use one of ${Object.keys(MOCK_PAYMENT_METHODS).join(', ')}`);
+    }
+
+    paymentIntent.status = outcome.status;
+    paymentIntent.latestAttemptId = mockId('mock_ch_');
+    paymentIntent.lastError = outcome.error || null;
+    paymentIntent.amountReceived = outcome.status === 'succeeded' ? paymentIntent.amount : 0;
+
+    if (outcome.status === 'succeeded') {
+      recordBalanceTransaction('charge', paymentIntent, paymentIntent.amount);
+    }
+
+    return { ...paymentIntent };
+  },
+
+  async retrieveIntent(paymentIntentId) {
+    return { ...findIntent(paymentIntentId) };
+  },
+
+  async cancelIntent(paymentIntentId) {
+    const paymentIntent = findIntent(paymentIntentId);
+
+    if (paymentIntent.status === 'succeeded') {
+      throw new HttpError(409, 'A succeeded payment intent cannot be canceled');
+    }
+
+    paymentIntent.status = 'canceled';
+    return { ...paymentIntent };
+  },
+
+  async updateIntentMetadata(paymentIntentId, metadata) {
+    const paymentIntent = findIntent(paymentIntentId);
+    paymentIntent.metadata = { ...paymentIntent.metadata, ...metadata };
+  },
+
+  async refund(input) {
+    const paymentIntent = findIntent(input.paymentIntentId);
+    const amount = toMinorUnits(input.amount, input.currency);
+    const existing = refunds.get(paymentIntent.id) || [];
+    const refunded = existing.reduce((sum, refund) => sum + refund.amount, 0);
+
+    if (paymentIntent.status !== 'succeeded') {
+      throw new HttpError(409, 'Only succeeded payments can be refunded');
+    }
+    if (amount <= 0 || refunded + amount > paymentIntent.amountReceived) {
+      throw new HttpError(400, 'Refund amount exceeds what was paid');
+    }
+
+    const refund: ProviderRefund = {
+      id: mockId('mock_re_'),
+      paymentIntentId: paymentIntent.id,
+      amount,
+      currency: paymentIntent.currency,
+      status: 'succeeded',
+      reason: input.metadata?.reason || null,
+      metadata: { ...input.metadata }
+    };
+
+    refunds.set(paymentIntent.id, [...existing, refund]);
+    recordBalanceTransaction('refund', paymentIntent, -amount);
+    return { ...refund };
+  },
+
+  async listRefunds(paymentIntentId) {
+    return (refunds.get(paymentIntentId) || []).map(refund => ({ ...refund }));
+  },
+
+  /**
+   * This process's charges and refunds plus those in the fixture file
+   */
+  async listBalanceTransactions(from, to) {
+    return [...loadFixtureTransactions(), ...ledger]
+      .filter(transaction => transaction.createdAt >= from && transaction.createdAt < to)
+      .map(transaction => ({ ...transaction }));
+  },
+
+  /**
+   * Mock deliveries are JSON bodies { id, type, paymentIntentId } signed with signMockWebhook
+   */
+  parseWebhook(payload, headers) {
+    const signature = headers[MOCK_SIGNATURE_HEADER];
+    const expected = signMockWebhook(payload);
+
+    if (typeof signature !== 'string' || signature.length !== expected.length
+      || !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) {
+      throw new HttpError(400, 'Webhook error: signature does not match');
+    }
+
+    let body: { id?: string; type?: string; paymentIntentId?: string };
+    try {
+      body = JSON.parse(payload.toString('utf8'));
+    } catch (error) {
+      throw new HttpError(400, 'Webhook error: body is not JSON');
+    }
+
+    if (!body.id || !body.type) {
+      throw new HttpError(400, 'Webhook error: id and type are required');
+    }
+
+    const action = MOCK_EVENT_ACTIONS[body.type] || null;
+    const paymentIntent = (action === 'payment_succeeded' || action === 'payment_failed') && body.paymentIntentId
+      ? { ...findIntent(body.paymentIntentId) }
+      : null;
+
+    return {
+      id: body.id,
+      provider: 'mock',
+      type: body.type,
+      action,
+      paymentIntentId: body.paymentIntentId || null,
+      paymentIntent
+    };
+  }
+};
@@ -0,0 +1,124 @@
+import { Order } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { HttpError } from '../utils/errors';
+import { verifyOrderAccessToken } from '../utils/jwt';
+import { findCustomerByEmail, normalizeEmail } from './customer.service';
+import { orderDetailsInclude, OrderWithDetails } from './order.service';
+import { normalizeOrderNumber } from './order-number.service';
+import { getOrderStatusHistory, formatStatusHistory } from './order-status.service';
+import { getOrderShipments, formatShipment } from './shipment.service';
+
+// How the requester is allowed to see an order
+export type OrderAccess = 'ADMIN' | 'AGENT' | 'CUSTOMER' | 'TOKEN';
+
+export interface OrderRequester {
+  user?: { userId: string; email: string; role: string } | null;
+  accessToken?: string | null;
+}
+
+/**
+ * Decide whether a requester may see an order: admins see every order, agents the
+ * orders credited to them, customers their own orders, and anyone holding the
+ * access token issued at checkout that one order. Returns null when none applies.
+ */
+export const getOrderAccess = async (
+  order: Pick<Order, 'id' | 'customerId' | 'agentId'>,
+  requester: OrderRequester
+): Promise<OrderAccess | null> => {
+  const { user, accessToken } = requester;
+
+  if (user?.role === 'ADMIN') {
+    return 'ADMIN';
+  }
+
+  if (user?.role === 'AGENT' && order.agentId === user.userId) {
+    return 'AGENT';
+  }
+
+  if (user?.role === 'CUSTOMER') {
+    const customer = await findCustomerByEmail(prisma, user.email);
+    if (customer && customer.id === order.customerId) {
+      return 'CUSTOMER';
+    }
+  }
+
+  if (accessToken && verifyOrderAccessToken(accessToken) === order.id) {
+    return 'TOKEN';
+  }
+
+  return null;
+};
+
+/**
+ * Check access to an order by ID. Orders the requester can't see are reported as
+ * not found, so order IDs can't be probed.
+ */
+export const assertOrderAccess = async (orderId: string, requester: OrderRequester): Promise<OrderAccess> => {
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    select: { id: true, customerId: true, agentId: true }
+  });
+
+  const access = order ? await getOrderAccess(order, requester) : null;
+  if (!access) {
+    throw new HttpError(404, 'Order not found');
+  }
+  return access;
+};
+
+/**
+ * Find an order for the guest "track my order" form. Both the order number and
+ * the email given with the order must match.
+ */
+export const findTrackedOrder = async (email: string, orderNumber: string): Promise<OrderWithDetails> => {
+  const normalizedEmail = normalizeEmail(email);
+
+  if (!normalizedEmail || !orderNumber) {
+    throw new HttpError(400, 'Email and order number are required');
+  }
+
+  const order = await prisma.order.findUnique({
+    where: { orderNumber: normalizeOrderNumber(String(orderNumber)) },
+    include: orderDetailsInclude
+  });
+
+  if (!order || normalizeEmail(order.contactEmail) !== normalizedEmail) {
+    throw new HttpError(404, 'Order not found');
+  }
+  return order;
+};
+
+/**
+ * j***@example.com
+ */
+const maskEmail = (email: string): string => {
+  const [local, domain] = email.split('@');
+  return domain ? `${local.charAt(0)}***@${domain}` : '***';
+};
+
+/**
+ * Tracking view of an order without personal details or payment data
+ */
+export const formatTrackedOrder = async (order: OrderWithDetails) => ({
+  orderNumber: order.orderNumber,
+  status: order.status,
+  createdAt: order.createdAt.toISOString(),
+  totalPrice: Number(order.totalPrice),
+  refundedAmount: Number(order.refundedAmount),
+  currency: order.currency,
+  shippingMethod: order.shippingMethodName || undefined,
+  deliveryEstimate: order.deliveryEstimateFrom && order.deliveryEstimateTo
+    ? { from: order.deliveryEstimateFrom.toISOString(), to: order.deliveryEstimateTo.toISOString() }
+    : undefined,
+  customer: {
+    firstName: order.contactFirstName || '',
+    email: order.contactEmail ? maskEmail(order.contactEmail) : undefined
+  },
+  items: order.items.map(item => ({
+    name: item.product.name,
+    image: item.product.image || undefined,
+    quantity: item.quantity
+  })),
+  statusHistory: formatStatusHistory(await getOrderStatusHistory(order.id), { includeActor: false }),
+  shipments: (await getOrderShipments(order.id)).map(formatShipment)
+});
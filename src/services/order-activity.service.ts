@@ -0,0 +1,142 @@
+import { OrderActivity, OrderActivityType, OrderStatus, Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { HttpError } from '../utils/errors';
+import { StatusActor } from './order-status.service';
+
+const MAX_COMMENT_LENGTH = 5000;
+
+// What staff can add to the thread; events are only written by the system
+export type OrderCommentType = Exclude<OrderActivityType, 'EVENT'>;
+
+export type OrderActivityWithAuthor = OrderActivity & { authorName: string | null };
+
+/**
+ * Add a system event to an order's thread, inside the caller's transaction
+ */
+export const recordOrderEvent = async (
+  tx: Prisma.TransactionClient,
+  orderId: string,
+  event: string,
+  body: string,
+  actor: StatusActor,
+  options: { customerVisible?: boolean } = {}
+): Promise<void> => {
+  await tx.orderActivity.create({
+    data: {
+      orderId,
+      type: 'EVENT',
+      event,
+      body,
+      customerVisible: options.customerVisible !== false,
+      actorType: actor.type,
+      actorId: actor.id || null
+    }
+  });
+};
+
+/**
+ * Thread entry for a status change, worded like the history backfill
+ */
+export const describeStatusChange = (fromStatus: OrderStatus | null, toStatus: OrderStatus, note?: string | null): string => {
+  const change = fromStatus ? `Status changed from ${fromStatus} to ${toStatus}` : `Status set to ${toStatus}`;
+  return note ? `${change}: ${note}` : change;
+};
+
+/**
+ * Attach the names of the staff who wrote each entry
+ */
+const withAuthorNames = async (entries: OrderActivity[]): Promise<OrderActivityWithAuthor[]> => {
+  const userIds = [...new Set(entries
+    .filter(entry => (entry.actorType === 'ADMIN' || entry.actorType === 'AGENT') && entry.actorId)
+    .map(entry => entry.actorId as string))];
+
+  const users = userIds.length > 0
+    ? await prisma.user.findMany({
+        where: { id: { in: userIds } },
+        select: { id: true, email: true, firstName: true, lastName: true }
+      })
+    : [];
+  const names = new Map(users.map(user => [user.id, [user.firstName, user.lastName].filter(Boolean).join(' ') || user.email]));
+
+  return entries.map(entry => ({
+    ...entry,
+    authorName: entry.actorId ? names.get(entry.actorId) || null : null
+  }));
+};
+
+/**
+ * Add a staff note (admins only) or a message the customer will see
+ */
+export const addOrderComment = async (
+  orderId: string,
+  type: OrderCommentType,
+  body: string,
+  actor: StatusActor
+): Promise<OrderActivityWithAuthor> => {
+  if (type !== 'NOTE' && type !== 'MESSAGE') {
+    throw new HttpError(400, 'Type must be NOTE or MESSAGE');
+  }
+
+  const text = typeof body === 'string' ? body.trim() : '';
+  if (!text) {
+    throw new HttpError(400, 'Message body is required');
+  }
+  if (text.length > MAX_COMMENT_LENGTH) {
+    throw new HttpError(400, `Message body cannot be longer than ${MAX_COMMENT_LENGTH} characters`);
+  }
+
+  const order = await prisma.order.findUnique({ where: { id: orderId }, select: { id: true } });
+  if (!order) {
+    throw new HttpError(404, 'Order not found');
+  }
+
+  const entry = await prisma.orderActivity.create({
+    data: {
+      orderId,
+      type,
+      body: text,
+      customerVisible: type === 'MESSAGE',
+      actorType: actor.type,
+      actorId: actor.id || null
+    }
+  });
+
+  const [withAuthor] = await withAuthorNames([entry]);
+  return withAuthor;
+};
+
+/**
+ * An order's thread, oldest first
+ */
+export const getOrderActivity = async (
+  orderId: string,
+  options: { customerVisibleOnly?: boolean } = {}
+): Promise<OrderActivityWithAuthor[]> => {
+  const entries = await prisma.orderActivity.findMany({
+    where: { orderId, ...(options.customerVisibleOnly ? { customerVisible: true } : {}) },
+    orderBy: { createdAt: 'asc' }
+  });
+
+  return withAuthorNames(entries);
+};
+
+/**
+ * Format a thread for JSON responses.
+ * Customer-facing views leave out who on the staff wrote each entry.
+ */
+export const formatOrderActivity = (
+  entries: OrderActivityWithAuthor[],
+  options: { includeAuthor?: boolean } = { includeAuthor: true }
+) => {
+  return entries.map(entry => ({
+    id: entry.id,
+    type: entry.type,
+    event: entry.event || undefined,
+    body: entry.body,
+    authorType: entry.actorType,
+    createdAt: entry.createdAt.toISOString(),
+    ...(options.includeAuthor
+      ? { customerVisible: entry.customerVisible, authorId: entry.actorId || undefined, authorName: entry.authorName || undefined }
+      : {})
+  }));
+};
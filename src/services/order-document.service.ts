@@ -0,0 +1,278 @@
+import PDFDocument from 'pdfkit';
+import { OrderDocumentType, OrderStatus, Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { HttpError } from '../utils/errors';
+import { orderDetailsInclude, OrderWithDetails } from './order.service';
+import { generateInvoiceNumber } from './order-number.service';
+import { getSellerDetails } from './settings.service';
+
+// Orders a document can be issued for; unpaid and cancelled orders have nothing to invoice or pack
+const DOCUMENT_STATUSES: Record<OrderDocumentType, OrderStatus[]> = {
+  INVOICE: ['CONFIRMED', 'SHIPPED', 'DELIVERED', 'REFUNDED'],
+  PACKING_SLIP: ['CONFIRMED', 'SHIPPED', 'DELIVERED']
+};
+
+const PAGE_MARGIN = 50;
+
+const orderDocumentInclude = {
+  order: {
+    select: { orderNumber: true }
+  }
+} satisfies Prisma.OrderDocumentInclude;
+
+export type OrderDocumentWithOrder = Prisma.OrderDocumentGetPayload<{ include: typeof orderDocumentInclude }>;
+
+interface TableColumn {
+  header: string;
+  width: number;
+  align?: 'left' | 'right';
+}
+
+// $12.50 for US dollars, EUR 12.50 and the like for other currencies
+const formatMoney = (amount: Prisma.Decimal | number | null, currency: string): string => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency,
+    currencyDisplay: currency === 'USD' ? 'symbol' : 'code'
+  }).format(Number(amount || 0));
+};
+
+const formatDate = (date: Date): string => date.toISOString().split('T')[0];
+
+const customerName = (order: OrderWithDetails): string => {
+  return [order.contactFirstName, order.contactLastName].filter(Boolean).join(' ') || order.contactEmail || '';
+};
+
+/**
+ * Render a PDF into memory
+ */
+const renderPdf = (title: string, createdAt: Date, draw: (doc: PDFKit.PDFDocument) => void): Promise<Buffer> => {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: 'A4',
+      margin: PAGE_MARGIN,
+      info: { Title: title, CreationDate: createdAt }
+    });
+    const chunks: Buffer[] = [];
+
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    draw(doc);
+    doc.end();
+  });
+};
+
+/**
+ * Seller block on the left, document title and references on the right
+ */
+const drawHeader = (doc: PDFKit.PDFDocument, title: string, references: [string, string][]): void => {
+  const seller = getSellerDetails();
+  const top = doc.y;
+
+  doc.font('Helvetica-Bold').fontSize(16).text(seller.name, PAGE_MARGIN, top, { width: 250 });
+  doc.font('Helvetica').fontSize(9);
+  for (const line of [seller.address, seller.email, seller.phone, seller.taxId ? `Tax ID: ${seller.taxId}` : '']) {
+    if (line) {
+      doc.text(line, { width: 250 });
+    }
+  }
+  const sellerBottom = doc.y;
+
+  doc.font('Helvetica-Bold').fontSize(20).text(title, 300, top, { width: 245, align: 'right' });
+  doc.fontSize(9);
+  for (const [label, value] of references) {
+    doc.font('Helvetica-Bold').text(`${label}: `, { width: 245, align: 'right', continued: true });
+    doc.font('Helvetica').text(value);
+  }
+
+  doc.y = Math.max(sellerBottom, doc.y) + 20;
+};
+
+/**
+ * Two address blocks side by side
+ */
+const drawAddresses = (doc: PDFKit.PDFDocument, blocks: [string, string[]][]): void => {
+  const top = doc.y;
+  let bottom = top;
+
+  blocks.forEach(([label, lines], index) => {
+    const x = PAGE_MARGIN + index * 250;
+    doc.font('Helvetica-Bold').fontSize(10).text(label, x, top, { width: 230 });
+    doc.font('Helvetica').fontSize(9);
+    for (const line of lines.filter(Boolean)) {
+      doc.text(line, x, doc.y, { width: 230 });
+    }
+    bottom = Math.max(bottom, doc.y);
+  });
+
+  doc.x = PAGE_MARGIN;
+  doc.y = bottom + 20;
+};
+
+const drawTable = (doc: PDFKit.PDFDocument, columns: TableColumn[], rows: string[][]): void => {
+  const drawRow = (cells: string[], bold: boolean): void => {
+    const top = doc.y;
+    let x = PAGE_MARGIN;
+    let bottom = top;
+
+    doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(9);
+    columns.forEach((column, index) => {
+      doc.text(cells[index], x, top, { width: column.width - 8, align: column.align || 'left' });
+      bottom = Math.max(bottom, doc.y);
+      x += column.width;
+    });
+
+    doc.y = bottom + 6;
+  };
+
+  const tableWidth = columns.reduce((sum, column) => sum + column.width, 0);
+
+  drawRow(columns.map(column => column.header), true);
+  doc.moveTo(PAGE_MARGIN, doc.y - 3).lineTo(PAGE_MARGIN + tableWidth, doc.y - 3).stroke();
+
+  for (const row of rows) {
+    if (doc.y > doc.page.height - PAGE_MARGIN * 2) {
+      doc.addPage();
+    }
+    drawRow(row, false);
+  }
+
+  doc.x = PAGE_MARGIN;
+  doc.y += 10;
+};
+
+const renderInvoice = (order: OrderWithDetails, invoiceNumber: string, issuedAt: Date): Promise<Buffer> => {
+  return renderPdf(`Invoice ${invoiceNumber}`, issuedAt, (doc) => {
+    drawHeader(doc, 'INVOICE', [
+      ['Invoice', invoiceNumber],
+      ['Date', formatDate(issuedAt)],
+      ['Order', order.orderNumber],
+      ['Order date', formatDate(order.createdAt)]
+    ]);
+
+    drawAddresses(doc, [
+      ['Bill to', [customerName(order), order.billingAddress || order.shippingAddress || '', order.contactEmail || '', order.contactPhone || '']],
+      ['Ship to', [customerName(order), order.shippingAddress || '']]
+    ]);
+
+    drawTable(doc, [
+      { header: 'Item', width: 195 },
+      { header: 'Qty', width: 40, align: 'right' },
+      { header: 'Unit price', width: 85, align: 'right' },
+      { header: 'Tax', width: 90, align: 'right' },
+      { header: 'Amount', width: 85, align: 'right' }
+    ], order.items.map(item => [
+      item.product.name,
+      String(item.quantity),
+      formatMoney(item.unitPrice, order.currency),
+      Number(item.taxAmount) > 0 ? `${formatMoney(item.taxAmount, order.currency)} (${Number(item.taxRate)}%)` : '-',
+      formatMoney(item.lineTotal, order.currency)
+    ]));
+
+    const totals: [string, string][] = [
+      ['Subtotal', formatMoney(order.subtotal, order.currency)],
+      ...(Number(order.discount) > 0
+        ? [[order.discountCode ? `Discount (${order.discountCode})` : 'Discount', `-${formatMoney(order.discount, order.currency)}`] as [string, string]]
+        : []),
+      [order.pricesIncludeTax ? 'Tax (included)' : 'Tax', formatMoney(order.tax, order.currency)],
+      [order.shippingMethodName ? `Shipping (${order.shippingMethodName})` : 'Shipping', formatMoney(order.shipping, order.currency)],
+      ['Total', formatMoney(order.totalPrice, order.currency)]
+    ];
+    for (const [label, value] of totals) {
+      const top = doc.y;
+      doc.font(label === 'Total' ? 'Helvetica-Bold' : 'Helvetica').fontSize(10);
+      doc.text(label, 300, top, { width: 145 });
+      const labelBottom = doc.y;
+      doc.text(value, 445, top, { width: 92, align: 'right' });
+      doc.y = Math.max(labelBottom, doc.y);
+    }
+
+    doc.moveDown(2);
+    doc.font('Helvetica').fontSize(9).text(`Payment method: ${order.paymentMethod || 'Not specified'}`, PAGE_MARGIN);
+  });
+};
+
+const renderPackingSlip = (order: OrderWithDetails, issuedAt: Date): Promise<Buffer> => {
+  return renderPdf(`Packing slip ${order.orderNumber}`, issuedAt, (doc) => {
+    drawHeader(doc, 'PACKING SLIP', [
+      ['Order', order.orderNumber],
+      ['Order date', formatDate(order.createdAt)],
+      ...(order.shippingMethodName ? [['Ship via', order.shippingMethodName] as [string, string]] : [])
+    ]);
+
+    drawAddresses(doc, [
+      ['Ship to', [customerName(order), order.shippingAddress || '', order.contactPhone || '']]
+    ]);
+
+    // No prices: the slip travels in the parcel
+    drawTable(doc, [
+      { header: 'Item', width: 395 },
+      { header: 'Qty', width: 100, align: 'right' }
+    ], order.items.map(item => [item.product.name, String(item.quantity)]));
+  });
+};
+
+/**
+ * The stored invoice or packing slip of an order, generated on first request.
+ * Later requests get the exact same bytes, even if the order changed since.
+ */
+export const getOrderDocument = async (orderId: string, type: OrderDocumentType): Promise<OrderDocumentWithOrder> => {
+  const existing = await prisma.orderDocument.findUnique({
+    where: { orderId_type: { orderId, type } },
+    include: orderDocumentInclude
+  });
+
+  if (existing) {
+    return existing;
+  }
+
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    include: orderDetailsInclude
+  });
+
+  if (!order) {
+    throw new HttpError(404, 'Order not found');
+  }
+
+  if (!DOCUMENT_STATUSES[type].includes(order.status)) {
+    throw new HttpError(409, `No ${type === 'INVOICE' ? 'invoice' : 'packing slip'} is available for a ${order.status} order`);
+  }
+
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const issuedAt = new Date();
+      const number = type === 'INVOICE' ? await generateInvoiceNumber(tx, issuedAt) : null;
+      const content = number ? await renderInvoice(order, number, issuedAt) : await renderPackingSlip(order, issuedAt);
+
+      return tx.orderDocument.create({
+        data: {
+          orderId,
+          type,
+          number,
+          content,
+          createdAt: issuedAt
+        },
+        include: orderDocumentInclude
+      });
+    });
+  } catch (error) {
+    // Another request generated the document first; serve theirs
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return prisma.orderDocument.findUniqueOrThrow({
+        where: { orderId_type: { orderId, type } },
+        include: orderDocumentInclude
+      });
+    }
+    throw error;
+  }
+};
+
+/**
+ * File name for a downloaded document
+ */
+export const orderDocumentFileName = (document: OrderDocumentWithOrder): string => {
+  return document.type === 'INVOICE' ? `invoice-${document.number}.pdf` : `packing-slip-${document.order.orderNumber}.pdf`;
+};
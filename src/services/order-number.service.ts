@@ -0,0 +1,51 @@
+import { Prisma } from '@prisma/client';
+
+// Order number format, e.g. AWM-2026-000123
+const ORDER_NUMBER_PREFIX: string = process.env.ORDER_NUMBER_PREFIX || 'AWM';
+const ORDER_NUMBER_INCLUDE_YEAR: boolean = process.env.ORDER_NUMBER_INCLUDE_YEAR !== 'false';
+const ORDER_NUMBER_PADDING: number = parseInt(process.env.ORDER_NUMBER_PADDING || '6');
+// Invoice number format, e.g. INV-2026-000042; shares the year and padding settings
+const INVOICE_NUMBER_PREFIX: string = process.env.INVOICE_NUMBER_PREFIX || 'INV';
+
+/**
+ * Take the next value of a database sequence and format it as PREFIX[-YEAR]-NNNNNN.
+ * Sequence values are never reused, so a rolled-back transaction leaves a gap rather than a duplicate.
+ */
+const nextSequenceNumber = async (
+  tx: Prisma.TransactionClient,
+  sequence: 'order_number_seq' | 'invoice_number_seq',
+  prefix: string,
+  now: Date
+): Promise<string> => {
+  const result = await tx.$queryRawUnsafe<{ value: bigint }[]>(`SELECT nextval('${sequence}') AS value`);
+  const value = String(result[0].value).padStart(ORDER_NUMBER_PADDING, '0');
+
+  const segments = [prefix];
+  if (ORDER_NUMBER_INCLUDE_YEAR) {
+    segments.push(String(now.getFullYear()));
+  }
+  segments.push(value);
+
+  return segments.join('-');
+};
+
+/**
+ * Next order number from the database sequence
+ */
+export const generateOrderNumber = async (tx: Prisma.TransactionClient, now: Date = new Date()): Promise<string> => {
+  return nextSequenceNumber(tx, 'order_number_seq', ORDER_NUMBER_PREFIX, now);
+};
+
+/**
+ * Next invoice number from its own database sequence
+ */
+export const generateInvoiceNumber = async (tx: Prisma.TransactionClient, now: Date = new Date()): Promise<string> => {
+  return nextSequenceNumber(tx, 'invoice_number_seq', INVOICE_NUMBER_PREFIX, now);
+};
+
+/**
+ * Normalize an order number typed by a person before looking it up
+ */
+export const normalizeOrderNumber = (orderNumber: string): string => {
+  return orderNumber.trim().toUpperCase();
+};
@@ -0,0 +1,158 @@
+import { ActorType, Order, OrderStatus, Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { HttpError } from '../utils/errors';
+import { releaseOrderStock } from './stock.service';
+import { releasePromoRedemption } from './promotion.service';
+import { recordOrderEvent, describeStatusChange } from './order-activity.service';
+
+// The order lifecycle: every status change must follow one of these edges
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  PENDING: ['CONFIRMED', 'CANCELLED'],
+  CONFIRMED: ['SHIPPED', 'CANCELLED', 'REFUNDED'],
+  SHIPPED: ['DELIVERED', 'REFUNDED'],
+  DELIVERED: ['REFUNDED'],
+  // A paid order that was cancelled is refunded afterwards
+  CANCELLED: ['REFUNDED'],
+  // Only reached through a full refund, see refund.service
+  REFUNDED: []
+};
+
+export interface StatusActor {
+  type: ActorType;
+  id?: string | null;
+}
+
+export interface TransitionOptions {
+  note?: string | null;
+  // Run inside the caller's transaction instead of opening a new one
+  tx?: Prisma.TransactionClient;
+  // Fail unless the order is still in this status
+  expectedFrom?: OrderStatus;
+}
+
+export const canTransition = (from: OrderStatus, to: OrderStatus): boolean => {
+  return ORDER_STATUS_TRANSITIONS[from].includes(to);
+};
+
+/**
+ * Side effects that go with entering a status
+ */
+const applyTransitionEffects = async (tx: Prisma.TransactionClient, order: Order, to: OrderStatus): Promise<void> => {
+  switch (to) {
+    case 'CANCELLED':
+      // Cancelled orders give their stock and promo code use back and earn no commission
+      await releaseOrderStock(tx, order.id);
+      await releasePromoRedemption(tx, order.id);
+      await tx.commission.updateMany({
+        where: { orderId: order.id, status: { in: ['PENDING', 'APPROVED'] } },
+        data: { status: 'BLOCKED' }
+      });
+      break;
+    default:
+      break;
+  }
+};
+
+/**
+ * Record a status change in the order's history and its activity thread
+ */
+export const recordStatusHistory = async (
+  tx: Prisma.TransactionClient,
+  orderId: string,
+  fromStatus: OrderStatus | null,
+  toStatus: OrderStatus,
+  actor: StatusActor,
+  note?: string | null
+): Promise<void> => {
+  await tx.orderStatusHistory.create({
+    data: {
+      orderId,
+      fromStatus,
+      toStatus,
+      actorType: actor.type,
+      actorId: actor.id || null,
+      note: note || null
+    }
+  });
+
+  await recordOrderEvent(tx, orderId, 'STATUS_CHANGED', describeStatusChange(fromStatus, toStatus, note), actor);
+};
+
+/**
+ * Move an order to a new status, enforcing the lifecycle, applying the side
+ * effects of the new status and writing the change to the history.
+ */
+export const transitionOrderStatus = async (
+  orderId: string,
+  to: OrderStatus,
+  actor: StatusActor,
+  options: TransitionOptions = {}
+): Promise<Order> => {
+  const run = async (tx: Prisma.TransactionClient): Promise<Order> => {
+    const order = await tx.order.findUnique({
+      where: { id: orderId }
+    });
+
+    if (!order) {
+      throw new HttpError(404, 'Order not found');
+    }
+
+    if (options.expectedFrom && order.status !== options.expectedFrom) {
+      throw new HttpError(409, `Order is ${order.status}, expected ${options.expectedFrom}`);
+    }
+
+    if (!canTransition(order.status, to)) {
+      throw new HttpError(409, `Cannot change order status from ${order.status} to ${to}`, {
+        allowedStatuses: ORDER_STATUS_TRANSITIONS[order.status]
+      });
+    }
+
+    // Conditional update so two concurrent changes can't both apply
+    const result = await tx.order.updateMany({
+      where: { id: orderId, status: order.status },
+      data: {
+        status: to,
+        // Once an order leaves PENDING its stock is no longer just reserved
+        reservationExpiresAt: null
+      }
+    });
+
+    if (result.count === 0) {
+      throw new HttpError(409, 'Order status was changed by another request, please retry');
+    }
+
+    await applyTransitionEffects(tx, order, to);
+    await recordStatusHistory(tx, orderId, order.status, to, actor, options.note);
+
+    return { ...order, status: to, reservationExpiresAt: null };
+  };
+
+  return options.tx ? run(options.tx) : prisma.$transaction(run);
+};
+
+/**
+ * Status history of an order, oldest first
+ */
+export const getOrderStatusHistory = async (orderId: string) => {
+  return prisma.orderStatusHistory.findMany({
+    where: { orderId },
+    orderBy: { createdAt: 'asc' }
+  });
+};
+
+/**
+ * Format status history for JSON responses.
+ * Customer-facing views leave out who made each change.
+ */
+export const formatStatusHistory = (
+  history: Awaited<ReturnType<typeof getOrderStatusHistory>>,
+  options: { includeActor?: boolean } = { includeActor: true }
+) => {
+  return history.map(entry => ({
+    fromStatus: entry.fromStatus,
+    toStatus: entry.toStatus,
+    note: entry.note || undefined,
+    createdAt: entry.createdAt.toISOString(),
+    ...(options.includeActor ? { id: entry.id, actorType: entry.actorType, actorId: entry.actorId || undefined } : {})
+  }));
+};
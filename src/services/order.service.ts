@@ -0,0 +1,78 @@
+import { Prisma } from '@prisma/client';
+import { findIntentProvider } from './payment-provider.service';
+
+// Relations loaded whenever a full order (header + lines) is returned by the API
+export const orderDetailsInclude = {
+  items: {
+    include: {
+      product: true
+    },
+    orderBy: { createdAt: 'asc' }
+  },
+  customer: {
+    select: {
+      id: true,
+      email: true,
+      firstName: true,
+      lastName: true,
+      phone: true,
+      address: true
+    }
+  },
+  agent: {
+    select: {
+      id: true,
+      email: true,
+      firstName: true,
+      lastName: true
+    }
+  }
+} satisfies Prisma.OrderInclude;
+
+export type OrderWithDetails = Prisma.OrderGetPayload<{ include: typeof orderDetailsInclude }>;
+
+export type OrderItemWithProduct = OrderWithDetails['items'][number];
+
+/**
+ * Format order lines for JSON responses.
+ * `id` stays the product ID for compatibility with the storefront and admin UI.
+ */
+export const formatOrderItems = (items: OrderItemWithProduct[]) => {
+  return items.map(item => ({
+    id: item.product.id,
+    orderItemId: item.id,
+    name: item.product.name,
+    price: Number(item.unitPrice),
+    quantity: item.quantity,
+    lineTotal: Number(item.lineTotal),
+    discount: Number(item.discount),
+    taxRate: Number(item.taxRate),
+    taxAmount: Number(item.taxAmount),
+    taxJurisdiction: item.taxJurisdiction || undefined,
+    commissionAmount: Number(item.commissionAmount),
+    image: item.product.image || undefined
+  }));
+};
+
+/**
+ * Parse the stored payment details, which older rows saved as a JSON string
+ */
+export const parsePaymentDetails = (paymentDetails: Prisma.JsonValue | null) => {
+  if (!paymentDetails) {
+    return undefined;
+  }
+  return typeof paymentDetails === 'string' ? JSON.parse(paymentDetails) : paymentDetails;
+};
+
+/**
+ * Payment intent named in payment details sent at checkout, if a provider issued it
+ */
+export const getPaymentIntentId = (paymentDetails: Prisma.JsonValue | null): string | null => {
+  const details = parsePaymentDetails(paymentDetails);
+  if (!details || typeof details !== 'object') {
+    return null;
+  }
+
+  const candidate = details.paymentIntentId || details.id;
+  return typeof candidate === 'string' && findIntentProvider(candidate) ? candidate : null;
+};
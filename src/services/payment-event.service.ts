@@ -0,0 +1,192 @@
+import { PaymentEvent, PaymentEventStatus, Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { HttpError } from '../utils/errors';
+import { syncProviderRefunds } from './refund.service';
+import { confirmPaidOrders, recordPaymentFailure } from './payment.service';
+import { ProviderEvent, ProviderEventAction, ProviderPaymentIntent } from './payment-provider.service';
+
+// An event left in PROCESSING this long is assumed to belong to a crashed request
+const PROCESSING_TIMEOUT_MINUTES = 5;
+
+const PAYMENT_EVENT_STATUSES = Object.values(PaymentEventStatus);
+
+/**
+ * Confirm the orders linked to the payment intent
+ */
+const handlePaymentSucceeded = async (event: ProviderEvent): Promise<void> => {
+  const paymentIntent = event.paymentIntent as ProviderPaymentIntent;
+  const orders = await confirmPaidOrders(paymentIntent);
+
+  if (orders.length > 0) {
+    console.log(`Payment intent ${paymentIntent.id} paid order(s) ${orders.map(order => order.orderNumber).join(', ')}`);
+  } else {
+    console.log(`No order linked to payment intent: ${paymentIntent.id}`);
+  }
+};
+
+const handlePaymentFailed = async (event: ProviderEvent): Promise<void> => {
+  const paymentIntent = event.paymentIntent as ProviderPaymentIntent;
+  await recordPaymentFailure(paymentIntent);
+  console.log(`Payment failed for payment intent: ${paymentIntent.id}`);
+};
+
+const handleRefundChanged = async (event: ProviderEvent): Promise<void> => {
+  const { paymentIntentId } = event;
+
+  if (paymentIntentId) {
+    const changed = await syncProviderRefunds(paymentIntentId);
+    console.log(`Reconciled ${changed} refund(s) for payment intent: ${paymentIntentId}`);
+  }
+};
+
+// Events without an action are stored and marked IGNORED
+const PAYMENT_EVENT_HANDLERS: Record<ProviderEventAction, (event: ProviderEvent) => Promise<void>> = {
+  payment_succeeded: handlePaymentSucceeded,
+  payment_failed: handlePaymentFailed,
+  refund_changed: handleRefundChanged
+};
+
+/**
+ * The event as stored, without the payment intent's client secret: anyone holding
+ * it can complete the payment, and handlers never need it
+ */
+const storedPayload = (event: ProviderEvent): Prisma.InputJsonValue => {
+  const payload = event.paymentIntent
+    ? { ...event, paymentIntent: { ...event.paymentIntent, clientSecret: null } }
+    : event;
+  return payload as unknown as Prisma.InputJsonValue;
+};
+
+/**
+ * Store a verified event. A redelivery of an event we already have returns the stored row.
+ */
+const recordPaymentEvent = async (event: ProviderEvent): Promise<PaymentEvent> => {
+  try {
+    return await prisma.paymentEvent.create({
+      data: {
+        provider: event.provider,
+        providerEventId: event.id,
+        type: event.type,
+        payload: storedPayload(event)
+      }
+    });
+  } catch (error) {
+    if (!(error instanceof Prisma.PrismaClientKnownRequestError) || error.code !== 'P2002') {
+      throw error;
+    }
+  }
+
+  return prisma.paymentEvent.findUniqueOrThrow({
+    where: { provider_providerEventId: { provider: event.provider, providerEventId: event.id } }
+  });
+};
+
+/**
+ * Take an event for processing if it is in one of `statuses`, or stuck in PROCESSING.
+ * The conditional update means two deliveries of the same event can't both run it.
+ */
+const claimPaymentEvent = async (id: string, statuses: PaymentEventStatus[]): Promise<boolean> => {
+  const staleBefore = new Date(Date.now() - PROCESSING_TIMEOUT_MINUTES * 60 * 1000);
+
+  const result = await prisma.paymentEvent.updateMany({
+    where: {
+      id,
+      OR: [
+        { status: { in: statuses } },
+        { status: 'PROCESSING', updatedAt: { lt: staleBefore } }
+      ]
+    },
+    data: { status: 'PROCESSING', attempts: { increment: 1 } }
+  });
+
+  return result.count > 0;
+};
+
+/**
+ * Run the handler for a claimed event and store the outcome
+ */
+const runPaymentEvent = async (paymentEvent: PaymentEvent): Promise<PaymentEvent> => {
+  const event = paymentEvent.payload as unknown as ProviderEvent;
+  const handler = event.action ? PAYMENT_EVENT_HANDLERS[event.action] : null;
+
+  try {
+    if (handler) {
+      await handler(event);
+    }
+
+    return await prisma.paymentEvent.update({
+      where: { id: paymentEvent.id },
+      data: { status: handler ? 'PROCESSED' : 'IGNORED', lastError: null, processedAt: new Date() }
+    });
+  } catch (error) {
+    console.error(`Error processing payment event ${paymentEvent.providerEventId}:`, error);
+
+    return prisma.paymentEvent.update({
+      where: { id: paymentEvent.id },
+      data: { status: 'FAILED', lastError: (error as Error).message || String(error) }
+    });
+  }
+};
+
+/**
+ * Handle a verified webhook event once. Redeliveries of an event that was
+ * processed or is being processed are skipped; a failed one is tried again.
+ */
+export const handlePaymentEvent = async (event: ProviderEvent): Promise<{ paymentEvent: PaymentEvent; duplicate: boolean }> => {
+  const paymentEvent = await recordPaymentEvent(event);
+
+  if (!(await claimPaymentEvent(paymentEvent.id, ['RECEIVED', 'FAILED']))) {
+    return { paymentEvent, duplicate: true };
+  }
+
+  return { paymentEvent: await runPaymentEvent(paymentEvent), duplicate: false };
+};
+
+/**
+ * Re-run a failed event from its stored payload
+ */
+export const retryPaymentEvent = async (id: string): Promise<PaymentEvent> => {
+  const paymentEvent = await prisma.paymentEvent.findUnique({ where: { id } });
+
+  if (!paymentEvent) {
+    throw new HttpError(404, 'Payment event not found');
+  }
+
+  if (paymentEvent.status !== 'FAILED') {
+    throw new HttpError(409, `Only failed events can be re-run; this one is ${paymentEvent.status}`);
+  }
+
+  if (!(await claimPaymentEvent(id, ['FAILED']))) {
+    throw new HttpError(409, 'Payment event is already being processed');
+  }
+
+  return runPaymentEvent(paymentEvent);
+};
+
+/**
+ * Stored events in a status, newest first
+ */
+export const listPaymentEvents = async (status: string = 'FAILED'): Promise<PaymentEvent[]> => {
+  const normalized = String(status).toUpperCase() as PaymentEventStatus;
+
+  if (!PAYMENT_EVENT_STATUSES.includes(normalized)) {
+    throw new HttpError(400, `Status must be one of ${PAYMENT_EVENT_STATUSES.join(', ')}`);
+  }
+
+  return prisma.paymentEvent.findMany({
+    where: { status: normalized },
+    orderBy: { createdAt: 'desc' }
+  });
+};
+
+export const formatPaymentEvent = (paymentEvent: PaymentEvent) => ({
+  id: paymentEvent.id,
+  provider: paymentEvent.provider,
+  providerEventId: paymentEvent.providerEventId,
+  type: paymentEvent.type,
+  status: paymentEvent.status,
+  attempts: paymentEvent.attempts,
+  lastError: paymentEvent.lastError || undefined,
+  processedAt: paymentEvent.processedAt ? paymentEvent.processedAt.toISOString() : undefined,
+  createdAt: paymentEvent.createdAt.toISOString()
+});
@@ -0,0 +1,198 @@
+import { IncomingHttpHeaders } from 'http';
+import { HttpError } from '../utils/errors';
+import { stripeProvider } from './stripe.service';
+import { cashOnDeliveryProvider } from './cash-on-delivery.service';
+import { mockPaymentProvider } from './mock-payment.service';
+
+// Which provider collects each payment method, e.g. "card:stripe,upi:stripe,cod:cash_on_delivery".
+// Point card and upi at "mock" to run checkouts without network access.
+const DEFAULT_METHOD_PROVIDERS = 'card:stripe,upi:stripe,stripe:stripe,cod:cash_on_delivery';
+// Payment methods that aren't listed are collected on delivery
+const FALLBACK_PROVIDER = 'cash_on_delivery';
+
+// Intent statuses, in Stripe's vocabulary, which the other providers reuse
+export type PaymentIntentStatus =
+  | 'requires_payment_method'
+  | 'requires_confirmation'
+  | 'requires_action'
+  | 'processing'
+  | 'requires_capture'
+  | 'canceled'
+  | 'succeeded';
+
+// A payment as the provider sees it. Amounts are in minor units, currency codes lower case.
+export interface ProviderPaymentIntent {
+  id: string;
+  status: PaymentIntentStatus;
+  amount: number;
+  amountReceived: number;
+  currency: string;
+  // Handed to the client to complete the payment; null when there is nothing to complete
+  clientSecret: string | null;
+  metadata: Record<string, string>;
+  // The provider's id for the latest try at paying (Stripe's charge), null before the first
+  latestAttemptId: string | null;
+  // Why the last attempt failed, if it did
+  lastError: string | null;
+}
+
+export interface ProviderRefund {
+  id: string;
+  paymentIntentId: string;
+  amount: number;
+  currency: string;
+  // pending, succeeded, failed or canceled
+  status: string;
+  reason: string | null;
+  metadata: Record<string, string>;
+}
+
+// A movement of money in the provider's balance: a charge, a refund or anything else
+// (adjustments, payouts). Amounts are signed, in minor units of the balance currency.
+export interface ProviderBalanceTransaction {
+  id: string;
+  kind: 'charge' | 'refund' | 'other';
+  paymentIntentId: string | null;
+  amount: number;
+  fee: number;
+  net: number;
+  currency: string;
+  createdAt: Date;
+}
+
+// What a webhook event asks us to do
+export type ProviderEventAction = 'payment_succeeded' | 'payment_failed' | 'refund_changed';
+
+// A verified webhook event, reduced to what the handlers need. This is what the event log stores.
+export interface ProviderEvent {
+  id: string;
+  provider: string;
+  // The provider's own event type
+  type: string;
+  // Null for event types we don't act on
+  action: ProviderEventAction | null;
+  paymentIntentId: string | null;
+  // Included for payment events
+  paymentIntent: ProviderPaymentIntent | null;
+}
+
+export interface CreateIntentInput {
+  // In major units of `currency`
+  amount: number;
+  currency: string;
+  metadata?: Record<string, string>;
+  receiptEmail?: string | null;
+}
+
+export interface ProviderRefundInput {
+  paymentIntentId: string;
+  // In major units of `currency`
+  amount: number;
+  currency: string;
+  metadata?: Record<string, string>;
+}
+
+export interface PaymentProvider {
+  name: string;
+  // Whether the buyer pays during checkout. Orders paid any other way are confirmed when placed.
+  online: boolean;
+  // Every intent id this provider issues starts with it, so an id leads back to its provider
+  intentPrefix: string;
+  createIntent(input: CreateIntentInput): Promise<ProviderPaymentIntent>;
+  // Pay an intent from the server; `paymentMethod` is a provider-specific payment method or token
+  confirmIntent(paymentIntentId: string, paymentMethod?: string): Promise<ProviderPaymentIntent>;
+  retrieveIntent(paymentIntentId: string): Promise<ProviderPaymentIntent>;
+  // Stop an intent from being paid; fails once it has succeeded or is being processed
+  cancelIntent(paymentIntentId: string): Promise<ProviderPaymentIntent>;
+  updateIntentMetadata(paymentIntentId: string, metadata: Record<string, string>): Promise<void>;
+  refund(input: ProviderRefundInput): Promise<ProviderRefund>;
+  listRefunds(paymentIntentId: string): Promise<ProviderRefund[]>;
+  // Balance transactions created in [from, to), for reconciliation
+  listBalanceTransactions(from: Date, to: Date): Promise<ProviderBalanceTransaction[]>;
+  // Verify a webhook delivery against the raw body and parse it. Throws an HttpError when it can't be trusted.
+  parseWebhook(payload: Buffer, headers: IncomingHttpHeaders): ProviderEvent;
+}
+
+const AVAILABLE_PROVIDERS: Record<string, PaymentProvider> = {
+  [stripeProvider.name]: stripeProvider,
+  [cashOnDeliveryProvider.name]: cashOnDeliveryProvider,
+  [mockPaymentProvider.name]: mockPaymentProvider
+};
+
+/**
+ * Read the method-to-provider map, failing at startup on a provider that doesn't exist
+ */
+const parseMethodProviders = (value: string): Map<string, PaymentProvider> => {
+  const methodProviders = new Map<string, PaymentProvider>();
+
+  for (const entry of value.split(',').map(part => part.trim()).filter(Boolean)) {
+    const [method, providerName] = entry.split(':').map(part => part.trim());
+    const provider = AVAILABLE_PROVIDERS[providerName];
+    if (!method || !provider) {
+      throw new Error(`Invalid PAYMENT_PROVIDERS entry "${entry}"; providers are ${Object.keys(AVAILABLE_PROVIDERS).join(', ')}`);
+    }
+    methodProviders.set(method, provider);
+  }
+
+  return methodProviders;
+};
+
+const METHOD_PROVIDERS = parseMethodProviders(process.env.PAYMENT_PROVIDERS || DEFAULT_METHOD_PROVIDERS);
+
+/**
+ * Whether mock payments are on: a payment method is collected by the mock, or
+ * MOCK_PAYMENTS_ENABLED=true turns it on for development
+ */
+export const mockPaymentsEnabled = (): boolean => {
+  return [...METHOD_PROVIDERS.values()].includes(mockPaymentProvider) || process.env.MOCK_PAYMENTS_ENABLED === 'true';
+};
+
+// Providers in use. The mock, and with it its webhook and intents, only exists where mock payments are on.
+const PROVIDERS: Record<string, PaymentProvider> = Object.fromEntries(
+  Object.entries(AVAILABLE_PROVIDERS).filter(([, provider]) => provider !== mockPaymentProvider || mockPaymentsEnabled())
+);
+
+/**
+ * The provider that collects a payment method
+ */
+export const getPaymentProvider = (paymentMethod?: string | null): PaymentProvider => {
+  return (paymentMethod && METHOD_PROVIDERS.get(paymentMethod)) || PROVIDERS[FALLBACK_PROVIDER];
+};
+
+/**
+ * Providers that collect payments online for at least one configured payment method
+ */
+export const getOnlinePaymentProviders = (): PaymentProvider[] => {
+  return [...new Set(METHOD_PROVIDERS.values())].filter(provider => provider.online);
+};
+
+/**
+ * A provider by name, as used in webhook URLs
+ */
+export const getProviderByName = (name: string): PaymentProvider => {
+  const provider = PROVIDERS[name];
+
+  if (!provider) {
+    throw new HttpError(404, `Unknown payment provider ${name}`);
+  }
+  return provider;
+};
+
+/**
+ * The provider that issued an intent id, or null if none did
+ */
+export const findIntentProvider = (paymentIntentId: string): PaymentProvider | null => {
+  return Object.values(PROVIDERS).find(provider => paymentIntentId.startsWith(provider.intentPrefix)) || null;
+};
+
+/**
+ * Like findIntentProvider, for ids that must belong to a provider
+ */
+export const getIntentProvider = (paymentIntentId: string): PaymentProvider => {
+  const provider = typeof paymentIntentId === 'string' ? findIntentProvider(paymentIntentId) : null;
+
+  if (!provider) {
+    throw new HttpError(400, 'Unknown payment intent');
+  }
+  return provider;
+};
@@ -0,0 +1,469 @@
+import { Order, PaymentAttempt, PaymentAttemptStatus, Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { HttpError } from '../utils/errors';
+import { toMinorUnits } from './currency.service';
+import { transitionOrderStatus, StatusActor } from './order-status.service';
+import { recordOrderEvent } from './order-activity.service';
+import { CheckoutQuote } from './pricing.service';
+import { getIntentProvider, getPaymentProvider, PaymentProvider, ProviderPaymentIntent } from './payment-provider.service';
+import { mockPaymentProvider } from './mock-payment.service';
+
+// Failed payments an order may have before it is cancelled; the stock reservation bounds the time
+const PAYMENT_MAX_FAILED_ATTEMPTS: number = parseInt(process.env.PAYMENT_MAX_FAILED_ATTEMPTS || '3');
+
+// What the client needs to collect payment for a checkout
+export interface CheckoutPayment {
+  provider: string;
+  paymentIntentId: string;
+  clientSecret: string | null;
+}
+
+/**
+ * Metadata that ties an intent to the orders it pays
+ */
+const orderMetadata = (orders: Pick<Order, 'id' | 'orderNumber'>[]): Record<string, string> => ({
+  orderIds: orders.map(order => order.id).join(','),
+  orderNumbers: orders.map(order => order.orderNumber).join(',')
+});
+
+/**
+ * Check an intent the client created before checkout: it must charge exactly the
+ * quoted total and must not already pay another order.
+ */
+export const validateCheckoutPaymentIntent = async (
+  provider: PaymentProvider,
+  paymentIntentId: string,
+  quote: CheckoutQuote
+): Promise<ProviderPaymentIntent> => {
+  if (!paymentIntentId.startsWith(provider.intentPrefix)) {
+    throw new HttpError(400, 'The payment does not belong to the chosen payment method');
+  }
+
+  let paymentIntent: ProviderPaymentIntent;
+  try {
+    paymentIntent = await provider.retrieveIntent(paymentIntentId);
+  } catch (error) {
+    throw new HttpError(400, 'Payment could not be verified');
+  }
+
+  if (paymentIntent.status === 'canceled') {
+    throw new HttpError(409, 'This payment was cancelled, please start a new one');
+  }
+
+  if (paymentIntent.currency !== quote.currency.toLowerCase()
+    || paymentIntent.amount !== toMinorUnits(quote.total, quote.currency)) {
+    throw new HttpError(400, 'The payment amount does not match the order total');
+  }
+
+  const linked = await prisma.order.count({ where: { paymentIntentId } });
+  if (linked > 0) {
+    throw new HttpError(409, 'This payment is already used by another order');
+  }
+
+  return paymentIntent;
+};
+
+/**
+ * Record the orders in the metadata of an intent that already pays them
+ */
+export const tagPaymentIntent = async (paymentIntentId: string, orders: Pick<Order, 'id' | 'orderNumber'>[]): Promise<void> => {
+  try {
+    await getIntentProvider(paymentIntentId).updateIntentMetadata(paymentIntentId, orderMetadata(orders));
+  } catch (error) {
+    // The link on the order is what counts; the metadata only helps in the provider's dashboard
+    console.error(`Could not tag payment intent ${paymentIntentId} with its orders:`, error);
+  }
+};
+
+/**
+ * Create the intent that pays a freshly placed order and store it on the order.
+ * If the provider can't be reached the order is cancelled so its stock goes back on sale.
+ */
+export const startOrderPayment = async (
+  provider: PaymentProvider,
+  order: Pick<Order, 'id' | 'orderNumber' | 'agentId' | 'status'>,
+  quote: CheckoutQuote,
+  receiptEmail?: string | null
+): Promise<CheckoutPayment> => {
+  let paymentIntent: ProviderPaymentIntent;
+  try {
+    paymentIntent = await provider.createIntent({
+      amount: quote.total,
+      currency: quote.currency,
+      metadata: {
+        ...orderMetadata([order]),
+        agentId: order.agentId || '',
+        promoCode: quote.promoCode || ''
+      },
+      receiptEmail
+    });
+  } catch (error) {
+    console.error(`Could not start ${provider.name} payment for order ${order.orderNumber}:`, error);
+    await transitionOrderStatus(order.id, 'CANCELLED', { type: 'SYSTEM' }, {
+      expectedFrom: order.status,
+      note: 'Payment could not be started'
+    });
+    throw new HttpError(502, 'Payment could not be started, please try again');
+  }
+
+  await prisma.order.update({
+    where: { id: order.id },
+    data: {
+      paymentIntentId: paymentIntent.id,
+      // Cash is collected on delivery, so there is nothing to attempt yet
+      paymentAttempts: provider.online
+        ? { create: { provider: provider.name, paymentIntentId: paymentIntent.id, amount: quote.total, currency: quote.currency } }
+        : undefined
+    }
+  });
+
+  return { provider: provider.name, paymentIntentId: paymentIntent.id, clientSecret: paymentIntent.clientSecret };
+};
+
+/**
+ * Record how a try at paying an order with an intent ended. The intent's open attempt
+ * takes the outcome; when there is none, because the buyer tried again with the same
+ * intent, a new attempt is added. Returns false if this try was already recorded.
+ */
+const settlePaymentAttempt = async (
+  order: Pick<Order, 'id' | 'totalPrice' | 'currency'>,
+  paymentIntent: ProviderPaymentIntent,
+  status: PaymentAttemptStatus,
+  failureMessage: string | null = null
+): Promise<boolean> => {
+  const providerAttemptId = paymentIntent.latestAttemptId;
+
+  if (providerAttemptId) {
+    const recorded = await prisma.paymentAttempt.count({ where: { orderId: order.id, providerAttemptId } });
+    if (recorded > 0) {
+      return false;
+    }
+  }
+
+  const open = await prisma.paymentAttempt.findFirst({
+    where: { orderId: order.id, paymentIntentId: paymentIntent.id, status: 'PENDING' },
+    orderBy: { createdAt: 'desc' }
+  });
+
+  try {
+    if (open) {
+      // Conditional update so the webhook and a verify call can't both settle it
+      const result = await prisma.paymentAttempt.updateMany({
+        where: { id: open.id, status: 'PENDING' },
+        data: { status, providerAttemptId, failureMessage }
+      });
+      return result.count > 0;
+    }
+
+    await prisma.paymentAttempt.create({
+      data: {
+        orderId: order.id,
+        provider: getIntentProvider(paymentIntent.id).name,
+        paymentIntentId: paymentIntent.id,
+        providerAttemptId,
+        amount: order.totalPrice,
+        currency: order.currency,
+        status,
+        failureMessage
+      }
+    });
+    return true;
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return false;
+    }
+    throw error;
+  }
+};
+
+/**
+ * Stop an order's intent from being paid and close its open attempts, once the
+ * order no longer waits for payment. The provider call is best effort.
+ */
+export const abandonOrderPayment = async (order: Pick<Order, 'id' | 'paymentIntentId'>): Promise<void> => {
+  if (!order.paymentIntentId) {
+    return;
+  }
+
+  await prisma.paymentAttempt.updateMany({
+    where: { orderId: order.id, paymentIntentId: order.paymentIntentId, status: 'PENDING' },
+    data: { status: 'CANCELED' }
+  });
+
+  const provider = getIntentProvider(order.paymentIntentId);
+  if (!provider.online) {
+    return;
+  }
+
+  try {
+    await provider.cancelIntent(order.paymentIntentId);
+  } catch (error) {
+    // A payment that lands anyway is flagged by confirmPaidOrders
+    console.error(`Could not cancel payment intent ${order.paymentIntentId}:`, error);
+  }
+};
+
+/**
+ * Confirm the orders a succeeded intent pays, and only those. The amount received
+ * must cover their totals. Orders already past PENDING are left alone; a cancelled
+ * order that got paid anyway is flagged in its thread for staff to sort out.
+ * Returns the linked orders as they are afterwards.
+ */
+export const confirmPaidOrders = async (paymentIntent: ProviderPaymentIntent): Promise<Order[]> => {
+  if (paymentIntent.status !== 'succeeded') {
+    throw new HttpError(409, `Payment ${paymentIntent.id} has not succeeded (${paymentIntent.status})`);
+  }
+
+  const orders = await prisma.order.findMany({
+    where: { paymentIntentId: paymentIntent.id },
+    orderBy: { createdAt: 'asc' }
+  });
+
+  // An intent paid before checkout has no order yet; checkout confirms it when the order is placed
+  if (orders.length === 0) {
+    return [];
+  }
+
+  const expected = orders.reduce((sum, order) => sum + toMinorUnits(Number(order.totalPrice), order.currency), 0);
+  if (orders.some(order => order.currency.toLowerCase() !== paymentIntent.currency) || paymentIntent.amountReceived < expected) {
+    throw new HttpError(409, `Payment ${paymentIntent.id} does not cover its orders`, {
+      amountReceived: paymentIntent.amountReceived,
+      amountExpected: expected
+    });
+  }
+
+  for (const order of orders) {
+    await settlePaymentAttempt(order, paymentIntent, 'SUCCEEDED');
+
+    if (order.status === 'CANCELLED') {
+      const flagged = await prisma.orderActivity.count({
+        where: { orderId: order.id, event: 'PAID_AFTER_CANCEL' }
+      });
+      if (flagged === 0) {
+        await recordOrderEvent(
+          prisma,
+          order.id,
+          'PAID_AFTER_CANCEL',
+          `Payment ${paymentIntent.id} succeeded after the order was cancelled; refund it or place the order again`,
+          { type: 'SYSTEM' },
+          { customerVisible: false }
+        );
+      }
+      continue;
+    }
+
+    if (order.status !== 'PENDING') {
+      continue;
+    }
+
+    try {
+      await transitionOrderStatus(order.id, 'CONFIRMED', { type: 'SYSTEM' }, {
+        expectedFrom: 'PENDING',
+        note: `Payment succeeded (${paymentIntent.id})`
+      });
+    } catch (error) {
+      // The webhook and the client's verify call can race; whoever comes second has nothing to do
+      if (!(error instanceof HttpError) || error.statusCode !== 409) {
+        throw error;
+      }
+    }
+  }
+
+  return prisma.order.findMany({
+    where: { paymentIntentId: paymentIntent.id },
+    orderBy: { createdAt: 'asc' }
+  });
+};
+
+/**
+ * Record a failed payment on the orders it was for. An order still waiting for
+ * payment is cancelled once it has failed PAYMENT_MAX_FAILED_ATTEMPTS times, which
+ * releases its stock and blocks its commission.
+ */
+export const recordPaymentFailure = async (paymentIntent: ProviderPaymentIntent): Promise<void> => {
+  const orders = await prisma.order.findMany({
+    where: { paymentIntentId: paymentIntent.id }
+  });
+  const reason = paymentIntent.lastError || 'Payment failed';
+
+  for (const order of orders) {
+    if (!(await settlePaymentAttempt(order, paymentIntent, 'FAILED', reason))) {
+      continue;
+    }
+
+    await recordOrderEvent(prisma, order.id, 'PAYMENT_FAILED', `Payment ${paymentIntent.id} failed: ${reason}`, { type: 'SYSTEM' });
+
+    if (order.status !== 'PENDING') {
+      continue;
+    }
+
+    const failures = await prisma.paymentAttempt.count({ where: { orderId: order.id, status: 'FAILED' } });
+    if (failures < PAYMENT_MAX_FAILED_ATTEMPTS) {
+      continue;
+    }
+
+    try {
+      await transitionOrderStatus(order.id, 'CANCELLED', { type: 'SYSTEM' }, {
+        expectedFrom: 'PENDING',
+        note: `Payment failed ${failures} times`
+      });
+    } catch (error) {
+      // Paid or cancelled in the meantime
+      if (!(error instanceof HttpError) || error.statusCode !== 409) {
+        throw error;
+      }
+      continue;
+    }
+
+    await abandonOrderPayment(order);
+    console.log(`Order ${order.orderNumber} cancelled after ${failures} failed payments`);
+  }
+};
+
+/**
+ * Start a new payment for an order whose payment failed. The current intent is
+ * cancelled first so the order can't be paid twice. The order keeps its stock
+ * reservation, so retries end when it runs out.
+ */
+export const retryOrderPayment = async (
+  orderId: string,
+  actor: StatusActor
+): Promise<{ order: Order; payment: CheckoutPayment }> => {
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    include: { customer: { select: { email: true } } }
+  });
+
+  if (!order) {
+    throw new HttpError(404, 'Order not found');
+  }
+
+  if (order.status !== 'PENDING') {
+    throw new HttpError(409, order.status === 'CANCELLED'
+      ? 'This order was cancelled, please place it again'
+      : 'This order does not need payment');
+  }
+
+  if (order.reservationExpiresAt && order.reservationExpiresAt <= new Date()) {
+    throw new HttpError(409, 'The time to pay for this order has run out');
+  }
+
+  let provider = getPaymentProvider(order.paymentMethod);
+
+  if (order.paymentIntentId) {
+    provider = getIntentProvider(order.paymentIntentId);
+    const current = await provider.retrieveIntent(order.paymentIntentId);
+
+    if (current.status === 'succeeded') {
+      await confirmPaidOrders(current);
+      throw new HttpError(409, 'This order has already been paid');
+    }
+    if (current.status === 'processing' || current.status === 'requires_capture') {
+      throw new HttpError(409, 'A payment for this order is still being processed');
+    }
+    if (current.status !== 'canceled') {
+      await provider.cancelIntent(current.id);
+    }
+    await prisma.paymentAttempt.updateMany({
+      where: { orderId: order.id, paymentIntentId: current.id, status: 'PENDING' },
+      data: { status: 'CANCELED' }
+    });
+  }
+
+  if (!provider.online) {
+    throw new HttpError(409, 'This order is not paid online');
+  }
+
+  const paymentIntent = await provider.createIntent({
+    amount: Number(order.totalPrice),
+    currency: order.currency,
+    metadata: { ...orderMetadata([order]), agentId: order.agentId || '' },
+    receiptEmail: order.customer.email
+  });
+
+  // Conditional update so two retries at once can't both replace the intent
+  const result = await prisma.order.updateMany({
+    where: { id: order.id, status: 'PENDING', paymentIntentId: order.paymentIntentId },
+    data: { paymentIntentId: paymentIntent.id }
+  });
+
+  if (result.count === 0) {
+    await provider.cancelIntent(paymentIntent.id).catch(error => {
+      console.error(`Could not cancel payment intent ${paymentIntent.id}:`, error);
+    });
+    throw new HttpError(409, 'Order was changed by another request, please retry');
+  }
+
+  await prisma.paymentAttempt.create({
+    data: {
+      orderId: order.id,
+      provider: provider.name,
+      paymentIntentId: paymentIntent.id,
+      amount: order.totalPrice,
+      currency: order.currency
+    }
+  });
+  await recordOrderEvent(prisma, order.id, 'PAYMENT_RETRIED', 'A new payment was started', actor);
+
+  return {
+    order: { ...order, paymentIntentId: paymentIntent.id },
+    payment: { provider: provider.name, paymentIntentId: paymentIntent.id, clientSecret: paymentIntent.clientSecret }
+  };
+};
+
+/**
+ * An order's payment attempts, oldest first
+ */
+export const getPaymentAttempts = async (orderId: string): Promise<PaymentAttempt[]> => {
+  return prisma.paymentAttempt.findMany({
+    where: { orderId },
+    orderBy: { createdAt: 'asc' }
+  });
+};
+
+/**
+ * Failed attempts so far and how many the order may still have
+ */
+export const paymentFailureAllowance = (attempts: PaymentAttempt[]) => {
+  const failed = attempts.filter(attempt => attempt.status === 'FAILED').length;
+  return { failedAttempts: failed, attemptsRemaining: Math.max(PAYMENT_MAX_FAILED_ATTEMPTS - failed, 0) };
+};
+
+export const formatPaymentAttempt = (attempt: PaymentAttempt) => ({
+  id: attempt.id,
+  provider: attempt.provider,
+  paymentIntentId: attempt.paymentIntentId,
+  amount: Number(attempt.amount),
+  currency: attempt.currency,
+  status: attempt.status,
+  failureMessage: attempt.failureMessage || undefined,
+  createdAt: attempt.createdAt.toISOString(),
+  updatedAt: attempt.updatedAt.toISOString()
+});
+
+/**
+ * Pay a mock intent from the server, which is how mock payments are completed, and
+ * confirm its orders if the payment went through. Intents of real providers are paid
+ * by the buyer, never from here.
+ */
+export const confirmPayment = async (
+  paymentIntentId: string,
+  paymentMethod?: string
+): Promise<{ paymentIntent: ProviderPaymentIntent; orders: Order[] }> => {
+  const provider = getIntentProvider(paymentIntentId);
+
+  if (provider !== mockPaymentProvider) {
+    throw new HttpError(400, 'Only mock payments can be confirmed from the server');
+  }
+
+  const paymentIntent = await provider.confirmIntent(paymentIntentId, paymentMethod);
+
+  if (paymentIntent.status === 'succeeded') {
+    return { paymentIntent, orders: await confirmPaidOrders(paymentIntent) };
+  }
+
+  if (paymentIntent.lastError) {
+    await recordPaymentFailure(paymentIntent);
+  }
+  return { paymentIntent, orders: [] };
+};
@@ -0,0 +1,305 @@
+import { DiscountType, Product } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { HttpError } from '../utils/errors';
+import { roundMoney } from '../utils/money';
+import { resolveCurrency } from './currency.service';
+import { loadTaxRates, resolveLineTax, taxOnAmount, PRICES_INCLUDE_TAX, TaxDestination } from './tax.service';
+import { getShippingOptions, chooseShippingOption, parcelWeight, formatShippingOption, ShippingOption } from './shipping.service';
+
+// Client totals may differ from the server quote by at most one cent
+const TOTAL_TOLERANCE = 0.01;
+
+export interface QuoteItemInput {
+  productId: string;
+  quantity: number;
+}
+
+export interface QuoteLine {
+  product: Product;
+  productId: string;
+  name: string;
+  quantity: number;
+  unitPrice: number;
+  lineTotal: number;
+  discount: number;
+  // Tax percentage and amount on the discounted line
+  taxRate: number;
+  taxAmount: number;
+  taxRateId: string | null;
+  taxJurisdiction: string | null;
+  commissionPercentage: number;
+}
+
+// A validated promo code, reduced to what pricing needs
+export interface PromotionRule {
+  code: string;
+  discountType: DiscountType;
+  value: number;
+  minimumOrderValue: number | null;
+  // Empty lists mean the code applies to every product
+  productIds: string[];
+  categories: string[];
+}
+
+export interface QuoteOptions {
+  promotion?: PromotionRule | null;
+  // ISO code; the base currency when omitted
+  currency?: string | null;
+  // Without a destination only the default tax rate applies
+  destination?: TaxDestination | null;
+  // The cheapest available method when omitted
+  shippingMethodId?: string | null;
+}
+
+export interface CheckoutQuote {
+  lines: QuoteLine[];
+  promoCode: string | null;
+  currency: string;
+  // Units of `currency` per unit of the base currency
+  exchangeRate: number;
+  // Whether `tax` is already part of the line totals rather than added on top
+  pricesIncludeTax: boolean;
+  subtotal: number;
+  discount: number;
+  tax: number;
+  shipping: number;
+  // Null until the destination is known, if shipping zones are set up
+  shippingMethod: ShippingOption | null;
+  // Every method available for the destination
+  shippingOptions: ShippingOption[];
+  total: number;
+}
+
+export interface ClientTotals {
+  items?: { productId: string; price?: number | string }[];
+  subtotal?: number | string | null;
+  discount?: number | string | null;
+  tax?: number | string | null;
+  shipping?: number | string | null;
+  totalAmount?: number | string | null;
+}
+
+/**
+ * Promo code amounts are set in the base currency; express them in the checkout currency
+ */
+const convertPromotion = (promotion: PromotionRule, rate: number): PromotionRule => ({
+  ...promotion,
+  value: promotion.discountType === 'FIXED_AMOUNT' ? roundMoney(promotion.value * rate) : promotion.value,
+  minimumOrderValue: promotion.minimumOrderValue === null ? null : roundMoney(promotion.minimumOrderValue * rate)
+});
+
+const isEligibleLine = (line: QuoteLine, promotion: PromotionRule): boolean => {
+  if (promotion.productIds.length === 0 && promotion.categories.length === 0) {
+    return true;
+  }
+  return promotion.productIds.includes(line.productId)
+    || (!!line.product.category && promotion.categories.includes(line.product.category));
+};
+
+/**
+ * Spread a promotion's discount over the lines it applies to, in place.
+ * Fixed amounts are split in proportion to line totals, with the rounding
+ * remainder on the last eligible line.
+ */
+const applyPromotion = (lines: QuoteLine[], promotion: PromotionRule): void => {
+  const subtotal = roundMoney(lines.reduce((sum, line) => sum + line.lineTotal, 0));
+
+  if (promotion.minimumOrderValue !== null && subtotal < promotion.minimumOrderValue) {
+    throw new HttpError(400, `Promo code ${promotion.code} requires a minimum order of ${promotion.minimumOrderValue.toFixed(2)}`);
+  }
+
+  const eligible = lines.filter(line => isEligibleLine(line, promotion));
+  if (eligible.length === 0) {
+    throw new HttpError(400, `Promo code ${promotion.code} does not apply to any item in this order`);
+  }
+
+  if (promotion.discountType === 'PERCENTAGE') {
+    const rate = Math.min(promotion.value, 100) / 100;
+    for (const line of eligible) {
+      line.discount = roundMoney(line.lineTotal * rate);
+    }
+    return;
+  }
+
+  const eligibleSubtotal = roundMoney(eligible.reduce((sum, line) => sum + line.lineTotal, 0));
+  const totalDiscount = roundMoney(Math.min(promotion.value, eligibleSubtotal));
+  let allocated = 0;
+
+  eligible.forEach((line, index) => {
+    line.discount = index === eligible.length - 1
+      ? roundMoney(totalDiscount - allocated)
+      : roundMoney(totalDiscount * line.lineTotal / eligibleSubtotal);
+    allocated = roundMoney(allocated + line.discount);
+  });
+};
+
+/**
+ * Work out the checkout totals from the Product rows, less any promotion, with tax
+ * and shipping for the destination. Prices sent by the client are never used here. In another
+ * currency a product's own price for that currency is used, or else its base price
+ * at the stored rate.
+ */
+export const quoteCheckout = async (items: QuoteItemInput[], options: QuoteOptions = {}): Promise<CheckoutQuote> => {
+  const { promotion, currency, destination, shippingMethodId } = options;
+
+  if (!items || !Array.isArray(items) || items.length === 0) {
+    throw new HttpError(400, 'Order items are required');
+  }
+
+  for (const item of items) {
+    if (!item || !item.productId || !Number.isInteger(item.quantity) || item.quantity <= 0) {
+      throw new HttpError(400, 'Each item must have a productId and a positive whole quantity');
+    }
+  }
+
+  const { currency: code, rate } = await resolveCurrency(currency);
+
+  const productIds = [...new Set(items.map(item => String(item.productId)))];
+  const products = await prisma.product.findMany({
+    where: { id: { in: productIds } },
+    include: { prices: { where: { currency: code } } }
+  });
+  const productsById = new Map(products.map(product => [product.id, product]));
+
+  const lines: QuoteLine[] = items.map(item => {
+    const product = productsById.get(String(item.productId));
+
+    if (!product || !product.isActive) {
+      throw new HttpError(404, `Product with ID ${item.productId} not found`);
+    }
+
+    const unitPrice = product.prices.length > 0
+      ? roundMoney(Number(product.prices[0].amount))
+      : roundMoney(Number(product.price) * rate);
+
+    return {
+      product,
+      productId: product.id,
+      name: product.name,
+      quantity: item.quantity,
+      unitPrice,
+      lineTotal: roundMoney(unitPrice * item.quantity),
+      discount: 0,
+      taxRate: 0,
+      taxAmount: 0,
+      taxRateId: null,
+      taxJurisdiction: null,
+      commissionPercentage: Number(product.commissionPercentage)
+    };
+  });
+
+  if (promotion) {
+    applyPromotion(lines, convertPromotion(promotion, rate));
+  }
+
+  const taxRates = destination ? await loadTaxRates(destination) : [];
+  for (const line of lines) {
+    const lineTax = resolveLineTax(taxRates, destination || { country: null, state: null, postalCode: null }, line.product);
+    line.taxRate = lineTax.rate;
+    line.taxRateId = lineTax.taxRateId;
+    line.taxJurisdiction = lineTax.jurisdiction;
+    line.taxAmount = roundMoney(taxOnAmount(netLineTotal(line), lineTax.rate));
+  }
+
+  const subtotal = roundMoney(lines.reduce((sum, line) => sum + line.lineTotal, 0));
+  const discount = roundMoney(lines.reduce((sum, line) => sum + line.discount, 0));
+  const discountedSubtotal = roundMoney(subtotal - discount);
+  const tax = roundMoney(lines.reduce((sum, line) => sum + line.taxAmount, 0));
+  const shippingOptions = await getShippingOptions(destination, { weight: parcelWeight(lines), subtotal: discountedSubtotal }, rate);
+  const shippingMethod = chooseShippingOption(shippingOptions, shippingMethodId);
+  const shipping = shippingMethod ? shippingMethod.cost : 0;
+  const total = roundMoney(discountedSubtotal + (PRICES_INCLUDE_TAX ? 0 : tax) + shipping);
+
+  return {
+    lines,
+    promoCode: promotion ? promotion.code : null,
+    currency: code,
+    exchangeRate: rate,
+    pricesIncludeTax: PRICES_INCLUDE_TAX,
+    subtotal,
+    discount,
+    tax,
+    shipping,
+    shippingMethod,
+    shippingOptions: shippingOptions || [],
+    total
+  };
+};
+
+/**
+ * Net amount of a quote line after its share of the discount
+ */
+export const netLineTotal = (line: QuoteLine): number => {
+  return roundMoney(line.lineTotal - line.discount);
+};
+
+/**
+ * Agent commission earned on a quote line, based on the net line amount without tax
+ */
+export const lineCommission = (line: QuoteLine): number => {
+  const taxIncluded = PRICES_INCLUDE_TAX ? line.taxAmount : 0;
+  return roundMoney((netLineTotal(line) - taxIncluded) * line.commissionPercentage / 100);
+};
+
+/**
+ * Reject a checkout whose client-side figures differ from the server quote.
+ * Only the figures the client actually sent are compared.
+ */
+export const assertClientTotals = (quote: CheckoutQuote, client: ClientTotals): void => {
+  const mismatches: string[] = [];
+
+  const differs = (clientValue: number | string | null | undefined, serverValue: number): boolean => {
+    if (clientValue === undefined || clientValue === null || clientValue === '') {
+      return false;
+    }
+    const parsed = parseFloat(String(clientValue));
+    return Number.isNaN(parsed) || Math.abs(parsed - serverValue) > TOTAL_TOLERANCE;
+  };
+
+  if (client.items) {
+    client.items.forEach((item, index) => {
+      const line = quote.lines[index];
+      if (line && line.productId === item.productId && differs(item.price, line.unitPrice)) {
+        mismatches.push(`price of ${line.name}`);
+      }
+    });
+  }
+
+  if (differs(client.subtotal, quote.subtotal)) mismatches.push('subtotal');
+  if (differs(client.discount, quote.discount)) mismatches.push('discount');
+  if (differs(client.tax, quote.tax)) mismatches.push('tax');
+  if (differs(client.shipping, quote.shipping)) mismatches.push('shipping');
+  if (differs(client.totalAmount, quote.total)) mismatches.push('total');
+
+  if (mismatches.length > 0) {
+    throw new HttpError(400, `Checkout totals do not match the server quote (${mismatches.join(', ')})`, {
+      quote: serializeQuote(quote)
+    });
+  }
+};
+
+/**
+ * Format a quote for JSON responses
+ */
+export const serializeQuote = (quote: CheckoutQuote) => ({
+  lines: quote.lines.map(line => ({
+    productId: line.productId,
+    name: line.name,
+    quantity: line.quantity,
+    unitPrice: line.unitPrice,
+    lineTotal: line.lineTotal,
+    discount: line.discount,
+    taxRate: line.taxRate,
+    taxAmount: line.taxAmount
+  })),
+  promoCode: quote.promoCode || undefined,
+  currency: quote.currency,
+  pricesIncludeTax: quote.pricesIncludeTax,
+  subtotal: quote.subtotal,
+  discount: quote.discount,
+  tax: quote.tax,
+  shipping: quote.shipping,
+  shippingMethod: quote.shippingMethod ? formatShippingOption(quote.shippingMethod) : undefined,
+  shippingMethods: quote.shippingOptions.map(option => formatShippingOption(option)),
+  total: quote.total
+});
@@ -0,0 +1,316 @@
+import { DiscountType, Prisma, PromoCode } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { HttpError } from '../utils/errors';
+import { roundMoney } from '../utils/money';
+import { PromotionRule } from './pricing.service';
+import { StatusActor } from './order-status.service';
+
+const DISCOUNT_TYPES: DiscountType[] = ['PERCENTAGE', 'FIXED_AMOUNT'];
+const PROMO_CODE_PATTERN = /^[A-Z0-9_-]{3,50}$/;
+// Largest percentage discount an agent may put on their own coupon codes
+const AGENT_COUPON_MAX_PERCENT: number = parseFloat(process.env.AGENT_COUPON_MAX_PERCENT || '20');
+
+export interface PromoCodeInput {
+  code?: string;
+  description?: string | null;
+  discountType?: DiscountType;
+  value?: number | string;
+  minimumOrderValue?: number | string | null;
+  productIds?: string[];
+  categories?: string[];
+  usageLimit?: number | null;
+  perCustomerLimit?: number | null;
+  startsAt?: string | null;
+  endsAt?: string | null;
+  isActive?: boolean;
+  // Agent credited with sales made with the code
+  agentId?: string | null;
+}
+
+/**
+ * Normalize a promo code typed by a customer or admin
+ */
+export const normalizePromoCode = (code: string): string => {
+  return String(code).trim().toUpperCase();
+};
+
+/**
+ * Look up a promo code and check it can be used right now.
+ * Per-customer limits are checked when the order is placed, once the customer is known.
+ */
+export const findApplicablePromoCode = async (code: string, now: Date = new Date()): Promise<PromoCode> => {
+  const normalized = normalizePromoCode(code);
+  const promoCode = await prisma.promoCode.findUnique({
+    where: { code: normalized },
+    include: { agent: { select: { role: true, isActive: true } } }
+  });
+
+  // An agent's coupon stops working when the agent is deactivated
+  const agentInactive = !!promoCode?.agentId && (!promoCode.agent || promoCode.agent.role !== 'AGENT' || !promoCode.agent.isActive);
+
+  if (!promoCode || !promoCode.isActive || agentInactive) {
+    throw new HttpError(400, `Promo code ${normalized} is not valid`);
+  }
+
+  if (promoCode.startsAt && promoCode.startsAt > now) {
+    throw new HttpError(400, `Promo code ${normalized} is not active yet`);
+  }
+
+  if (promoCode.endsAt && promoCode.endsAt <= now) {
+    throw new HttpError(400, `Promo code ${normalized} has expired`);
+  }
+
+  if (promoCode.usageLimit !== null && promoCode.usageCount >= promoCode.usageLimit) {
+    throw new HttpError(400, `Promo code ${normalized} has reached its usage limit`);
+  }
+
+  return promoCode;
+};
+
+export const toPromotionRule = (promoCode: PromoCode): PromotionRule => ({
+  code: promoCode.code,
+  discountType: promoCode.discountType,
+  value: Number(promoCode.value),
+  minimumOrderValue: promoCode.minimumOrderValue === null ? null : Number(promoCode.minimumOrderValue),
+  productIds: promoCode.productIds,
+  categories: promoCode.categories
+});
+
+/**
+ * Count a use of the code against its limits and link it to the order.
+ * The usage counter is raised with a conditional update so the last use can't be taken twice.
+ * That update also locks the code's row until the transaction ends, so the customer's
+ * uses are counted after any concurrent redemption of the same code has committed.
+ */
+export const redeemPromoCode = async (
+  tx: Prisma.TransactionClient,
+  promoCode: PromoCode,
+  customerId: string,
+  orderId: string,
+  amount: number
+): Promise<void> => {
+  const result = await tx.promoCode.updateMany({
+    where: {
+      id: promoCode.id,
+      ...(promoCode.usageLimit !== null ? { usageCount: { lt: promoCode.usageLimit } } : {})
+    },
+    data: { usageCount: { increment: 1 } }
+  });
+
+  if (result.count === 0) {
+    throw new HttpError(400, `Promo code ${promoCode.code} has reached its usage limit`);
+  }
+
+  if (promoCode.perCustomerLimit !== null) {
+    const used = await tx.promoRedemption.count({
+      where: { promoCodeId: promoCode.id, customerId }
+    });
+
+    if (used >= promoCode.perCustomerLimit) {
+      throw new HttpError(400, `Promo code ${promoCode.code} has already been used the maximum number of times`);
+    }
+  }
+
+  await tx.promoRedemption.create({
+    data: {
+      promoCodeId: promoCode.id,
+      customerId,
+      orderId,
+      amount: roundMoney(amount)
+    }
+  });
+};
+
+/**
+ * Give back the use of a promo code when its order is cancelled
+ */
+export const releasePromoRedemption = async (tx: Prisma.TransactionClient, orderId: string): Promise<void> => {
+  const redemption = await tx.promoRedemption.findUnique({
+    where: { orderId }
+  });
+
+  if (!redemption) {
+    return;
+  }
+
+  await tx.promoRedemption.delete({ where: { id: redemption.id } });
+  await tx.promoCode.updateMany({
+    where: { id: redemption.promoCodeId, usageCount: { gt: 0 } },
+    data: { usageCount: { decrement: 1 } }
+  });
+};
+
+const parseOptionalDate = (value: string | null | undefined, field: string): Date | null | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (value === null || value === '') {
+    return null;
+  }
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new HttpError(400, `Invalid ${field} date`);
+  }
+  return date;
+};
+
+const parseOptionalLimit = (value: number | null | undefined, field: string): number | null | undefined => {
+  if (value === undefined || value === null) {
+    return value;
+  }
+  if (!Number.isInteger(value) || value <= 0) {
+    throw new HttpError(400, `${field} must be a positive whole number`);
+  }
+  return value;
+};
+
+/**
+ * Validate admin input into the fields to write. With `existing`, only the given fields are checked and returned.
+ */
+const buildPromoCodeData = (input: PromoCodeInput, existing?: PromoCode): Prisma.PromoCodeUncheckedCreateInput => {
+  const code = input.code !== undefined ? normalizePromoCode(input.code) : existing?.code;
+  if (!code || !PROMO_CODE_PATTERN.test(code)) {
+    throw new HttpError(400, 'Code must be 3-50 letters, digits, dashes or underscores');
+  }
+
+  const discountType = input.discountType ?? existing?.discountType;
+  if (!discountType || !DISCOUNT_TYPES.includes(discountType)) {
+    throw new HttpError(400, `Discount type must be one of: ${DISCOUNT_TYPES.join(', ')}`);
+  }
+
+  const value = input.value !== undefined ? parseFloat(String(input.value)) : Number(existing?.value);
+  if (!Number.isFinite(value) || value <= 0) {
+    throw new HttpError(400, 'Discount value must be a positive number');
+  }
+  if (discountType === 'PERCENTAGE' && value > 100) {
+    throw new HttpError(400, 'A percentage discount cannot exceed 100');
+  }
+
+  let minimumOrderValue: number | null | undefined = undefined;
+  if (input.minimumOrderValue !== undefined) {
+    minimumOrderValue = input.minimumOrderValue === null || input.minimumOrderValue === ''
+      ? null
+      : parseFloat(String(input.minimumOrderValue));
+    if (minimumOrderValue !== null && (!Number.isFinite(minimumOrderValue) || minimumOrderValue < 0)) {
+      throw new HttpError(400, 'Minimum order value must be zero or more');
+    }
+  }
+
+  if (input.productIds !== undefined && (!Array.isArray(input.productIds) || input.productIds.some(id => typeof id !== 'string'))) {
+    throw new HttpError(400, 'Product IDs must be an array of strings');
+  }
+  if (input.categories !== undefined && (!Array.isArray(input.categories) || input.categories.some(c => typeof c !== 'string'))) {
+    throw new HttpError(400, 'Categories must be an array of strings');
+  }
+
+  const startsAt = parseOptionalDate(input.startsAt, 'start');
+  const endsAt = parseOptionalDate(input.endsAt, 'end');
+  const effectiveStart = startsAt !== undefined ? startsAt : existing?.startsAt;
+  const effectiveEnd = endsAt !== undefined ? endsAt : existing?.endsAt;
+  if (effectiveStart && effectiveEnd && effectiveEnd <= effectiveStart) {
+    throw new HttpError(400, 'End date must be after the start date');
+  }
+
+  return {
+    code,
+    description: input.description,
+    discountType,
+    value,
+    minimumOrderValue,
+    productIds: input.productIds,
+    categories: input.categories,
+    usageLimit: parseOptionalLimit(input.usageLimit, 'Usage limit'),
+    perCustomerLimit: parseOptionalLimit(input.perCustomerLimit, 'Per-customer limit'),
+    startsAt,
+    endsAt,
+    isActive: input.isActive,
+    agentId: input.agentId === '' ? null : input.agentId
+  };
+};
+
+/**
+ * Codes can only be tied to active agents
+ */
+const assertCouponAgent = async (agentId: string | null | undefined): Promise<void> => {
+  if (!agentId) {
+    return;
+  }
+
+  const agent = await prisma.user.findUnique({ where: { id: agentId } });
+  if (!agent || agent.role !== 'AGENT' || !agent.isActive) {
+    throw new HttpError(400, 'Coupon agent not found or inactive');
+  }
+};
+
+/**
+ * Agents manage only their own coupons, within the discount they are allowed to give
+ */
+const restrictAgentInput = (input: PromoCodeInput, actor: StatusActor, existing?: PromoCode): PromoCodeInput => {
+  if (actor.type !== 'AGENT') {
+    return input;
+  }
+
+  if (existing && existing.agentId !== actor.id) {
+    throw new HttpError(404, 'Promo code not found');
+  }
+
+  const discountType = input.discountType ?? existing?.discountType ?? 'PERCENTAGE';
+  const value = input.value !== undefined ? parseFloat(String(input.value)) : Number(existing?.value);
+
+  if (discountType !== 'PERCENTAGE' || value > AGENT_COUPON_MAX_PERCENT) {
+    throw new HttpError(400, `Agent coupons can give at most ${AGENT_COUPON_MAX_PERCENT}% off`);
+  }
+
+  return { ...input, discountType, agentId: actor.id };
+};
+
+const handleUniqueCode = (error: unknown): never => {
+  if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+    throw new HttpError(400, 'A promo code with this code already exists');
+  }
+  throw error;
+};
+
+export const createPromoCode = async (input: PromoCodeInput, actor: StatusActor): Promise<PromoCode> => {
+  const restricted = restrictAgentInput(input, actor);
+  await assertCouponAgent(restricted.agentId);
+
+  const data = { ...buildPromoCodeData(restricted), createdById: actor.id || null };
+  return prisma.promoCode.create({ data }).catch(handleUniqueCode);
+};
+
+export const updatePromoCode = async (id: string, input: PromoCodeInput, actor: StatusActor): Promise<PromoCode> => {
+  const existing = await prisma.promoCode.findUnique({ where: { id } });
+
+  if (!existing) {
+    throw new HttpError(404, 'Promo code not found');
+  }
+
+  const restricted = restrictAgentInput(input, actor, existing);
+  await assertCouponAgent(restricted.agentId);
+
+  const data = buildPromoCodeData(restricted, existing);
+  return prisma.promoCode.update({ where: { id }, data }).catch(handleUniqueCode);
+};
+
+/**
+ * Format a promo code for JSON responses
+ */
+export const formatPromoCode = (promoCode: PromoCode) => ({
+  id: promoCode.id,
+  code: promoCode.code,
+  description: promoCode.description || undefined,
+  discountType: promoCode.discountType,
+  value: Number(promoCode.value),
+  minimumOrderValue: promoCode.minimumOrderValue === null ? undefined : Number(promoCode.minimumOrderValue),
+  productIds: promoCode.productIds,
+  categories: promoCode.categories,
+  usageLimit: promoCode.usageLimit ?? undefined,
+  perCustomerLimit: promoCode.perCustomerLimit ?? undefined,
+  usageCount: promoCode.usageCount,
+  startsAt: promoCode.startsAt ? promoCode.startsAt.toISOString() : undefined,
+  endsAt: promoCode.endsAt ? promoCode.endsAt.toISOString() : undefined,
+  isActive: promoCode.isActive,
+  agentId: promoCode.agentId || undefined,
+  createdAt: promoCode.createdAt.toISOString()
+});
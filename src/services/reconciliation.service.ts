@@ -0,0 +1,512 @@
+import { OrderStatus, Prisma, ReconciliationRun, ReconciliationTrigger } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { HttpError } from '../utils/errors';
+import { fromMinorUnits, toMinorUnits } from './currency.service';
+import {
+  getOnlinePaymentProviders,
+  getPaymentProvider,
+  getProviderByName,
+  ProviderBalanceTransaction
+} from './payment-provider.service';
+
+// Payments can settle a while after the order is placed, so transactions this close to the period still match
+const MATCH_WINDOW_HOURS = 24;
+// Longest period one run may cover
+const MAX_RECONCILIATION_DAYS = 93;
+// How often the scheduled job looks for a day to reconcile; 0 turns the job off
+const RECONCILIATION_CHECK_INTERVAL_MINUTES: number = parseInt(process.env.RECONCILIATION_CHECK_INTERVAL_MINUTES || '60');
+
+// Order statuses that mean the order was paid
+const PAID_ORDER_STATUSES: OrderStatus[] = ['CONFIRMED', 'SHIPPED', 'DELIVERED', 'REFUNDED'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ReconciliationEntryType =
+  | 'MATCHED'
+  // The provider charged a payment no order is linked to
+  | 'CHARGE_WITHOUT_ORDER'
+  // The provider charged a payment whose order is still pending or was cancelled
+  | 'CHARGED_UNCONFIRMED_ORDER'
+  // An order was confirmed but the provider has no charge for it
+  | 'UNPAID_ORDER'
+  | 'AMOUNT_MISMATCH'
+  | 'REFUND_MISMATCH';
+
+// One payment or order compared. Amounts are in major units of `currency`.
+export interface ReconciliationEntry {
+  type: ReconciliationEntryType;
+  paymentIntentId: string | null;
+  orderNumbers: string[];
+  orderStatuses: OrderStatus[];
+  currency: string;
+  orderAmount: number | null;
+  chargedAmount: number | null;
+  orderRefundedAmount: number | null;
+  providerRefundedAmount: number | null;
+  fee: number;
+  net: number;
+  transactionIds: string[];
+  // When the charge was made, or the order placed if there is no charge
+  occurredAt: string;
+  note: string | null;
+}
+
+export interface ReconciliationSummary {
+  // Balance movements in the period, per balance currency
+  currencies: {
+    currency: string;
+    charges: number;
+    grossCharged: number;
+    refunded: number;
+    fees: number;
+    net: number;
+  }[];
+  paymentsChecked: number;
+  mismatchCount: number;
+  mismatches: Partial<Record<ReconciliationEntryType, number>>;
+}
+
+type ReconciledOrder = Prisma.OrderGetPayload<{
+  select: {
+    id: true;
+    orderNumber: true;
+    status: true;
+    totalPrice: true;
+    refundedAmount: true;
+    currency: true;
+    paymentIntentId: true;
+    paymentMethod: true;
+    createdAt: true;
+  };
+}>;
+
+const sum = (values: number[]): number => values.reduce((total, value) => total + value, 0);
+
+const isPaid = (order: ReconciledOrder): boolean => PAID_ORDER_STATUSES.includes(order.status);
+
+/**
+ * Totals per balance currency for the transactions made in the period
+ */
+const summarizeTransactions = (transactions: ProviderBalanceTransaction[]): ReconciliationSummary['currencies'] => {
+  const currencies = [...new Set(transactions.map(transaction => transaction.currency))].sort();
+
+  return currencies.map(currency => {
+    const inCurrency = transactions.filter(transaction => transaction.currency === currency);
+    const charges = inCurrency.filter(transaction => transaction.kind === 'charge');
+    const refunds = inCurrency.filter(transaction => transaction.kind === 'refund');
+
+    return {
+      currency: currency.toUpperCase(),
+      charges: charges.length,
+      grossCharged: fromMinorUnits(sum(charges.map(transaction => transaction.amount)), currency),
+      refunded: fromMinorUnits(-sum(refunds.map(transaction => transaction.amount)), currency),
+      fees: fromMinorUnits(sum(inCurrency.map(transaction => transaction.fee)), currency),
+      net: fromMinorUnits(sum(inCurrency.map(transaction => transaction.net)), currency)
+    };
+  });
+};
+
+/**
+ * Compare one charged payment intent with the orders linked to it
+ */
+const comparePayment = (
+  paymentIntentId: string,
+  transactions: ProviderBalanceTransaction[],
+  orders: ReconciledOrder[]
+): ReconciliationEntry => {
+  const charges = transactions.filter(transaction => transaction.kind === 'charge');
+  const refunds = transactions.filter(transaction => transaction.kind === 'refund');
+  const currency = charges[0].currency;
+  const charged = sum(charges.map(transaction => transaction.amount));
+  const refunded = -sum(refunds.map(transaction => transaction.amount));
+  const orderAmount = sum(orders.map(order => toMinorUnits(Number(order.totalPrice), currency)));
+  const orderRefunded = sum(orders.map(order => toMinorUnits(Number(order.refundedAmount), currency)));
+
+  const entry: ReconciliationEntry = {
+    type: 'MATCHED',
+    paymentIntentId,
+    orderNumbers: orders.map(order => order.orderNumber),
+    orderStatuses: orders.map(order => order.status),
+    currency: currency.toUpperCase(),
+    orderAmount: orders.length > 0 ? fromMinorUnits(orderAmount, currency) : null,
+    chargedAmount: fromMinorUnits(charged, currency),
+    orderRefundedAmount: orders.length > 0 ? fromMinorUnits(orderRefunded, currency) : null,
+    providerRefundedAmount: fromMinorUnits(refunded, currency),
+    fee: fromMinorUnits(sum(transactions.map(transaction => transaction.fee)), currency),
+    net: fromMinorUnits(sum(transactions.map(transaction => transaction.net)), currency),
+    transactionIds: transactions.map(transaction => transaction.id),
+    occurredAt: charges[0].createdAt.toISOString(),
+    note: null
+  };
+
+  if (orders.length === 0) {
+    return { ...entry, type: 'CHARGE_WITHOUT_ORDER', note: 'No order is linked to this payment' };
+  }
+
+  if (!orders.some(isPaid)) {
+    return { ...entry, type: 'CHARGED_UNCONFIRMED_ORDER', note: `Order is ${orders.map(order => order.status).join(', ')}` };
+  }
+
+  const orderCurrencies = [...new Set(orders.map(order => order.currency.toLowerCase()))];
+  if (orderCurrencies.length !== 1 || orderCurrencies[0] !== currency) {
+    return {
+      ...entry,
+      type: 'AMOUNT_MISMATCH',
+      note: `Settled in ${currency.toUpperCase()}, order placed in ${orderCurrencies.join(', ').toUpperCase()}`
+    };
+  }
+
+  if (charged !== orderAmount) {
+    return { ...entry, type: 'AMOUNT_MISMATCH', note: 'Amount charged differs from the order total' };
+  }
+
+  if (refunded !== orderRefunded) {
+    return { ...entry, type: 'REFUND_MISMATCH', note: 'Amount refunded by the provider differs from the order' };
+  }
+
+  return entry;
+};
+
+/**
+ * Compare a provider's balance transactions with the orders for [from, to).
+ * Payments are matched to orders by payment intent, the order's current one or one
+ * on its payment attempts that a retry replaced; a payment belongs to the period
+ * its charge was made in, an order to the period it was placed in. Refunds are
+ * counted up to MATCH_WINDOW_HOURS after the period.
+ */
+export const reconcilePayments = async (
+  providerName: string,
+  from: Date,
+  to: Date
+): Promise<{ summary: ReconciliationSummary; entries: ReconciliationEntry[] }> => {
+  const provider = getProviderByName(providerName);
+
+  if (!provider.online) {
+    throw new HttpError(400, `${provider.name} payments have no provider records to reconcile`);
+  }
+
+  const windowMs = MATCH_WINDOW_HOURS * 60 * 60 * 1000;
+  const transactions = await provider.listBalanceTransactions(
+    new Date(from.getTime() - windowMs),
+    new Date(to.getTime() + windowMs)
+  );
+  const inPeriod = (date: Date): boolean => date >= from && date < to;
+
+  const payments = new Map<string, ProviderBalanceTransaction[]>();
+  for (const transaction of transactions) {
+    if (transaction.paymentIntentId && transaction.kind !== 'other') {
+      payments.set(transaction.paymentIntentId, [...(payments.get(transaction.paymentIntentId) || []), transaction]);
+    }
+  }
+
+  // Intents an order was paid with before a retry replaced them are only on its payment attempts
+  const chargedAttempts = await prisma.paymentAttempt.findMany({
+    where: { paymentIntentId: { in: [...payments.keys()] } },
+    select: { orderId: true }
+  });
+
+  const orders = await prisma.order.findMany({
+    where: {
+      OR: [
+        { paymentIntentId: { in: [...payments.keys()] } },
+        { id: { in: chargedAttempts.map(attempt => attempt.orderId) } },
+        { createdAt: { gte: from, lt: to }, paymentIntentId: { startsWith: provider.intentPrefix } },
+        // Paid online before orders recorded their payment intent
+        { createdAt: { gte: from, lt: to }, paymentIntentId: null, status: { in: PAID_ORDER_STATUSES } }
+      ]
+    },
+    select: {
+      id: true,
+      orderNumber: true,
+      status: true,
+      totalPrice: true,
+      refundedAmount: true,
+      currency: true,
+      paymentIntentId: true,
+      paymentMethod: true,
+      createdAt: true
+    },
+    orderBy: { createdAt: 'asc' }
+  });
+
+  const attempts = await prisma.paymentAttempt.findMany({
+    where: { orderId: { in: orders.map(order => order.id) } },
+    select: { orderId: true, paymentIntentId: true }
+  });
+
+  // Every intent each order was paid with, current one first
+  const intentsByOrder = new Map<string, string[]>();
+  for (const order of orders) {
+    const intents = [
+      ...(order.paymentIntentId ? [order.paymentIntentId] : []),
+      ...attempts.filter(attempt => attempt.orderId === order.id).map(attempt => attempt.paymentIntentId)
+    ];
+    intentsByOrder.set(order.id, [...new Set(intents)]);
+  }
+
+  const ordersByIntent = new Map<string, ReconciledOrder[]>();
+  for (const order of orders) {
+    for (const paymentIntentId of intentsByOrder.get(order.id) || []) {
+      ordersByIntent.set(paymentIntentId, [...(ordersByIntent.get(paymentIntentId) || []), order]);
+    }
+  }
+
+  const isCharged = (paymentIntentId: string): boolean => {
+    return (payments.get(paymentIntentId) || []).some(transaction => transaction.kind === 'charge');
+  };
+
+  const entries: ReconciliationEntry[] = [];
+
+  for (const [paymentIntentId, paymentTransactions] of payments) {
+    const charges = paymentTransactions.filter(transaction => transaction.kind === 'charge');
+    // Charged in another period, or only a refund of one
+    if (charges.length === 0 || !inPeriod(charges[0].createdAt)) {
+      continue;
+    }
+
+    const linked = ordersByIntent.get(paymentIntentId) || [];
+    const entry = comparePayment(paymentIntentId, paymentTransactions, linked);
+    // A replaced intent that was charged as well as the order's current one
+    const chargedTwice = linked.some(order =>
+      order.paymentIntentId && order.paymentIntentId !== paymentIntentId && isCharged(order.paymentIntentId)
+    );
+
+    entries.push(entry.type === 'MATCHED' && chargedTwice
+      ? { ...entry, type: 'AMOUNT_MISMATCH', note: 'The order was charged again on a later payment intent' }
+      : entry);
+  }
+
+  for (const order of orders) {
+    if (!inPeriod(order.createdAt) || !isPaid(order)) {
+      continue;
+    }
+
+    const charged = (intentsByOrder.get(order.id) || []).some(isCharged);
+    const paidHere = order.paymentIntentId
+      ? order.paymentIntentId.startsWith(provider.intentPrefix)
+      : getPaymentProvider(order.paymentMethod) === provider;
+
+    if (charged || !paidHere) {
+      continue;
+    }
+
+    entries.push({
+      type: 'UNPAID_ORDER',
+      paymentIntentId: order.paymentIntentId,
+      orderNumbers: [order.orderNumber],
+      orderStatuses: [order.status],
+      currency: order.currency,
+      orderAmount: Number(order.totalPrice),
+      chargedAmount: null,
+      orderRefundedAmount: Number(order.refundedAmount),
+      providerRefundedAmount: null,
+      fee: 0,
+      net: 0,
+      transactionIds: [],
+      occurredAt: order.createdAt.toISOString(),
+      note: order.paymentIntentId ? 'The provider has no charge for this payment' : 'The order has no payment recorded'
+    });
+  }
+
+  // Mismatches first, then in time order
+  entries.sort((a, b) => Number(a.type === 'MATCHED') - Number(b.type === 'MATCHED') || a.occurredAt.localeCompare(b.occurredAt));
+
+  const mismatches: ReconciliationSummary['mismatches'] = {};
+  for (const entry of entries.filter(entry => entry.type !== 'MATCHED')) {
+    mismatches[entry.type] = (mismatches[entry.type] || 0) + 1;
+  }
+
+  return {
+    summary: {
+      currencies: summarizeTransactions(transactions.filter(transaction => inPeriod(transaction.createdAt))),
+      paymentsChecked: entries.length,
+      mismatchCount: sum(Object.values(mismatches) as number[]),
+      mismatches
+    },
+    entries
+  };
+};
+
+/**
+ * Check a period before reconciling it
+ */
+export const assertReconciliationPeriod = (from: Date, to: Date): void => {
+  if (from >= to) {
+    throw new HttpError(400, 'from must be before to');
+  }
+  if (to.getTime() - from.getTime() > MAX_RECONCILIATION_DAYS * DAY_MS) {
+    throw new HttpError(400, `A reconciliation can cover at most ${MAX_RECONCILIATION_DAYS} days`);
+  }
+};
+
+/**
+ * Reconcile a period for a provider and keep the result
+ */
+export const runReconciliation = async (
+  providerName: string,
+  from: Date,
+  to: Date,
+  trigger: ReconciliationTrigger,
+  createdById?: string | null
+): Promise<ReconciliationRun> => {
+  assertReconciliationPeriod(from, to);
+
+  const { summary, entries } = await reconcilePayments(providerName, from, to);
+
+  return prisma.reconciliationRun.create({
+    data: {
+      provider: providerName,
+      periodStart: from,
+      periodEnd: to,
+      trigger,
+      createdById: createdById || null,
+      summary: summary as unknown as Prisma.InputJsonValue,
+      entries: entries as unknown as Prisma.InputJsonValue
+    }
+  });
+};
+
+/**
+ * Runs without their entries, newest first
+ */
+export const listReconciliationRuns = async (limit: number = 50) => {
+  return prisma.reconciliationRun.findMany({
+    select: {
+      id: true,
+      provider: true,
+      periodStart: true,
+      periodEnd: true,
+      trigger: true,
+      createdById: true,
+      summary: true,
+      createdAt: true
+    },
+    orderBy: { createdAt: 'desc' },
+    take: limit
+  });
+};
+
+export const getReconciliationRun = async (id: string): Promise<ReconciliationRun> => {
+  const run = await prisma.reconciliationRun.findUnique({ where: { id } });
+
+  if (!run) {
+    throw new HttpError(404, 'Reconciliation run not found');
+  }
+  return run;
+};
+
+/**
+ * Reconcile, for every provider that takes payments online, the last full UTC day
+ * whose late settlements are in, unless the job did so already. Returns the runs made.
+ */
+export const reconcilePreviousDay = async (now: Date = new Date()): Promise<ReconciliationRun[]> => {
+  const periodEnd = new Date(Math.floor((now.getTime() - MATCH_WINDOW_HOURS * 60 * 60 * 1000) / DAY_MS) * DAY_MS);
+  const periodStart = new Date(periodEnd.getTime() - DAY_MS);
+  const runs: ReconciliationRun[] = [];
+
+  for (const provider of getOnlinePaymentProviders()) {
+    const existing = await prisma.reconciliationRun.count({
+      where: { provider: provider.name, periodStart, periodEnd, trigger: 'SCHEDULED' }
+    });
+    if (existing > 0) {
+      continue;
+    }
+
+    const run = await runReconciliation(provider.name, periodStart, periodEnd, 'SCHEDULED');
+    const summary = run.summary as unknown as ReconciliationSummary;
+    console.log(`Reconciled ${provider.name} payments for ${periodStart.toISOString().slice(0, 10)}: ${summary.mismatchCount} mismatch(es)`);
+    runs.push(run);
+  }
+
+  return runs;
+};
+
+/**
+ * Reconcile each finished day for as long as the server runs
+ */
+export const startReconciliationJob = (): NodeJS.Timeout | null => {
+  if (RECONCILIATION_CHECK_INTERVAL_MINUTES <= 0) {
+    return null;
+  }
+
+  const timer = setInterval(() => {
+    reconcilePreviousDay().catch(error => {
+      console.error('Error reconciling payments:', error);
+    });
+  }, RECONCILIATION_CHECK_INTERVAL_MINUTES * 60 * 1000);
+
+  // Don't keep the process alive just for the job
+  timer.unref();
+  return timer;
+};
+
+const CSV_COLUMNS: (keyof ReconciliationEntry)[] = [
+  'type',
+  'paymentIntentId',
+  'orderNumbers',
+  'orderStatuses',
+  'currency',
+  'orderAmount',
+  'chargedAmount',
+  'orderRefundedAmount',
+  'providerRefundedAmount',
+  'fee',
+  'net',
+  'transactionIds',
+  'occurredAt',
+  'note'
+];
+
+const csvField = (value: unknown): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  let text = Array.isArray(value) ? value.join(' ') : String(value);
+  // Ids and notes come partly from the provider; keep spreadsheets from reading them as formulas.
+  // Our own amounts stay numbers.
+  if (typeof value !== 'number' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Every entry of a run as CSV, one row per payment or order
+ */
+export const reconciliationRunCsv = (run: ReconciliationRun): string => {
+  const entries = run.entries as unknown as ReconciliationEntry[];
+  const rows = entries.map(entry => CSV_COLUMNS.map(column => csvField(entry[column])).join(','));
+
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+};
+
+/**
+ * File name for a run's CSV export, e.g. reconciliation-stripe-2026-02-01-2026-02-02.csv
+ */
+export const reconciliationFileName = (run: Pick<ReconciliationRun, 'provider' | 'periodStart' | 'periodEnd'>): string => {
+  return `reconciliation-${run.provider}-${run.periodStart.toISOString().slice(0, 10)}-${run.periodEnd.toISOString().slice(0, 10)}.csv`;
+};
+
+/**
+ * Format a run for JSON responses. Entries are left out of lists; details show the
+ * mismatches, or every entry with `allEntries`.
+ */
+export const formatReconciliationRun = (
+  run: Omit<ReconciliationRun, 'entries'> & { entries?: Prisma.JsonValue },
+  options: { allEntries?: boolean } = {}
+) => {
+  const entries = run.entries ? run.entries as unknown as ReconciliationEntry[] : undefined;
+
+  return {
+    id: run.id,
+    provider: run.provider,
+    periodStart: run.periodStart.toISOString(),
+    periodEnd: run.periodEnd.toISOString(),
+    trigger: run.trigger,
+    createdById: run.createdById || undefined,
+    summary: run.summary as unknown as ReconciliationSummary,
+    mismatches: entries ? entries.filter(entry => entry.type !== 'MATCHED') : undefined,
+    entries: entries && options.allEntries ? entries : undefined,
+    createdAt: run.createdAt.toISOString()
+  };
+};
@@ -0,0 +1,388 @@
+import { Order, Prisma, Refund, RefundSource, RefundStatus } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { HttpError } from '../utils/errors';
+import { roundMoney } from '../utils/money';
+import { adjustOrderCommission, orderCommissionTakenBack } from './commission.service';
+import { fromMinorUnits } from './currency.service';
+import { canTransition, transitionOrderStatus, StatusActor } from './order-status.service';
+import { recordOrderEvent } from './order-activity.service';
+import { getIntentProvider, ProviderRefund } from './payment-provider.service';
+
+// Refunds that have moved, or may still move, money back to the customer
+const COUNTED_REFUND_STATUSES: RefundStatus[] = ['PENDING', 'SUCCEEDED'];
+
+export interface RefundInput {
+  // Defaults to everything not refunded yet
+  amount?: number;
+  reason?: string;
+  // Return this refund pays out, if any
+  returnRequestId?: string;
+}
+
+interface RecordRefundData {
+  amount: number;
+  status: RefundStatus;
+  source: RefundSource;
+  providerRefundId: string;
+  reason?: string | null;
+  returnRequestId?: string | null;
+  createdById?: string | null;
+}
+
+/**
+ * Map a provider's refund status onto ours
+ */
+const toRefundStatus = (status: string | null): RefundStatus => {
+  switch (status) {
+    case 'succeeded':
+      return 'SUCCEEDED';
+    case 'failed':
+      return 'FAILED';
+    case 'canceled':
+      return 'CANCELED';
+    default:
+      return 'PENDING';
+  }
+};
+
+const isCounted = (status: RefundStatus): boolean => COUNTED_REFUND_STATUSES.includes(status);
+
+/**
+ * What can still be refunded on an order
+ */
+export const refundableAmount = (order: Pick<Order, 'totalPrice' | 'refundedAmount'>): number => {
+  return roundMoney(Number(order.totalPrice) - Number(order.refundedAmount));
+};
+
+/**
+ * Book a refund against its order: raise the refunded amount, take back the
+ * matching share of the agent's commission and mark the order REFUNDED once
+ * nothing is left. Returns the commission clawed back.
+ */
+const applyRefundToOrder = async (
+  tx: Prisma.TransactionClient,
+  refund: Refund,
+  actor: StatusActor
+): Promise<number> => {
+  const order = await tx.order.update({
+    where: { id: refund.orderId },
+    data: {
+      refundedAmount: { increment: refund.amount }
+    },
+    include: { items: true }
+  });
+
+  const amount = Number(refund.amount);
+  const total = Number(order.totalPrice);
+  let clawedBack = 0;
+
+  // Counted from the refunds themselves: refundedAmount also holds amounts issueRefund
+  // has set aside for refunds it hasn't recorded yet
+  const counted = await tx.refund.aggregate({
+    where: { orderId: order.id, status: { in: COUNTED_REFUND_STATUSES } },
+    _sum: { amount: true }
+  });
+  const refunded = Number(counted._sum.amount || 0);
+
+  await recordOrderEvent(
+    tx,
+    order.id,
+    'REFUND',
+    `Refunded ${amount.toFixed(2)} ${order.currency}${refund.reason ? `: ${refund.reason}` : ''}`,
+    actor
+  );
+
+  // Take back the share of the commission refunded so far, less what approved returns
+  // and earlier refunds of the order already took back
+  if (total > 0) {
+    const orderCommission = order.items.reduce((sum, item) => sum + Number(item.commissionAmount), 0);
+    const alreadyAdjusted = await orderCommissionTakenBack(tx, order.id);
+
+    clawedBack = await adjustOrderCommission(
+      tx,
+      order.id,
+      orderCommission * Math.min(refunded / total, 1) - alreadyAdjusted,
+      `Refund ${refund.id}`
+    );
+  }
+
+  if (roundMoney(total - refunded) <= 0 && canTransition(order.status, 'REFUNDED')) {
+    await transitionOrderStatus(order.id, 'REFUNDED', actor, {
+      tx,
+      note: 'Order fully refunded'
+    });
+  }
+
+  return clawedBack;
+};
+
+/**
+ * Save a provider refund once. A refund the webhook already recorded (or the
+ * other way round) is returned as is.
+ */
+const recordRefund = async (
+  tx: Prisma.TransactionClient,
+  orderId: string,
+  data: RecordRefundData,
+  actor: StatusActor
+): Promise<Refund> => {
+  const existing = await tx.refund.findUnique({
+    where: { providerRefundId: data.providerRefundId }
+  });
+
+  if (existing) {
+    return existing;
+  }
+
+  const refund = await tx.refund.create({
+    data: {
+      orderId,
+      amount: roundMoney(data.amount),
+      status: data.status,
+      source: data.source,
+      providerRefundId: data.providerRefundId,
+      reason: data.reason || null,
+      returnRequestId: data.returnRequestId || null,
+      createdById: data.createdById || null
+    }
+  });
+
+  if (!isCounted(refund.status)) {
+    return refund;
+  }
+
+  const commissionAdjustment = await applyRefundToOrder(tx, refund, actor);
+
+  return tx.refund.update({
+    where: { id: refund.id },
+    data: { commissionAdjustment }
+  });
+};
+
+/**
+ * Give back an amount set aside by issueRefund when the refund doesn't go through
+ */
+const releaseRefundAmount = async (orderId: string, amount: number): Promise<void> => {
+  await prisma.order.update({
+    where: { id: orderId },
+    data: { refundedAmount: { decrement: amount } }
+  });
+};
+
+/**
+ * Refund all or part of a paid order through its payment provider
+ */
+export const issueRefund = async (orderId: string, input: RefundInput, actor: StatusActor): Promise<Refund> => {
+  const order = await prisma.order.findUnique({
+    where: { id: orderId }
+  });
+
+  if (!order) {
+    throw new HttpError(404, 'Order not found');
+  }
+
+  if (order.status === 'PENDING') {
+    throw new HttpError(409, 'Order has not been paid yet');
+  }
+
+  const paymentIntentId = order.paymentIntentId;
+  if (!paymentIntentId) {
+    throw new HttpError(409, 'Order has no payment to refund');
+  }
+
+  // Cash is only ours once the courier collected it on delivery
+  const provider = getIntentProvider(paymentIntentId);
+  if (!provider.online && order.status !== 'DELIVERED') {
+    throw new HttpError(409, 'Order has not been paid yet');
+  }
+
+  const refundable = refundableAmount(order);
+  const amount = input.amount === undefined ? refundable : roundMoney(Number(input.amount));
+
+  if (!Number.isFinite(amount) || amount <= 0) {
+    throw new HttpError(400, 'Refund amount must be a positive number');
+  }
+
+  if (amount > refundable) {
+    throw new HttpError(400, 'Refund amount exceeds what is left to refund', { refundableAmount: refundable });
+  }
+
+  if (input.returnRequestId) {
+    const returnRequest = await prisma.returnRequest.findUnique({
+      where: { id: input.returnRequestId }
+    });
+
+    if (!returnRequest || returnRequest.orderId !== orderId) {
+      throw new HttpError(400, 'Return request does not belong to this order');
+    }
+
+    if (returnRequest.status !== 'APPROVED' && returnRequest.status !== 'RECEIVED') {
+      throw new HttpError(409, 'Only approved returns can be refunded');
+    }
+  }
+
+  // Set the amount aside before asking the provider, so concurrent refunds can't
+  // together refund more than was paid
+  const reserved = await prisma.order.updateMany({
+    where: { id: order.id, refundedAmount: { lte: roundMoney(Number(order.totalPrice) - amount) } },
+    data: { refundedAmount: { increment: amount } }
+  });
+
+  if (reserved.count === 0) {
+    throw new HttpError(409, 'Refund amount exceeds what is left to refund');
+  }
+
+  let providerRefund: ProviderRefund;
+  try {
+    providerRefund = await provider.refund({
+      paymentIntentId,
+      amount,
+      currency: order.currency,
+      metadata: {
+        orderId: order.id,
+        orderNumber: order.orderNumber,
+        reason: input.reason || '',
+        returnRequestId: input.returnRequestId || ''
+      }
+    });
+  } catch (error) {
+    await releaseRefundAmount(order.id, amount);
+    throw error;
+  }
+
+  // If saving fails after the provider accepted the refund, its refund webhook records it
+  try {
+    return await prisma.$transaction(async (tx) => {
+      // recordRefund books the amount itself, if the refund counts
+      await tx.order.update({
+        where: { id: order.id },
+        data: { refundedAmount: { decrement: amount } }
+      });
+
+      return recordRefund(tx, order.id, {
+        amount,
+        status: toRefundStatus(providerRefund.status),
+        source: 'ADMIN',
+        providerRefundId: providerRefund.id,
+        reason: input.reason,
+        returnRequestId: input.returnRequestId,
+        createdById: actor.id
+      }, actor);
+    });
+  } catch (error) {
+    await releaseRefundAmount(order.id, amount);
+    throw error;
+  }
+};
+
+/**
+ * Bring our refunds for a payment intent in line with its provider: record refunds
+ * made from the provider's dashboard and follow status changes of known ones.
+ * Returns the number of refunds that were added or changed.
+ */
+export const syncProviderRefunds = async (paymentIntentId: string): Promise<number> => {
+  const order = await prisma.order.findFirst({
+    where: { paymentIntentId }
+  });
+
+  if (!order) {
+    console.log(`No order found for refunded payment intent ${paymentIntentId}`);
+    return 0;
+  }
+
+  const providerRefunds = await getIntentProvider(paymentIntentId).listRefunds(paymentIntentId);
+  let changed = 0;
+
+  for (const providerRefund of providerRefunds) {
+    const status = toRefundStatus(providerRefund.status);
+
+    const updated = await prisma.$transaction(async (tx) => {
+      const existing = await tx.refund.findUnique({
+        where: { providerRefundId: providerRefund.id }
+      });
+
+      if (!existing) {
+        await recordRefund(tx, order.id, {
+          amount: fromMinorUnits(providerRefund.amount, providerRefund.currency),
+          status,
+          source: 'PROVIDER',
+          providerRefundId: providerRefund.id,
+          reason: providerRefund.metadata.reason || providerRefund.reason,
+          returnRequestId: providerRefund.metadata.returnRequestId
+        }, { type: 'SYSTEM' });
+        return true;
+      }
+
+      if (existing.status === status) {
+        return false;
+      }
+
+      // Conditional update so a concurrent webhook delivery doesn't apply the change twice
+      const result = await tx.refund.updateMany({
+        where: { id: existing.id, status: existing.status },
+        data: { status }
+      });
+
+      if (result.count === 0) {
+        return false;
+      }
+
+      if (isCounted(status) && !isCounted(existing.status)) {
+        const commissionAdjustment = await applyRefundToOrder(tx, { ...existing, status }, { type: 'SYSTEM' });
+        await tx.refund.update({
+          where: { id: existing.id },
+          data: { commissionAdjustment }
+        });
+      } else if (!isCounted(status) && isCounted(existing.status)) {
+        // The money never reached the customer; the commission taken back stays with
+        // the refund record for an admin to review
+        const refundedOrder = await tx.order.update({
+          where: { id: existing.orderId },
+          data: { refundedAmount: { decrement: existing.amount } }
+        });
+        await recordOrderEvent(
+          tx,
+          existing.orderId,
+          'REFUND_FAILED',
+          `Refund of ${Number(existing.amount).toFixed(2)} ${refundedOrder.currency} ${status.toLowerCase()} at the payment provider`,
+          { type: 'SYSTEM' },
+          { customerVisible: false }
+        );
+      }
+
+      return true;
+    });
+
+    if (updated) {
+      changed++;
+    }
+  }
+
+  return changed;
+};
+
+/**
+ * Refunds of an order, newest first
+ */
+export const getOrderRefunds = async (orderId: string): Promise<Refund[]> => {
+  return prisma.refund.findMany({
+    where: { orderId },
+    orderBy: { createdAt: 'desc' }
+  });
+};
+
+/**
+ * Format a refund for JSON responses
+ */
+export const formatRefund = (refund: Refund) => ({
+  id: refund.id,
+  orderId: refund.orderId,
+  amount: Number(refund.amount),
+  status: refund.status,
+  source: refund.source,
+  reason: refund.reason || undefined,
+  providerRefundId: refund.providerRefundId || undefined,
+  returnRequestId: refund.returnRequestId || undefined,
+  commissionAdjustment: Number(refund.commissionAdjustment),
+  createdAt: refund.createdAt.toISOString()
+});
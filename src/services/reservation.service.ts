@@ -0,0 +1,86 @@
+import prisma from '../lib/prisma';
+import { HttpError } from '../utils/errors';
+import { transitionOrderStatus } from './order-status.service';
+import { abandonOrderPayment } from './payment.service';
+
+// How long an unpaid online order holds its stock
+const STOCK_RESERVATION_MINUTES: number = parseInt(process.env.STOCK_RESERVATION_MINUTES || '30');
+// How often expired reservations are swept
+const RESERVATION_SWEEP_INTERVAL_SECONDS: number = parseInt(process.env.RESERVATION_SWEEP_INTERVAL_SECONDS || '60');
+
+/**
+ * Expiry time for a reservation created now
+ */
+export const reservationExpiry = (from: Date = new Date()): Date => {
+  return new Date(from.getTime() + STOCK_RESERVATION_MINUTES * 60 * 1000);
+};
+
+/**
+ * Cancel PENDING orders whose reservation ran out. The cancellation returns their
+ * stock and blocks their commissions, and their payment is called off. Returns the
+ * number of orders cancelled.
+ */
+export const releaseExpiredReservations = async (now: Date = new Date()): Promise<number> => {
+  const expiredOrders = await prisma.order.findMany({
+    where: {
+      status: 'PENDING',
+      reservationExpiresAt: { lte: now }
+    },
+    select: { id: true, paymentIntentId: true }
+  });
+
+  let released = 0;
+
+  for (const { id, paymentIntentId } of expiredOrders) {
+    let cancelled = false;
+    try {
+      cancelled = await prisma.$transaction(async (tx) => {
+        // Re-check inside the transaction in case payment succeeded in the meantime
+        const order = await tx.order.findUnique({
+          where: { id },
+          select: { status: true, reservationExpiresAt: true }
+        });
+
+        if (!order || order.status !== 'PENDING' || !order.reservationExpiresAt || order.reservationExpiresAt > now) {
+          return false;
+        }
+
+        await transitionOrderStatus(id, 'CANCELLED', { type: 'SYSTEM' }, {
+          tx,
+          expectedFrom: 'PENDING',
+          note: 'Stock reservation expired before payment succeeded'
+        });
+        return true;
+      });
+    } catch (error) {
+      // Losing the race to a payment confirmation is expected; anything else is not
+      if (!(error instanceof HttpError) || error.statusCode !== 409) {
+        throw error;
+      }
+    }
+
+    if (cancelled) {
+      // So the buyer can't pay for an order that no longer holds its stock
+      await abandonOrderPayment({ id, paymentIntentId });
+      released++;
+      console.log(`Order ${id} cancelled: stock reservation expired`);
+    }
+  }
+
+  return released;
+};
+
+/**
+ * Periodically release expired reservations for as long as the server runs
+ */
+export const startReservationSweeper = (): NodeJS.Timeout => {
+  const timer = setInterval(() => {
+    releaseExpiredReservations().catch(error => {
+      console.error('Error releasing expired stock reservations:', error);
+    });
+  }, RESERVATION_SWEEP_INTERVAL_SECONDS * 1000);
+
+  // Don't keep the process alive just for the sweeper
+  timer.unref();
+  return timer;
+};
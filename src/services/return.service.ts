@@ -0,0 +1,297 @@
+import { Prisma, ReturnStatus } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { HttpError } from '../utils/errors';
+import { roundMoney } from '../utils/money';
+import { adjustOrderCommission, orderCommissionTakenBack } from './commission.service';
+import { StatusActor } from './order-status.service';
+import { recordOrderEvent } from './order-activity.service';
+
+export const returnRequestInclude = {
+  items: {
+    include: {
+      orderItem: {
+        include: {
+          product: {
+            select: { id: true, name: true, image: true }
+          }
+        }
+      }
+    }
+  },
+  order: {
+    select: { id: true, orderNumber: true, status: true }
+  }
+} satisfies Prisma.ReturnRequestInclude;
+
+export type ReturnRequestWithItems = Prisma.ReturnRequestGetPayload<{ include: typeof returnRequestInclude }>;
+
+export interface ReturnItemInput {
+  orderItemId: string;
+  quantity: number;
+  reason?: string;
+}
+
+/**
+ * Quantity of each order line already covered by a return that wasn't rejected
+ */
+const returnedQuantities = async (tx: Prisma.TransactionClient, orderId: string): Promise<Map<string, number>> => {
+  const items = await tx.returnItem.findMany({
+    where: {
+      returnRequest: {
+        orderId,
+        status: { not: 'REJECTED' }
+      }
+    }
+  });
+
+  const quantities = new Map<string, number>();
+  for (const item of items) {
+    quantities.set(item.orderItemId, (quantities.get(item.orderItemId) || 0) + item.quantity);
+  }
+  return quantities;
+};
+
+/**
+ * Open a return against some lines of a delivered order
+ */
+export const createReturnRequest = async (
+  orderId: string,
+  reason: string,
+  items: ReturnItemInput[],
+  actor: StatusActor
+): Promise<ReturnRequestWithItems> => {
+  if (!reason || typeof reason !== 'string') {
+    throw new HttpError(400, 'A reason for the return is required');
+  }
+
+  if (!items || !Array.isArray(items) || items.length === 0) {
+    throw new HttpError(400, 'At least one order line must be returned');
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const order = await tx.order.findUnique({
+      where: { id: orderId },
+      include: { items: true }
+    });
+
+    if (!order) {
+      throw new HttpError(404, 'Order not found');
+    }
+
+    if (order.status !== 'DELIVERED') {
+      throw new HttpError(409, 'Only delivered orders can be returned');
+    }
+
+    const alreadyReturned = await returnedQuantities(tx, orderId);
+    let returnValue = 0;
+
+    for (const item of items) {
+      const orderItem = order.items.find(line => line.id === item.orderItemId);
+
+      if (!orderItem) {
+        throw new HttpError(400, `Order line ${item.orderItemId} does not belong to this order`);
+      }
+
+      if (!Number.isInteger(item.quantity) || item.quantity <= 0) {
+        throw new HttpError(400, 'Each returned line needs a positive whole quantity');
+      }
+
+      const returnable = orderItem.quantity - (alreadyReturned.get(orderItem.id) || 0);
+      if (item.quantity > returnable) {
+        throw new HttpError(400, `Only ${returnable} unit(s) of order line ${orderItem.id} can still be returned`);
+      }
+
+      // A line listed twice in one request counts against the same limit
+      alreadyReturned.set(orderItem.id, (alreadyReturned.get(orderItem.id) || 0) + item.quantity);
+      // What the customer paid for these units, after the line's discount and with any tax added on top
+      const linePaid = Number(orderItem.lineTotal) - Number(orderItem.discount) + (order.pricesIncludeTax ? 0 : Number(orderItem.taxAmount));
+      returnValue += linePaid * item.quantity / orderItem.quantity;
+    }
+
+    const returnRequest = await tx.returnRequest.create({
+      data: {
+        orderId,
+        reason,
+        requestedByType: actor.type,
+        requestedById: actor.id || null,
+        returnValue: roundMoney(returnValue),
+        items: {
+          create: items.map(item => ({
+            orderItemId: item.orderItemId,
+            quantity: item.quantity,
+            reason: item.reason || null
+          }))
+        }
+      },
+      include: returnRequestInclude
+    });
+
+    await recordOrderEvent(tx, orderId, 'RETURN_REQUESTED', `Return requested: ${reason}`, actor);
+
+    return returnRequest;
+  });
+};
+
+/**
+ * Move a return from `expected` to `next`, failing if another request got there first.
+ * The conditional update means two admins can't approve (and claw back) the same return twice.
+ */
+const claimReturn = async (
+  tx: Prisma.TransactionClient,
+  returnRequestId: string,
+  expected: ReturnStatus,
+  next: ReturnStatus,
+  actor: StatusActor,
+  note?: string
+): Promise<ReturnRequestWithItems> => {
+  const result = await tx.returnRequest.updateMany({
+    where: { id: returnRequestId, status: expected },
+    data: { status: next }
+  });
+
+  const returnRequest = await tx.returnRequest.findUnique({
+    where: { id: returnRequestId },
+    include: returnRequestInclude
+  });
+
+  if (!returnRequest) {
+    throw new HttpError(404, 'Return request not found');
+  }
+
+  if (result.count === 0) {
+    throw new HttpError(409, `Return request is ${returnRequest.status}, expected ${expected}`);
+  }
+
+  await recordOrderEvent(
+    tx,
+    returnRequest.orderId,
+    `RETURN_${next}`,
+    `Return ${next.toLowerCase()}${note ? `: ${note}` : ''}`,
+    actor
+  );
+
+  return returnRequest;
+};
+
+/**
+ * Approve a return and take back the commission earned on the returned units, less
+ * what the order's refunds and earlier returns already took back
+ */
+export const approveReturnRequest = async (
+  returnRequestId: string,
+  actor: StatusActor,
+  note?: string
+): Promise<ReturnRequestWithItems> => {
+  return prisma.$transaction(async (tx) => {
+    const returnRequest = await claimReturn(tx, returnRequestId, 'REQUESTED', 'APPROVED', actor, note);
+
+    // Commission earned on every unit returned so far, this return's included, pro rata per line
+    const approvedReturns = await tx.returnRequest.findMany({
+      where: { orderId: returnRequest.orderId, status: { in: ['APPROVED', 'RECEIVED'] } },
+      include: returnRequestInclude
+    });
+    const commissionOnReturns = approvedReturns.flatMap(approved => approved.items).reduce((sum, item) => {
+      const line = item.orderItem;
+      return sum + Number(line.commissionAmount) * item.quantity / line.quantity;
+    }, 0);
+
+    const clawedBack = await adjustOrderCommission(
+      tx,
+      returnRequest.orderId,
+      commissionOnReturns - await orderCommissionTakenBack(tx, returnRequest.orderId),
+      `Return ${returnRequest.id} approved`
+    );
+
+    return tx.returnRequest.update({
+      where: { id: returnRequestId },
+      data: {
+        approvedAt: new Date(),
+        resolutionNote: note || null,
+        commissionAdjustment: clawedBack
+      },
+      include: returnRequestInclude
+    });
+  });
+};
+
+/**
+ * Reject a return; nothing is restocked or adjusted
+ */
+export const rejectReturnRequest = async (
+  returnRequestId: string,
+  actor: StatusActor,
+  note?: string
+): Promise<ReturnRequestWithItems> => {
+  return prisma.$transaction(async (tx) => {
+    await claimReturn(tx, returnRequestId, 'REQUESTED', 'REJECTED', actor, note);
+
+    return tx.returnRequest.update({
+      where: { id: returnRequestId },
+      data: {
+        rejectedAt: new Date(),
+        resolutionNote: note || null
+      },
+      include: returnRequestInclude
+    });
+  });
+};
+
+/**
+ * Record that the returned goods arrived and put them back in stock
+ */
+export const receiveReturnRequest = async (
+  returnRequestId: string,
+  actor: StatusActor,
+  note?: string
+): Promise<ReturnRequestWithItems> => {
+  return prisma.$transaction(async (tx) => {
+    const returnRequest = await claimReturn(tx, returnRequestId, 'APPROVED', 'RECEIVED', actor, note);
+
+    for (const item of returnRequest.items) {
+      await tx.product.update({
+        where: { id: item.orderItem.productId },
+        data: {
+          stockQuantity: { increment: item.quantity }
+        }
+      });
+    }
+
+    return tx.returnRequest.update({
+      where: { id: returnRequestId },
+      data: {
+        receivedAt: new Date(),
+        resolutionNote: note || returnRequest.resolutionNote
+      },
+      include: returnRequestInclude
+    });
+  });
+};
+
+/**
+ * Format a return for JSON responses
+ */
+export const formatReturnRequest = (returnRequest: ReturnRequestWithItems) => ({
+  id: returnRequest.id,
+  orderId: returnRequest.orderId,
+  orderNumber: returnRequest.order.orderNumber,
+  status: returnRequest.status,
+  reason: returnRequest.reason,
+  requestedByType: returnRequest.requestedByType,
+  resolutionNote: returnRequest.resolutionNote || undefined,
+  returnValue: Number(returnRequest.returnValue),
+  commissionAdjustment: Number(returnRequest.commissionAdjustment),
+  items: returnRequest.items.map(item => ({
+    id: item.id,
+    orderItemId: item.orderItemId,
+    productId: item.orderItem.product.id,
+    name: item.orderItem.product.name,
+    image: item.orderItem.product.image || undefined,
+    quantity: item.quantity,
+    unitPrice: Number(item.orderItem.unitPrice),
+    reason: item.reason || undefined
+  })),
+  approvedAt: returnRequest.approvedAt ? returnRequest.approvedAt.toISOString() : undefined,
+  rejectedAt: returnRequest.rejectedAt ? returnRequest.rejectedAt.toISOString() : undefined,
+  receivedAt: returnRequest.receivedAt ? returnRequest.receivedAt.toISOString() : undefined,
+  createdAt: returnRequest.createdAt.toISOString()
+});
@@ -0,0 +1,19 @@
+// Seller shown on invoices and packing slips
+export interface SellerDetails {
+  name: string;
+  address: string;
+  email: string;
+  phone: string;
+  taxId: string;
+}
+
+/**
+ * Seller details, configured through the environment
+ */
+export const getSellerDetails = (): SellerDetails => ({
+  name: process.env.SELLER_NAME || 'A World Marketing',
+  address: process.env.SELLER_ADDRESS || '',
+  email: process.env.SELLER_EMAIL || '',
+  phone: process.env.SELLER_PHONE || '',
+  taxId: process.env.SELLER_TAX_ID || ''
+});
@@ -0,0 +1,277 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { HttpError } from '../utils/errors';
+import { transitionOrderStatus, StatusActor } from './order-status.service';
+
+export const shipmentInclude = {
+  items: {
+    include: {
+      orderItem: {
+        include: {
+          product: {
+            select: { id: true, name: true, image: true }
+          }
+        }
+      }
+    }
+  }
+} satisfies Prisma.ShipmentInclude;
+
+export type ShipmentWithItems = Prisma.ShipmentGetPayload<{ include: typeof shipmentInclude }>;
+
+export interface ShipmentItemInput {
+  orderItemId: string;
+  quantity: number;
+}
+
+export interface ShipmentInput {
+  carrier: string;
+  trackingNumber?: string;
+  trackingUrl?: string;
+  note?: string;
+  // Defaults to everything on the order that hasn't shipped yet
+  items?: ShipmentItemInput[];
+}
+
+/**
+ * Quantity of each order line already sent in a shipment
+ */
+const shippedQuantities = async (tx: Prisma.TransactionClient, orderId: string): Promise<Map<string, number>> => {
+  const items = await tx.shipmentItem.findMany({
+    where: { shipment: { orderId } }
+  });
+
+  const quantities = new Map<string, number>();
+  for (const item of items) {
+    quantities.set(item.orderItemId, (quantities.get(item.orderItemId) || 0) + item.quantity);
+  }
+  return quantities;
+};
+
+/**
+ * Mark the order DELIVERED once every unit has shipped and every shipment arrived
+ */
+const completeDeliveredOrder = async (
+  tx: Prisma.TransactionClient,
+  orderId: string,
+  actor: StatusActor,
+  note?: string | null
+): Promise<boolean> => {
+  const order = await tx.order.findUnique({
+    where: { id: orderId },
+    include: { items: true, shipments: true }
+  });
+
+  if (!order || order.status !== 'SHIPPED') {
+    return false;
+  }
+
+  if (order.shipments.some(shipment => shipment.status !== 'DELIVERED')) {
+    return false;
+  }
+
+  const shipped = await shippedQuantities(tx, orderId);
+  if (order.items.some(item => (shipped.get(item.id) || 0) < item.quantity)) {
+    return false;
+  }
+
+  await transitionOrderStatus(orderId, 'DELIVERED', actor, {
+    tx,
+    expectedFrom: 'SHIPPED',
+    note: note || 'All shipments delivered'
+  });
+  return true;
+};
+
+/**
+ * Ship some or all remaining lines of a confirmed order. The first shipment
+ * moves the order to SHIPPED.
+ */
+export const createShipment = async (
+  orderId: string,
+  input: ShipmentInput,
+  actor: StatusActor
+): Promise<ShipmentWithItems> => {
+  if (!input.carrier || typeof input.carrier !== 'string') {
+    throw new HttpError(400, 'A carrier is required');
+  }
+
+  if (input.items !== undefined && (!Array.isArray(input.items) || input.items.length === 0)) {
+    throw new HttpError(400, 'Items must be a non-empty array when given');
+  }
+
+  return prisma.$transaction(async (tx) => {
+    // Touch the order first: the row lock makes concurrent shipments of one order queue up
+    // instead of both shipping the same units
+    const order = await tx.order.update({
+      where: { id: orderId },
+      data: { updatedAt: new Date() },
+      include: { items: true }
+    }).catch((error) => {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
+        throw new HttpError(404, 'Order not found');
+      }
+      throw error;
+    });
+
+    if (order.status !== 'CONFIRMED' && order.status !== 'SHIPPED') {
+      throw new HttpError(409, `Cannot ship an order that is ${order.status}`);
+    }
+
+    const alreadyShipped = await shippedQuantities(tx, orderId);
+    const requested = input.items || order.items
+      .map(item => ({ orderItemId: item.id, quantity: item.quantity - (alreadyShipped.get(item.id) || 0) }))
+      .filter(item => item.quantity > 0);
+
+    if (requested.length === 0) {
+      throw new HttpError(409, 'Everything on this order has already shipped');
+    }
+
+    for (const item of requested) {
+      const orderItem = order.items.find(line => line.id === item.orderItemId);
+
+      if (!orderItem) {
+        throw new HttpError(400, `Order line ${item.orderItemId} does not belong to this order`);
+      }
+
+      if (!Number.isInteger(item.quantity) || item.quantity <= 0) {
+        throw new HttpError(400, 'Each shipped line needs a positive whole quantity');
+      }
+
+      const unshipped = orderItem.quantity - (alreadyShipped.get(orderItem.id) || 0);
+      if (item.quantity > unshipped) {
+        throw new HttpError(400, `Only ${unshipped} unit(s) of order line ${orderItem.id} are left to ship`);
+      }
+
+      // A line listed twice in one shipment counts against the same limit
+      alreadyShipped.set(orderItem.id, (alreadyShipped.get(orderItem.id) || 0) + item.quantity);
+    }
+
+    const shipment = await tx.shipment.create({
+      data: {
+        orderId,
+        carrier: input.carrier.trim(),
+        trackingNumber: input.trackingNumber?.trim() || null,
+        trackingUrl: input.trackingUrl?.trim() || null,
+        note: input.note || null,
+        createdById: actor.id || null,
+        items: {
+          create: requested.map(item => ({
+            orderItemId: item.orderItemId,
+            quantity: item.quantity
+          }))
+        }
+      },
+      include: shipmentInclude
+    });
+
+    if (order.status === 'CONFIRMED') {
+      const tracking = shipment.trackingNumber ? ` ${shipment.trackingNumber}` : '';
+      await transitionOrderStatus(orderId, 'SHIPPED', actor, {
+        tx,
+        expectedFrom: 'CONFIRMED',
+        note: `Shipped with ${shipment.carrier}${tracking}`
+      });
+    }
+
+    return shipment;
+  });
+};
+
+/**
+ * Record that a shipment arrived. The order becomes DELIVERED when this was the
+ * last shipment outstanding and nothing is left to ship.
+ */
+export const markShipmentDelivered = async (
+  shipmentId: string,
+  actor: StatusActor,
+  deliveredAt: Date = new Date()
+): Promise<ShipmentWithItems> => {
+  return prisma.$transaction(async (tx) => {
+    const result = await tx.shipment.updateMany({
+      where: { id: shipmentId, status: 'SHIPPED' },
+      data: { status: 'DELIVERED', deliveredAt }
+    });
+
+    const shipment = await tx.shipment.findUnique({
+      where: { id: shipmentId },
+      include: shipmentInclude
+    });
+
+    if (!shipment) {
+      throw new HttpError(404, 'Shipment not found');
+    }
+
+    if (result.count === 0) {
+      throw new HttpError(409, 'Shipment has already been delivered');
+    }
+
+    await completeDeliveredOrder(tx, shipment.orderId, actor);
+
+    return shipment;
+  });
+};
+
+/**
+ * Deliver every open shipment of an order, e.g. when an admin marks the whole
+ * order delivered. Fails if some units never shipped.
+ */
+export const deliverOrder = async (orderId: string, actor: StatusActor, note?: string | null): Promise<void> => {
+  await prisma.$transaction(async (tx) => {
+    const order = await tx.order.findUnique({
+      where: { id: orderId },
+      include: { _count: { select: { shipments: true } } }
+    });
+
+    if (!order) {
+      throw new HttpError(404, 'Order not found');
+    }
+
+    // Orders shipped before shipments were tracked have nothing to deliver, and any
+    // other status is left to the lifecycle to reject
+    if (order._count.shipments === 0 || order.status !== 'SHIPPED') {
+      await transitionOrderStatus(orderId, 'DELIVERED', actor, { tx, note });
+      return;
+    }
+
+    await tx.shipment.updateMany({
+      where: { orderId, status: 'SHIPPED' },
+      data: { status: 'DELIVERED', deliveredAt: new Date() }
+    });
+
+    if (!await completeDeliveredOrder(tx, orderId, actor, note)) {
+      throw new HttpError(409, 'Some items on this order have not shipped yet');
+    }
+  });
+};
+
+/**
+ * Shipments of an order, oldest first
+ */
+export const getOrderShipments = async (orderId: string): Promise<ShipmentWithItems[]> => {
+  return prisma.shipment.findMany({
+    where: { orderId },
+    include: shipmentInclude,
+    orderBy: { shippedAt: 'asc' }
+  });
+};
+
+/**
+ * Format a shipment for JSON responses
+ */
+export const formatShipment = (shipment: ShipmentWithItems) => ({
+  id: shipment.id,
+  status: shipment.status,
+  carrier: shipment.carrier,
+  trackingNumber: shipment.trackingNumber || undefined,
+  trackingUrl: shipment.trackingUrl || undefined,
+  items: shipment.items.map(item => ({
+    orderItemId: item.orderItemId,
+    productId: item.orderItem.product.id,
+    name: item.orderItem.product.name,
+    image: item.orderItem.product.image || undefined,
+    quantity: item.quantity
+  })),
+  shippedAt: shipment.shippedAt.toISOString(),
+  deliveredAt: shipment.deliveredAt ? shipment.deliveredAt.toISOString() : undefined
+});
@@ -0,0 +1,489 @@
+import { Prisma, Product, ShippingMethod, ShippingRateType, ShippingZoneRegion } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { HttpError } from '../utils/errors';
+import { roundMoney } from '../utils/money';
+import { toTaxDestination, TaxDestination } from './tax.service';
+
+// Used while no shipping zone is set up, in the base currency
+const SHIPPING_FLAT_RATE: number = parseFloat(process.env.SHIPPING_FLAT_RATE || '0');
+const FREE_SHIPPING_THRESHOLD: number | null = process.env.FREE_SHIPPING_THRESHOLD
+  ? parseFloat(process.env.FREE_SHIPPING_THRESHOLD)
+  : null;
+const FALLBACK_METHOD_NAME = 'Standard shipping';
+// cm³ per kg of volumetric weight
+const VOLUMETRIC_DIVISOR: number = parseFloat(process.env.SHIPPING_VOLUMETRIC_DIVISOR || '5000');
+
+const SHIPPING_DIMENSIONS = ['weight', 'length', 'width', 'height'] as const;
+
+export const shippingZoneInclude = {
+  regions: true,
+  methods: { orderBy: { createdAt: 'asc' } }
+} satisfies Prisma.ShippingZoneInclude;
+
+export type ShippingZoneWithMethods = Prisma.ShippingZoneGetPayload<{ include: typeof shippingZoneInclude }>;
+
+// What shipping is priced on
+export interface Parcel {
+  // Billable weight in kg
+  weight: number;
+  // Discounted subtotal in the checkout currency
+  subtotal: number;
+}
+
+// A method as offered for one parcel and destination, priced in the checkout currency
+export interface ShippingOption {
+  // Null for the fallback flat rate
+  methodId: string | null;
+  name: string;
+  type: ShippingRateType | null;
+  cost: number;
+  minDeliveryDays: number | null;
+  maxDeliveryDays: number | null;
+}
+
+export interface ShippingRegionInput {
+  country?: string;
+  state?: string | null;
+  postalPrefix?: string | null;
+}
+
+export interface ShippingZoneInput {
+  name?: string;
+  isActive?: boolean;
+  regions?: ShippingRegionInput[];
+}
+
+export interface ShippingMethodInput {
+  name?: string;
+  type?: ShippingRateType;
+  rate?: number | string;
+  ratePerKg?: number | string | null;
+  freeShippingThreshold?: number | string | null;
+  maxWeight?: number | string | null;
+  minDeliveryDays?: number | string;
+  maxDeliveryDays?: number | string;
+  isActive?: boolean;
+}
+
+type ShippableProduct = Pick<Product, 'weight' | 'length' | 'width' | 'height'>;
+
+/**
+ * Billable weight of the items in kg: each unit counts with its actual or its
+ * volumetric weight, whichever is higher. Products without either weigh nothing.
+ */
+export const parcelWeight = (items: { product: ShippableProduct; quantity: number }[]): number => {
+  const weight = items.reduce((sum, { product, quantity }) => {
+    const volume = product.length && product.width && product.height
+      ? Number(product.length) * Number(product.width) * Number(product.height)
+      : 0;
+    return sum + Math.max(Number(product.weight || 0), volume / VOLUMETRIC_DIVISOR) * quantity;
+  }, 0);
+
+  return Math.round(weight * 1000) / 1000;
+};
+
+const optionalAmount = (value: unknown, label: string): number | null => {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+
+  const amount = parseFloat(String(value));
+  if (!Number.isFinite(amount) || amount < 0) {
+    throw new HttpError(400, `${label} must be a non-negative number`);
+  }
+  return amount;
+};
+
+/**
+ * Read a product's shipping weight and dimensions from a request body. Omitted
+ * fields are left out; null or '' clears a value.
+ */
+export const parseShippingDimensions = (body: Record<string, unknown>): Partial<Record<typeof SHIPPING_DIMENSIONS[number], number | null>> => {
+  const dimensions: Partial<Record<typeof SHIPPING_DIMENSIONS[number], number | null>> = {};
+
+  for (const field of SHIPPING_DIMENSIONS) {
+    if (body[field] === undefined) continue;
+    dimensions[field] = optionalAmount(body[field], field);
+  }
+  return dimensions;
+};
+
+const fallbackOption = (parcel: Parcel, rate: number): ShippingOption => ({
+  methodId: null,
+  name: FALLBACK_METHOD_NAME,
+  type: null,
+  cost: FREE_SHIPPING_THRESHOLD !== null && parcel.subtotal >= roundMoney(FREE_SHIPPING_THRESHOLD * rate)
+    ? 0
+    : roundMoney(SHIPPING_FLAT_RATE * rate),
+  minDeliveryDays: null,
+  maxDeliveryDays: null
+});
+
+/**
+ * How closely a region matches the destination, or -1 when it doesn't
+ */
+const regionSpecificity = (region: ShippingZoneRegion, destination: TaxDestination): number => {
+  if (region.country !== destination.country
+    || (region.state && region.state !== destination.state)
+    || (region.postalPrefix && !(destination.postalCode || '').startsWith(region.postalPrefix))) {
+    return -1;
+  }
+  return (region.postalPrefix ? region.postalPrefix.length * 100 : 0) + (region.state ? 10 : 0);
+};
+
+/**
+ * The active zone covering the destination. When several do, the one with the
+ * most specific region wins, so a zone for a state overrides one for the country.
+ */
+const findShippingZone = async (destination: TaxDestination): Promise<ShippingZoneWithMethods | null> => {
+  const zones = await prisma.shippingZone.findMany({
+    where: { isActive: true, regions: { some: { country: destination.country! } } },
+    include: shippingZoneInclude
+  });
+
+  let best: ShippingZoneWithMethods | null = null;
+  let bestScore = -1;
+
+  for (const zone of zones) {
+    const score = Math.max(...zone.regions.map(region => regionSpecificity(region, destination)));
+    if (score > bestScore) {
+      best = zone;
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+/**
+ * Price of a method for the parcel in the checkout currency, or null when the parcel is too heavy for it
+ */
+const methodCost = (method: ShippingMethod, parcel: Parcel, rate: number): number | null => {
+  if (method.maxWeight !== null && parcel.weight > Number(method.maxWeight)) {
+    return null;
+  }
+
+  const baseRate = Number(method.rate);
+
+  switch (method.type) {
+    case 'WEIGHT_BASED':
+      return roundMoney((baseRate + Number(method.ratePerKg || 0) * parcel.weight) * rate);
+    case 'FREE_OVER_THRESHOLD':
+      return method.freeShippingThreshold !== null && parcel.subtotal >= roundMoney(Number(method.freeShippingThreshold) * rate)
+        ? 0
+        : roundMoney(baseRate * rate);
+    default:
+      return roundMoney(baseRate * rate);
+  }
+};
+
+/**
+ * Shipping methods available for the parcel at the destination, cheapest first.
+ * While no zone is set up the flat rate from the environment is the only option.
+ * Returns null when zones exist but the destination has no country yet.
+ */
+export const getShippingOptions = async (
+  destination: TaxDestination | null | undefined,
+  parcel: Parcel,
+  rate: number
+): Promise<ShippingOption[] | null> => {
+  const zoneCount = await prisma.shippingZone.count({ where: { isActive: true } });
+  if (zoneCount === 0) {
+    return [fallbackOption(parcel, rate)];
+  }
+
+  if (!destination?.country) {
+    return null;
+  }
+
+  const zone = await findShippingZone(destination);
+  if (!zone) {
+    return [];
+  }
+
+  const options: ShippingOption[] = [];
+  for (const method of zone.methods.filter(method => method.isActive)) {
+    const cost = methodCost(method, parcel, rate);
+    if (cost === null) continue;
+
+    options.push({
+      methodId: method.id,
+      name: method.name,
+      type: method.type,
+      cost,
+      minDeliveryDays: method.minDeliveryDays,
+      maxDeliveryDays: method.maxDeliveryDays
+    });
+  }
+
+  return options.sort((a, b) => a.cost - b.cost || (a.maxDeliveryDays || 0) - (b.maxDeliveryDays || 0));
+};
+
+/**
+ * The method the customer chose, or the cheapest one when they haven't chosen.
+ * Null while the destination is unknown.
+ */
+export const chooseShippingOption = (options: ShippingOption[] | null, methodId?: string | null): ShippingOption | null => {
+  if (options === null) {
+    return null;
+  }
+
+  if (options.length === 0) {
+    throw new HttpError(400, 'No shipping method is available for this address');
+  }
+
+  if (!methodId) {
+    return options[0];
+  }
+
+  const option = options.find(option => option.methodId === methodId);
+  if (!option) {
+    throw new HttpError(400, 'The chosen shipping method is not available for this address', {
+      shippingMethods: options.map(option => formatShippingOption(option))
+    });
+  }
+  return option;
+};
+
+/**
+ * Earliest and latest delivery dates for a method when shipped from `from`
+ */
+export const deliveryEstimate = (option: ShippingOption, from: Date = new Date()): { from: Date; to: Date } | null => {
+  if (option.minDeliveryDays === null || option.maxDeliveryDays === null) {
+    return null;
+  }
+
+  const addDays = (days: number): Date => new Date(from.getTime() + days * 24 * 60 * 60 * 1000);
+  return { from: addDays(option.minDeliveryDays), to: addDays(option.maxDeliveryDays) };
+};
+
+const wholeDays = (value: unknown, label: string): number => {
+  const days = Number(value);
+  if (value === null || value === '' || !Number.isInteger(days) || days < 0) {
+    throw new HttpError(400, `${label} must be a whole number of days`);
+  }
+  return days;
+};
+
+const buildRegions = (regions: ShippingRegionInput[] | undefined): Prisma.ShippingZoneRegionCreateWithoutZoneInput[] => {
+  if (!Array.isArray(regions) || regions.length === 0) {
+    throw new HttpError(400, 'A zone needs at least one region');
+  }
+
+  return regions.map(region => {
+    const { country, state, postalCode } = toTaxDestination({
+      country: region?.country,
+      state: region?.state,
+      postalCode: region?.postalPrefix
+    });
+
+    if (!country || !/^[A-Z]{2}$/.test(country)) {
+      throw new HttpError(400, 'Each region needs a two-letter ISO country code');
+    }
+    return { country, state, postalPrefix: postalCode };
+  });
+};
+
+/**
+ * Validate admin input into a method's fields. On update the input is merged
+ * over the stored method, so rules that span fields are checked on the result.
+ */
+const buildShippingMethodData = (
+  input: ShippingMethodInput,
+  existing?: ShippingMethod
+): Omit<Prisma.ShippingMethodUncheckedCreateInput, 'zoneId'> => {
+  const defined = Object.fromEntries(Object.entries(input || {}).filter(([, value]) => value !== undefined));
+  const merged: ShippingMethodInput = existing
+    ? {
+        name: existing.name,
+        type: existing.type,
+        rate: Number(existing.rate),
+        ratePerKg: existing.ratePerKg === null ? null : Number(existing.ratePerKg),
+        freeShippingThreshold: existing.freeShippingThreshold === null ? null : Number(existing.freeShippingThreshold),
+        maxWeight: existing.maxWeight === null ? null : Number(existing.maxWeight),
+        minDeliveryDays: existing.minDeliveryDays,
+        maxDeliveryDays: existing.maxDeliveryDays,
+        isActive: existing.isActive,
+        ...defined
+      }
+    : defined;
+
+  const name = merged.name ? String(merged.name).trim() : '';
+  if (!name) {
+    throw new HttpError(400, 'Name is required');
+  }
+
+  const type = merged.type;
+  if (!type || !Object.values(ShippingRateType).includes(type)) {
+    throw new HttpError(400, `Type must be one of ${Object.values(ShippingRateType).join(', ')}`);
+  }
+
+  const rate = optionalAmount(merged.rate, 'rate') ?? 0;
+  const ratePerKg = optionalAmount(merged.ratePerKg, 'ratePerKg');
+  const freeShippingThreshold = optionalAmount(merged.freeShippingThreshold, 'freeShippingThreshold');
+  const maxWeight = optionalAmount(merged.maxWeight, 'maxWeight');
+
+  if (type === 'WEIGHT_BASED' && ratePerKg === null) {
+    throw new HttpError(400, 'Weight-based methods need a ratePerKg');
+  }
+  if (type === 'FREE_OVER_THRESHOLD' && freeShippingThreshold === null) {
+    throw new HttpError(400, 'Free-over-threshold methods need a freeShippingThreshold');
+  }
+
+  const minDeliveryDays = wholeDays(merged.minDeliveryDays, 'minDeliveryDays');
+  const maxDeliveryDays = wholeDays(merged.maxDeliveryDays, 'maxDeliveryDays');
+  if (minDeliveryDays > maxDeliveryDays) {
+    throw new HttpError(400, 'minDeliveryDays cannot be more than maxDeliveryDays');
+  }
+
+  return {
+    name,
+    type,
+    rate,
+    ratePerKg,
+    freeShippingThreshold,
+    maxWeight,
+    minDeliveryDays,
+    maxDeliveryDays,
+    isActive: merged.isActive !== false
+  };
+};
+
+export const listShippingZones = async (): Promise<ShippingZoneWithMethods[]> => {
+  return prisma.shippingZone.findMany({
+    include: shippingZoneInclude,
+    orderBy: { name: 'asc' }
+  });
+};
+
+export const createShippingZone = async (input: ShippingZoneInput): Promise<ShippingZoneWithMethods> => {
+  const name = input.name ? String(input.name).trim() : '';
+  if (!name) {
+    throw new HttpError(400, 'Name is required');
+  }
+
+  return prisma.shippingZone.create({
+    data: {
+      name,
+      isActive: input.isActive !== false,
+      regions: { create: buildRegions(input.regions) }
+    },
+    include: shippingZoneInclude
+  });
+};
+
+/**
+ * Update a zone. Regions, when given, replace the zone's current ones.
+ */
+export const updateShippingZone = async (id: string, input: ShippingZoneInput): Promise<ShippingZoneWithMethods> => {
+  const name = input.name !== undefined ? String(input.name).trim() : undefined;
+  if (name === '') {
+    throw new HttpError(400, 'Name is required');
+  }
+
+  const regions = input.regions !== undefined ? buildRegions(input.regions) : undefined;
+
+  return prisma.$transaction(async (tx) => {
+    const existing = await tx.shippingZone.findUnique({ where: { id } });
+    if (!existing) {
+      throw new HttpError(404, 'Shipping zone not found');
+    }
+
+    if (regions) {
+      await tx.shippingZoneRegion.deleteMany({ where: { zoneId: id } });
+    }
+
+    return tx.shippingZone.update({
+      where: { id },
+      data: {
+        name,
+        isActive: typeof input.isActive === 'boolean' ? input.isActive : undefined,
+        regions: regions ? { create: regions } : undefined
+      },
+      include: shippingZoneInclude
+    });
+  });
+};
+
+/**
+ * Delete a zone and its methods. Orders shipped with them keep the method name and delivery window.
+ */
+export const deleteShippingZone = async (id: string): Promise<void> => {
+  const result = await prisma.shippingZone.deleteMany({ where: { id } });
+
+  if (result.count === 0) {
+    throw new HttpError(404, 'Shipping zone not found');
+  }
+};
+
+export const createShippingMethod = async (zoneId: string, input: ShippingMethodInput): Promise<ShippingMethod> => {
+  const data = buildShippingMethodData(input);
+
+  const zone = await prisma.shippingZone.findUnique({ where: { id: zoneId } });
+  if (!zone) {
+    throw new HttpError(404, 'Shipping zone not found');
+  }
+
+  return prisma.shippingMethod.create({ data: { ...data, zoneId } });
+};
+
+export const updateShippingMethod = async (id: string, input: ShippingMethodInput): Promise<ShippingMethod> => {
+  const existing = await prisma.shippingMethod.findUnique({ where: { id } });
+
+  if (!existing) {
+    throw new HttpError(404, 'Shipping method not found');
+  }
+
+  return prisma.shippingMethod.update({ where: { id }, data: buildShippingMethodData(input, existing) });
+};
+
+export const deleteShippingMethod = async (id: string): Promise<void> => {
+  const result = await prisma.shippingMethod.deleteMany({ where: { id } });
+
+  if (result.count === 0) {
+    throw new HttpError(404, 'Shipping method not found');
+  }
+};
+
+/**
+ * Format a shipping option for checkout responses, with delivery dates counted from now
+ */
+export const formatShippingOption = (option: ShippingOption) => {
+  const estimate = deliveryEstimate(option);
+
+  return {
+    id: option.methodId || undefined,
+    name: option.name,
+    type: option.type || undefined,
+    cost: option.cost,
+    minDeliveryDays: option.minDeliveryDays ?? undefined,
+    maxDeliveryDays: option.maxDeliveryDays ?? undefined,
+    estimatedDelivery: estimate ? { from: estimate.from.toISOString(), to: estimate.to.toISOString() } : undefined
+  };
+};
+
+export const formatShippingMethod = (method: ShippingMethod) => ({
+  id: method.id,
+  zoneId: method.zoneId,
+  name: method.name,
+  type: method.type,
+  rate: Number(method.rate),
+  ratePerKg: method.ratePerKg !== null ? Number(method.ratePerKg) : undefined,
+  freeShippingThreshold: method.freeShippingThreshold !== null ? Number(method.freeShippingThreshold) : undefined,
+  maxWeight: method.maxWeight !== null ? Number(method.maxWeight) : undefined,
+  minDeliveryDays: method.minDeliveryDays,
+  maxDeliveryDays: method.maxDeliveryDays,
+  isActive: method.isActive
+});
+
+export const formatShippingZone = (zone: ShippingZoneWithMethods) => ({
+  id: zone.id,
+  name: zone.name,
+  isActive: zone.isActive,
+  regions: zone.regions.map(region => ({
+    country: region.country,
+    state: region.state || undefined,
+    postalPrefix: region.postalPrefix || undefined
+  })),
+  methods: zone.methods.map(formatShippingMethod),
+  createdAt: zone.createdAt.toISOString()
+});
@@ -0,0 +1,53 @@
+import { Prisma } from '@prisma/client';
+import { HttpError } from '../utils/errors';
+
+export interface StockRequest {
+  productId: string;
+  quantity: number;
+  name?: string;
+}
+
+/**
+ * Decrement stock for every line, failing if any product no longer has enough.
+ * Must run inside a transaction so a failure rolls back the lines already reserved.
+ */
+export const reserveStock = async (tx: Prisma.TransactionClient, requests: StockRequest[]): Promise<void> => {
+  for (const request of requests) {
+    // Conditional decrement: only succeeds while enough stock is left
+    const result = await tx.product.updateMany({
+      where: {
+        id: request.productId,
+        stockQuantity: { gte: request.quantity }
+      },
+      data: {
+        stockQuantity: { decrement: request.quantity }
+      }
+    });
+
+    if (result.count === 0) {
+      const product = await tx.product.findUnique({
+        where: { id: request.productId },
+        select: { name: true, stockQuantity: true }
+      });
+      throw new HttpError(409, `Insufficient stock for product ${product?.name || request.name || request.productId}. Available: ${product?.stockQuantity ?? 0}, Requested: ${request.quantity}`);
+    }
+  }
+};
+
+/**
+ * Put the stock held by an order's lines back on the shelf
+ */
+export const releaseOrderStock = async (tx: Prisma.TransactionClient, orderId: string): Promise<void> => {
+  const items = await tx.orderItem.findMany({
+    where: { orderId }
+  });
+
+  for (const item of items) {
+    await tx.product.update({
+      where: { id: item.productId },
+      data: {
+        stockQuantity: { increment: item.quantity }
+      }
+    });
+  }
+};
@@ -1,66 +1,239 @@
 import Stripe from 'stripe';
 import * as dotenv from 'dotenv';
+import { HttpError } from '../utils/errors';
+import { toMinorUnits } from './currency.service';
+import {
+  PaymentProvider,
+  PaymentIntentStatus,
+  ProviderBalanceTransaction,
+  ProviderEvent,
+  ProviderEventAction,
+  ProviderPaymentIntent,
+  ProviderRefund
+} from './payment-provider.service';
 
 dotenv.config();
 
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
-  apiVersion: '2025-12-15.clover',
-});
+// Stripe event types we act on
+const STRIPE_EVENT_ACTIONS: Partial<Record<string, ProviderEventAction>> = {
+  'payment_intent.succeeded': 'payment_succeeded',
+  'payment_intent.payment_failed': 'payment_failed',
+  'charge.refunded': 'refund_changed',
+  'charge.refund.updated': 'refund_changed'
+};
 
-export interface PaymentIntentData {
-  amount: number;
-  currency: string;
-  metadata?: Record<string, string>;
-  receipt_email?: string;
-}
-
-export interface CreatePaymentIntentResponse {
-  clientSecret: string;
-  id: string;
-}
-
-export const createPaymentIntent = async (
-  paymentData: PaymentIntentData
-): Promise<CreatePaymentIntentResponse> => {
-  try {
-    const paymentIntent = await stripe.paymentIntents.create({
-      amount: Math.round(paymentData.amount * 100), // Convert to cents
-      currency: paymentData.currency,
-      metadata: paymentData.metadata || {},
-      receipt_email: paymentData.receipt_email,
-      automatic_payment_methods: {
-        enabled: true,
-      },
-    });
+let client: Stripe | null = null;
 
-    return {
-      clientSecret: paymentIntent.client_secret!,
-      id: paymentIntent.id,
-    };
-  } catch (error) {
-    console.error('Error creating payment intent:', error);
-    throw new Error(`Stripe payment intent creation failed: ${(error as Error).message}`);
+/**
+ * The Stripe client, created on first use so the app starts without Stripe keys
+ * when no payment method is collected through Stripe
+ */
+const getStripe = (): Stripe => {
+  if (!client) {
+    if (!process.env.STRIPE_SECRET_KEY) {
+      throw new Error('STRIPE_SECRET_KEY is not set');
+    }
+    client = new Stripe(process.env.STRIPE_SECRET_KEY, {
+      apiVersion: '2025-12-15.clover',
+    });
   }
+  return client;
 };
 
-export const confirmPaymentIntent = async (paymentIntentId: string) => {
-  try {
-    const paymentIntent = await stripe.paymentIntents.confirm(paymentIntentId);
-    return paymentIntent;
-  } catch (error) {
-    console.error('Error confirming payment intent:', error);
-    throw new Error(`Stripe payment confirmation failed: ${(error as Error).message}`);
-  }
+const idOf = (value: string | { id: string } | null): string | null => {
+  return typeof value === 'string' ? value : value?.id || null;
 };
 
-export const retrievePaymentIntent = async (paymentIntentId: string) => {
-  try {
-    const paymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId);
-    return paymentIntent;
-  } catch (error) {
-    console.error('Error retrieving payment intent:', error);
-    throw new Error(`Stripe payment retrieval failed: ${(error as Error).message}`);
+const toProviderIntent = (paymentIntent: Stripe.PaymentIntent): ProviderPaymentIntent => ({
+  id: paymentIntent.id,
+  status: paymentIntent.status as PaymentIntentStatus,
+  amount: paymentIntent.amount,
+  amountReceived: paymentIntent.amount_received,
+  currency: paymentIntent.currency,
+  clientSecret: paymentIntent.client_secret,
+  metadata: paymentIntent.metadata || {},
+  latestAttemptId: idOf(paymentIntent.latest_charge),
+  lastError: paymentIntent.last_payment_error?.message || null
+});
+
+const toProviderRefund = (refund: Stripe.Refund): ProviderRefund => ({
+  id: refund.id,
+  paymentIntentId: idOf(refund.payment_intent) || '',
+  amount: refund.amount,
+  currency: refund.currency,
+  status: refund.status || 'pending',
+  reason: refund.reason,
+  metadata: refund.metadata || {}
+});
+
+const toProviderBalanceTransaction = (transaction: Stripe.BalanceTransaction): ProviderBalanceTransaction => {
+  const source = transaction.source && typeof transaction.source !== 'string' ? transaction.source : null;
+  const paymentIntent = source && (source.object === 'charge' || source.object === 'refund')
+    ? idOf(source.payment_intent)
+    : null;
+
+  return {
+    id: transaction.id,
+    kind: transaction.type === 'charge' || transaction.type === 'payment'
+      ? 'charge'
+      : transaction.type === 'refund' || transaction.type === 'payment_refund' ? 'refund' : 'other',
+    paymentIntentId: paymentIntent,
+    amount: transaction.amount,
+    fee: transaction.fee,
+    net: transaction.net,
+    currency: transaction.currency,
+    createdAt: new Date(transaction.created * 1000)
+  };
+};
+
+const toProviderEvent = (event: Stripe.Event): ProviderEvent => {
+  const action = STRIPE_EVENT_ACTIONS[event.type] || null;
+  const object = event.data.object;
+
+  if (action === 'payment_succeeded' || action === 'payment_failed') {
+    const paymentIntent = toProviderIntent(object as Stripe.PaymentIntent);
+    return { id: event.id, provider: 'stripe', type: event.type, action, paymentIntentId: paymentIntent.id, paymentIntent };
   }
+
+  // charge.refunded carries the charge, charge.refund.updated the refund; both name the payment intent
+  const paymentIntentId = action === 'refund_changed'
+    ? idOf((object as Stripe.Charge | Stripe.Refund).payment_intent)
+    : null;
+
+  return { id: event.id, provider: 'stripe', type: event.type, action, paymentIntentId, paymentIntent: null };
 };
 
-export default stripe;
\ No newline at end of file
+export const stripeProvider: PaymentProvider = {
+  name: 'stripe',
+  online: true,
+  intentPrefix: 'pi_',
+
+  async createIntent(input) {
+    try {
+      const paymentIntent = await getStripe().paymentIntents.create({
+        amount: toMinorUnits(input.amount, input.currency),
+        currency: input.currency.toLowerCase(),
+        metadata: input.metadata || {},
+        receipt_email: input.receiptEmail || undefined,
+        automatic_payment_methods: {
+          enabled: true,
+        },
+      });
+      return toProviderIntent(paymentIntent);
+    } catch (error) {
+      console.error('Error creating payment intent:', error);
+      throw new Error(`Stripe payment intent creation failed: ${(error as Error).message}`);
+    }
+  },
+
+  async confirmIntent(paymentIntentId, paymentMethod) {
+    try {
+      const paymentIntent = await getStripe().paymentIntents.confirm(paymentIntentId, {
+        payment_method: paymentMethod
+      });
+      return toProviderIntent(paymentIntent);
+    } catch (error) {
+      console.error('Error confirming payment intent:', error);
+      throw new Error(`Stripe payment confirmation failed: ${(error as Error).message}`);
+    }
+  },
+
+  async retrieveIntent(paymentIntentId) {
+    try {
+      return toProviderIntent(await getStripe().paymentIntents.retrieve(paymentIntentId));
+    } catch (error) {
+      console.error('Error retrieving payment intent:', error);
+      throw new Error(`Stripe payment retrieval failed: ${(error as Error).message}`);
+    }
+  },
+
+  async cancelIntent(paymentIntentId) {
+    try {
+      return toProviderIntent(await getStripe().paymentIntents.cancel(paymentIntentId));
+    } catch (error) {
+      console.error('Error canceling payment intent:', error);
+      throw new Error(`Stripe payment intent cancellation failed: ${(error as Error).message}`);
+    }
+  },
+
+  async updateIntentMetadata(paymentIntentId, metadata) {
+    try {
+      await getStripe().paymentIntents.update(paymentIntentId, { metadata });
+    } catch (error) {
+      console.error('Error updating payment intent:', error);
+      throw new Error(`Stripe payment intent update failed: ${(error as Error).message}`);
+    }
+  },
+
+  async refund(input) {
+    try {
+      const refund = await getStripe().refunds.create({
+        payment_intent: input.paymentIntentId,
+        amount: toMinorUnits(input.amount, input.currency),
+        reason: 'requested_by_customer',
+        metadata: input.metadata || {},
+      });
+      return toProviderRefund(refund);
+    } catch (error) {
+      console.error('Error creating refund:', error);
+      throw new Error(`Stripe refund failed: ${(error as Error).message}`);
+    }
+  },
+
+  async listRefunds(paymentIntentId) {
+    try {
+      const refunds = await getStripe().refunds.list({
+        payment_intent: paymentIntentId,
+        limit: 100,
+      });
+      return refunds.data.map(toProviderRefund);
+    } catch (error) {
+      console.error('Error listing refunds:', error);
+      throw new Error(`Stripe refund retrieval failed: ${(error as Error).message}`);
+    }
+  },
+
+  async listBalanceTransactions(from, to) {
+    try {
+      const transactions: ProviderBalanceTransaction[] = [];
+      // The source is expanded to find the payment intent of charges and refunds
+      for await (const transaction of getStripe().balanceTransactions.list({
+        created: { gte: Math.floor(from.getTime() / 1000), lt: Math.floor(to.getTime() / 1000) },
+        expand: ['data.source'],
+        limit: 100,
+      })) {
+        transactions.push(toProviderBalanceTransaction(transaction));
+      }
+      return transactions;
+    } catch (error) {
+      console.error('Error listing balance transactions:', error);
+      throw new Error(`Stripe balance transaction retrieval failed: ${(error as Error).message}`);
+    }
+  },
+
+  /**
+   * Check the stripe-signature header against the raw request body and parse the event
+   */
+  parseWebhook(payload, headers) {
+    const endpointSecret = process.env.STRIPE_WEBHOOK_SECRET;
+    if (!endpointSecret) {
+      console.error('Missing Stripe webhook secret');
+      throw new HttpError(500, 'Missing webhook secret');
+    }
+
+    const signature = headers['stripe-signature'];
+    if (typeof signature !== 'string') {
+      throw new HttpError(400, 'Webhook error: missing signature');
+    }
+
+    let event: Stripe.Event;
+    try {
+      event = getStripe().webhooks.constructEvent(payload, signature, endpointSecret);
+    } catch (error) {
+      console.error('Webhook signature verification failed:', (error as Error).message);
+      throw new HttpError(400, `Webhook error: ${(error as Error).message}`);
+    }
+
+    return toProviderEvent(event);
+  }
+};
@@ -0,0 +1,241 @@
+import { Prisma, Product, TaxRate } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { HttpError } from '../utils/errors';
+import { roundMoney } from '../utils/money';
+import { BASE_CURRENCY } from './currency.service';
+
+// 'exclusive': tax is added on top of prices; 'inclusive': prices already contain it
+const TAX_PRICING_MODE: string = process.env.TAX_PRICING_MODE === 'inclusive' ? 'inclusive' : 'exclusive';
+export const PRICES_INCLUDE_TAX: boolean = TAX_PRICING_MODE === 'inclusive';
+// Percentage used when no tax rule matches the destination
+const DEFAULT_TAX_RATE: number = parseFloat(process.env.TAX_RATE || '0');
+const DEFAULT_JURISDICTION = 'DEFAULT';
+
+// Order statuses whose tax has been collected
+const TAX_COLLECTED_STATUSES = ['CONFIRMED', 'SHIPPED', 'DELIVERED'];
+
+// Where an order ships to, as far as it matters for tax
+export interface TaxDestination {
+  country: string | null;
+  state: string | null;
+  postalCode: string | null;
+}
+
+export interface LineTaxRule {
+  rate: number;
+  taxRateId: string | null;
+  jurisdiction: string | null;
+}
+
+export interface TaxRateInput {
+  name?: string;
+  country?: string;
+  state?: string | null;
+  postalPrefix?: string | null;
+  category?: string | null;
+  rate?: number | string;
+  isActive?: boolean;
+}
+
+const NO_TAX: LineTaxRule = { rate: 0, taxRateId: null, jurisdiction: null };
+
+const normalizeCode = (value?: string | null): string | null => {
+  const normalized = value ? String(value).trim().toUpperCase() : '';
+  return normalized || null;
+};
+
+/**
+ * Normalize a destination from checkout input: upper-case codes, postal code without spaces
+ */
+export const toTaxDestination = (input?: { country?: string | null; state?: string | null; postalCode?: string | null }): TaxDestination => ({
+  country: normalizeCode(input?.country),
+  state: normalizeCode(input?.state),
+  postalCode: normalizeCode(input?.postalCode)?.replace(/\s+/g, '') || null
+});
+
+/**
+ * Jurisdiction label of a rule, e.g. US, US-CA or US-CA-940
+ */
+const jurisdictionOf = (taxRate: TaxRate): string => {
+  return [taxRate.country, taxRate.state, taxRate.postalPrefix].filter(Boolean).join('-');
+};
+
+/**
+ * Active rules for the destination's country
+ */
+export const loadTaxRates = async (destination: TaxDestination): Promise<TaxRate[]> => {
+  if (!destination.country) {
+    return [];
+  }
+
+  return prisma.taxRate.findMany({
+    where: { country: destination.country, isActive: true }
+  });
+};
+
+/**
+ * The tax that applies to a product shipped to the destination. A longer postal
+ * prefix beats a state, which beats a country-wide rule; at the same level a rule
+ * for the product's category beats a general one.
+ */
+export const resolveLineTax = (rates: TaxRate[], destination: TaxDestination, product: Product): LineTaxRule => {
+  if (product.taxExempt) {
+    return NO_TAX;
+  }
+
+  const specificity = (taxRate: TaxRate): number => {
+    return (taxRate.postalPrefix ? taxRate.postalPrefix.length * 100 : 0)
+      + (taxRate.state ? 10 : 0)
+      + (taxRate.category ? 1 : 0);
+  };
+
+  const match = rates
+    .filter(taxRate => !taxRate.state || taxRate.state === destination.state)
+    .filter(taxRate => !taxRate.postalPrefix || (destination.postalCode || '').startsWith(taxRate.postalPrefix))
+    .filter(taxRate => !taxRate.category || taxRate.category === product.category)
+    .sort((a, b) => specificity(b) - specificity(a))[0];
+
+  if (match) {
+    return { rate: Number(match.rate), taxRateId: match.id, jurisdiction: jurisdictionOf(match) };
+  }
+
+  return DEFAULT_TAX_RATE > 0
+    ? { rate: DEFAULT_TAX_RATE, taxRateId: null, jurisdiction: DEFAULT_JURISDICTION }
+    : NO_TAX;
+};
+
+/**
+ * Tax on an amount at a percentage rate, unrounded. In inclusive mode the tax is
+ * the part of the amount that is tax.
+ */
+export const taxOnAmount = (amount: number, rate: number): number => {
+  return PRICES_INCLUDE_TAX ? amount * rate / (100 + rate) : amount * rate / 100;
+};
+
+export const listTaxRates = async (): Promise<TaxRate[]> => {
+  return prisma.taxRate.findMany({
+    orderBy: [{ country: 'asc' }, { state: 'asc' }, { postalPrefix: 'asc' }, { category: 'asc' }]
+  });
+};
+
+/**
+ * Validate admin input into the fields to write. With `existing`, only the given fields are checked and returned.
+ */
+const buildTaxRateData = (input: TaxRateInput, existing?: TaxRate): Prisma.TaxRateUncheckedCreateInput => {
+  const name = input.name !== undefined ? String(input.name).trim() : existing?.name;
+  if (!name) {
+    throw new HttpError(400, 'Name is required');
+  }
+
+  const country = input.country !== undefined ? normalizeCode(input.country) : existing?.country;
+  if (!country || !/^[A-Z]{2}$/.test(country)) {
+    throw new HttpError(400, 'Country must be a two-letter ISO code');
+  }
+
+  const rate = input.rate !== undefined ? parseFloat(String(input.rate)) : Number(existing?.rate);
+  if (!Number.isFinite(rate) || rate < 0 || rate > 100) {
+    throw new HttpError(400, 'Rate must be a percentage between 0 and 100');
+  }
+
+  const postalPrefix = input.postalPrefix === undefined ? undefined : toTaxDestination({ postalCode: input.postalPrefix }).postalCode;
+  const category = input.category === undefined ? undefined : (input.category ? String(input.category).trim() : null);
+
+  return {
+    name,
+    country,
+    state: input.state === undefined ? undefined : normalizeCode(input.state),
+    postalPrefix,
+    category,
+    rate,
+    isActive: input.isActive
+  };
+};
+
+export const createTaxRate = async (input: TaxRateInput): Promise<TaxRate> => {
+  return prisma.taxRate.create({ data: buildTaxRateData(input) });
+};
+
+export const updateTaxRate = async (id: string, input: TaxRateInput): Promise<TaxRate> => {
+  const existing = await prisma.taxRate.findUnique({ where: { id } });
+
+  if (!existing) {
+    throw new HttpError(404, 'Tax rate not found');
+  }
+
+  return prisma.taxRate.update({ where: { id }, data: buildTaxRateData(input, existing) });
+};
+
+/**
+ * Delete a rule. Orders taxed with it keep their rate and jurisdiction.
+ */
+export const deleteTaxRate = async (id: string): Promise<void> => {
+  const result = await prisma.taxRate.deleteMany({ where: { id } });
+
+  if (result.count === 0) {
+    throw new HttpError(404, 'Tax rate not found');
+  }
+};
+
+/**
+ * Tax collected per jurisdiction and currency for orders placed in [from, to).
+ * Amounts are also given in the base currency at each order's rate. Fully refunded
+ * and cancelled orders are left out; partial refunds are not netted.
+ */
+export const getTaxReport = async (from: Date, to: Date) => {
+  const rows = await prisma.$queryRaw<{
+    jurisdiction: string;
+    currency: string;
+    orders: bigint;
+    taxable: Prisma.Decimal;
+    tax: Prisma.Decimal;
+    taxBase: Prisma.Decimal;
+  }[]>`
+    SELECT
+      oi."taxJurisdiction" as jurisdiction,
+      o."currency" as currency,
+      COUNT(DISTINCT o."id") as orders,
+      SUM(CASE WHEN o."pricesIncludeTax"
+        THEN oi."lineTotal" - oi."discount" - oi."taxAmount"
+        ELSE oi."lineTotal" - oi."discount" END) as taxable,
+      SUM(oi."taxAmount") as tax,
+      SUM(oi."taxAmount" / o."exchangeRate") as "taxBase"
+    FROM "OrderItem" oi
+    JOIN "Order" o ON o."id" = oi."orderId"
+    WHERE o."status"::text IN (${Prisma.join(TAX_COLLECTED_STATUSES)})
+      AND o."createdAt" >= ${from}
+      AND o."createdAt" < ${to}
+      AND oi."taxAmount" > 0
+    GROUP BY oi."taxJurisdiction", o."currency"
+    ORDER BY oi."taxJurisdiction", o."currency";
+  `;
+
+  const jurisdictions = rows.map(row => ({
+    jurisdiction: row.jurisdiction || DEFAULT_JURISDICTION,
+    currency: row.currency,
+    orders: Number(row.orders),
+    taxableAmount: roundMoney(Number(row.taxable)),
+    taxCollected: roundMoney(Number(row.tax)),
+    taxCollectedBase: roundMoney(Number(row.taxBase))
+  }));
+
+  return {
+    from: from.toISOString(),
+    to: to.toISOString(),
+    baseCurrency: BASE_CURRENCY,
+    jurisdictions,
+    totalTaxCollectedBase: roundMoney(jurisdictions.reduce((sum, row) => sum + row.taxCollectedBase, 0))
+  };
+};
+
+export const formatTaxRate = (taxRate: TaxRate) => ({
+  id: taxRate.id,
+  name: taxRate.name,
+  country: taxRate.country,
+  state: taxRate.state || undefined,
+  postalPrefix: taxRate.postalPrefix || undefined,
+  category: taxRate.category || undefined,
+  rate: Number(taxRate.rate),
+  isActive: taxRate.isActive,
+  jurisdiction: jurisdictionOf(taxRate),
+  createdAt: taxRate.createdAt.toISOString()
+});
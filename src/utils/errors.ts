@@ -0,0 +1,15 @@
+/**
+ * Error carrying the HTTP status a controller should respond with.
+ * Thrown from services so controllers can map failures without string matching.
+ */
+export class HttpError extends Error {
+  statusCode: number;
+  details?: Record<string, unknown>;
+
+  constructor(statusCode: number, message: string, details?: Record<string, unknown>) {
+    super(message);
+    this.name = 'HttpError';
+    this.statusCode = statusCode;
+    this.details = details;
+  }
+}
@@ -11,10 +11,12 @@ export interface JwtPayload {
 // Environment variables
 const ACCESS_TOKEN_SECRET: string = process.env.ACCESS_TOKEN_SECRET || 'default_access_secret';
 const REFRESH_TOKEN_SECRET: string = process.env.REFRESH_TOKEN_SECRET || 'default_refresh_secret';
+const ORDER_ACCESS_TOKEN_SECRET: string = process.env.ORDER_ACCESS_TOKEN_SECRET || 'default_order_access_secret';
 
 // Token expiration times
 const ACCESS_TOKEN_EXPIRES_IN: string = process.env.ACCESS_TOKEN_EXPIRES_IN || '15m';
 const REFRESH_TOKEN_EXPIRES_IN: string = process.env.REFRESH_TOKEN_EXPIRES_IN || '7d';
+const ORDER_ACCESS_TOKEN_EXPIRES_IN: string = process.env.ORDER_ACCESS_TOKEN_EXPIRES_IN || '90d';
 
 /**
  * Generate access token
@@ -58,6 +60,32 @@ export const verifyRefreshToken = (token: string): JwtPayload | null => {
   }
 };
 
+/**
+ * Generate a token that grants access to a single order, handed to the buyer at checkout
+ */
+export const generateOrderAccessToken = (orderId: string): string => {
+  return jwt.sign({ orderId }, ORDER_ACCESS_TOKEN_SECRET, {
+    expiresIn: ORDER_ACCESS_TOKEN_EXPIRES_IN,
+    algorithm: 'HS256',
+    subject: 'order-access'
+  });
+};
+
+/**
+ * Verify an order access token. Returns the order ID it grants access to.
+ */
+export const verifyOrderAccessToken = (token: string): string | null => {
+  try {
+    const payload = jwt.verify(token, ORDER_ACCESS_TOKEN_SECRET, {
+      algorithms: ['HS256'],
+      subject: 'order-access'
+    }) as { orderId?: string };
+    return payload.orderId || null;
+  } catch (error) {
+    return null;
+  }
+};
+
 /**
  * Extract token from request cookies
  */
@@ -82,4 +110,15 @@ export const extractTokenFromHeader = (req: Request): string | null => {
     return authHeader.substring(7);
   }
   return null;
-};
\ No newline at end of file
+};
+
+/**
+ * Extract an order access token from the X-Order-Access-Token header or the `token` query parameter
+ */
+export const extractOrderAccessToken = (req: Request): string | null => {
+  const header = req.header('X-Order-Access-Token');
+  if (header) {
+    return header;
+  }
+  return typeof req.query.token === 'string' ? req.query.token : null;
+};
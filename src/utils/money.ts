@@ -0,0 +1,6 @@
+/**
+ * Round a money amount to cents
+ */
+export const roundMoney = (amount: number): number => {
+  return Math.round((amount + Number.EPSILON) * 100) / 100;
+};
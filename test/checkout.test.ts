@@ -0,0 +1,28 @@
+import { beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { prisma, resetDatabase, createProduct, checkoutInput } from './support/setup';
+import { placeCheckout } from '../src/services/checkout.service';
+
+describe('checkout', () => {
+  beforeEach(resetDatabase);
+
+  test('stores a cart as one order with a line per product', async () => {
+    const mug = await createProduct({ name: 'Mug', price: 12.5, stockQuantity: 10 });
+    const poster = await createProduct({ name: 'Poster', price: 20, stockQuantity: 3 });
+
+    const { order } = await placeCheckout(checkoutInput(
+      [{ productId: mug.id, quantity: 2 }, { productId: poster.id, quantity: 1 }],
+      { paymentMethod: 'cod' }
+    ));
+
+    assert.equal(await prisma.order.count(), 1);
+    assert.equal(order.status, 'CONFIRMED');
+    assert.equal(Number(order.subtotal), 45);
+    assert.equal(Number(order.totalPrice), 45);
+
+    const lines = order.items
+      .map(item => [item.productId, item.quantity, Number(item.unitPrice), Number(item.lineTotal)])
+      .sort((a, b) => Number(a[2]) - Number(b[2]));
+    assert.deepEqual(lines, [[mug.id, 2, 12.5, 25], [poster.id, 1, 20, 20]]);
+  });
+});
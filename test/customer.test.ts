@@ -0,0 +1,108 @@
+import { beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { prisma, resetDatabase, createProduct, checkoutInput } from './support/setup';
+import { placeCheckout, permittedCustomerId } from '../src/services/checkout.service';
+import { mergeCustomers, findCustomerByEmail } from '../src/services/customer.service';
+
+const ALICE_SESSION = { userId: 'user-alice', email: 'alice@example.com', role: 'CUSTOMER' };
+
+const createAlice = () => prisma.customer.create({
+  data: {
+    email: 'alice@example.com',
+    firstName: 'Alice',
+    lastName: 'Archer',
+    phone: '+1 555 0100',
+    normalizedPhone: '15550100',
+    address: '9 Private Lane, Springfield'
+  }
+});
+
+/**
+ * A cash on delivery checkout under Alice's email with only a name and country given
+ */
+const aliceCheckout = async (overrides: Parameters<typeof checkoutInput>[1] = {}) => {
+  const product = await createProduct({ price: 10 });
+  return placeCheckout(checkoutInput([{ productId: product.id, quantity: 1 }], {
+    paymentMethod: 'cod',
+    customerInfo: { email: 'Alice@Example.com', firstName: 'Someone', shippingCountry: 'US' },
+    ...overrides
+  }));
+};
+
+describe('customers', () => {
+  beforeEach(resetDatabase);
+
+  test('files a guest order under the matching customer without sharing or changing their details', async () => {
+    const alice = await createAlice();
+
+    const { order } = await aliceCheckout();
+
+    assert.equal(order.customerId, alice.id);
+    assert.equal(order.contactFirstName, 'Someone');
+    assert.equal(order.contactLastName, null);
+    assert.equal(order.contactPhone, null);
+    assert.equal(order.shippingAddress, null);
+    assert.deepEqual(await prisma.customer.findUniqueOrThrow({ where: { id: alice.id } }), alice);
+  });
+
+  test('fills the order from the record and updates it for the customer\'s own session', async () => {
+    const alice = await createAlice();
+
+    const { order } = await aliceCheckout({ user: ALICE_SESSION });
+
+    assert.equal(order.customerId, alice.id);
+    assert.equal(order.contactLastName, 'Archer');
+    assert.equal(order.contactPhone, '+1 555 0100');
+    assert.equal(order.shippingAddress, '9 Private Lane, Springfield');
+    assert.equal((await prisma.customer.findUniqueOrThrow({ where: { id: alice.id } })).firstName, 'Someone');
+  });
+
+  test('lets only staff and the customer themselves choose the customer an order is for', async () => {
+    const alice = await createAlice();
+    await prisma.customer.create({ data: { email: 'bob@example.com', firstName: 'Bob', lastName: 'Baker' } });
+
+    assert.equal(await permittedCustomerId(alice.id), null);
+    assert.equal(await permittedCustomerId(alice.id, { ...ALICE_SESSION, email: 'bob@example.com' }), null);
+    assert.equal(await permittedCustomerId(alice.id, ALICE_SESSION), alice.id);
+    assert.equal(await permittedCustomerId(alice.id, { userId: 'user-agent', email: 'agent@example.com', role: 'AGENT' }), alice.id);
+    assert.equal(await permittedCustomerId(alice.id, { userId: 'user-admin', email: 'admin@example.com', role: 'ADMIN' }), alice.id);
+    assert.equal(await permittedCustomerId({ id: alice.id }, ALICE_SESSION), null);
+  });
+
+  test('recognizes a returning guest who gives no email by phone', async () => {
+    const product = await createProduct({ price: 10 });
+    const phoneOnly = { firstName: 'Carol', phone: '+1 (555) 0199', shippingCountry: 'US' };
+
+    const { order: first } = await placeCheckout(checkoutInput([{ productId: product.id, quantity: 1 }], {
+      paymentMethod: 'cod',
+      customerInfo: phoneOnly
+    }));
+    const { order: second } = await placeCheckout(checkoutInput([{ productId: product.id, quantity: 1 }], {
+      paymentMethod: 'cod',
+      customerInfo: { ...phoneOnly, phone: '+15550199' }
+    }));
+
+    assert.equal(second.customerId, first.customerId);
+    assert.equal(await prisma.customer.count(), 1);
+  });
+
+  test('merges duplicates into one customer that keeps their orders and email', async () => {
+    const product = await createProduct({ price: 10 });
+    const { order: byPhone } = await placeCheckout(checkoutInput([{ productId: product.id, quantity: 1 }], {
+      paymentMethod: 'cod',
+      customerInfo: { firstName: 'Dana', phone: '+1 555 0123', shippingCountry: 'US' }
+    }));
+    const { order: byEmail } = await placeCheckout(checkoutInput([{ productId: product.id, quantity: 1 }], {
+      paymentMethod: 'cod',
+      customerInfo: { email: 'dana@example.com', firstName: 'Dana', shippingCountry: 'US' }
+    }));
+
+    const { customer, ordersMoved } = await mergeCustomers(byPhone.customerId, [byEmail.customerId]);
+
+    assert.equal(ordersMoved, 1);
+    assert.equal(customer.email, 'dana@example.com');
+    assert.equal(customer.phone, '+1 555 0123');
+    assert.equal((await findCustomerByEmail(prisma, 'dana@example.com'))?.id, byPhone.customerId);
+    assert.equal(await prisma.order.count({ where: { customerId: byPhone.customerId } }), 2);
+  });
+});
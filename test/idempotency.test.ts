@@ -0,0 +1,101 @@
+import { beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Request, Response } from 'express';
+import { prisma, resetDatabase } from './support/setup';
+import { idempotent } from '../src/middlewares/idempotency.middleware';
+import { claimIdempotencyKey, renewIdempotencyKeyLock } from '../src/services/idempotency.service';
+
+interface Caller {
+  userId?: string;
+  accessToken?: string;
+}
+
+/**
+ * POST a body with an Idempotency-Key through the middleware to a handler that
+ * answers with a new number each time it runs
+ */
+const post = (key: string, caller: Caller, runs: { count: number }) => {
+  return new Promise<{ status: number; body: any; replayed: boolean }>((resolve) => {
+    const headers: Record<string, string> = {};
+    const headerValues: Record<string, string | undefined> = {
+      'Idempotency-Key': key,
+      'X-Order-Access-Token': caller.accessToken
+    };
+    const req = {
+      method: 'POST',
+      baseUrl: '/api/orders',
+      path: '/place',
+      body: { items: [] },
+      query: {},
+      user: caller.userId ? { userId: caller.userId, email: `${caller.userId}@example.com`, role: 'CUSTOMER' } : undefined,
+      header: (name: string) => headerValues[name]
+    };
+    const res = {
+      statusCode: 200,
+      setHeader(name: string, value: string) {
+        headers[name] = value;
+      },
+      status(code: number) {
+        this.statusCode = code;
+        return this;
+      },
+      json(body: unknown) {
+        resolve({ status: this.statusCode, body, replayed: headers['Idempotent-Replayed'] === 'true' });
+        return this;
+      },
+      on() {
+        return this;
+      }
+    };
+
+    idempotent(req as unknown as Request, res as unknown as Response, () => {
+      runs.count += 1;
+      res.status(201).json({ run: runs.count });
+    });
+  });
+};
+
+describe('idempotency keys', () => {
+  beforeEach(resetDatabase);
+
+  test('replays the first response to the same caller', async () => {
+    const runs = { count: 0 };
+
+    const first = await post('key-1', { userId: 'user-a' }, runs);
+    const repeat = await post('key-1', { userId: 'user-a' }, runs);
+
+    assert.deepEqual(first, { status: 201, body: { run: 1 }, replayed: false });
+    assert.deepEqual(repeat, { status: 201, body: { run: 1 }, replayed: true });
+    assert.equal(runs.count, 1);
+  });
+
+  test('never replays one caller\'s response to another using the same key', async () => {
+    const runs = { count: 0 };
+
+    await post('key-1', { userId: 'user-a' }, runs);
+    const otherUser = await post('key-1', { userId: 'user-b' }, runs);
+    const tokenHolder = await post('key-1', { accessToken: 'order-token' }, runs);
+    const anonymous = await post('key-1', {}, runs);
+
+    assert.deepEqual([otherUser, tokenHolder, anonymous].map(response => response.replayed), [false, false, false]);
+    assert.equal(runs.count, 4);
+    const scopes = await prisma.idempotencyKey.findMany({ select: { scope: true } });
+    assert.ok(scopes.every(({ scope }) => !scope.includes('order-token')));
+  });
+
+  test('hands a key over only once its request stopped renewing the lock', async () => {
+    const claim = await claimIdempotencyKey('POST /api/orders/place anonymous', 'key-1', 'hash');
+    assert.equal(claim.outcome, 'claimed');
+    const id = claim.outcome === 'claimed' ? claim.record.id : '';
+    const twoMinutesAgo = new Date(Date.now() - 2 * 60 * 1000);
+
+    // Still running: the lock was renewed after it was taken
+    await prisma.idempotencyKey.update({ where: { id }, data: { lockedAt: twoMinutesAgo } });
+    await renewIdempotencyKeyLock(id);
+    assert.equal((await claimIdempotencyKey('POST /api/orders/place anonymous', 'key-1', 'hash')).outcome, 'in_progress');
+
+    // Dead: no renewal for longer than the lock lasts
+    await prisma.idempotencyKey.update({ where: { id }, data: { lockedAt: twoMinutesAgo } });
+    assert.equal((await claimIdempotencyKey('POST /api/orders/place anonymous', 'key-1', 'hash')).outcome, 'claimed');
+  });
+});
@@ -0,0 +1,92 @@
+import { beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { prisma, resetDatabase, createProduct, checkoutInput, httpError } from './support/setup';
+import { placeCheckout } from '../src/services/checkout.service';
+import { confirmPayment } from '../src/services/payment.service';
+import { handlePaymentEvent } from '../src/services/payment-event.service';
+import { getProviderByName } from '../src/services/payment-provider.service';
+import { mockPaymentProvider, signMockWebhook } from '../src/services/mock-payment.service';
+
+const mockWebhook = (body: object) => {
+  const payload = Buffer.from(JSON.stringify(body));
+  return { payload, headers: { 'x-mock-signature': signMockWebhook(payload) } };
+};
+
+describe('checkout paid with the mock provider', () => {
+  beforeEach(resetDatabase);
+
+  test('places a pending order holding stock until the payment is confirmed', async () => {
+    const product = await createProduct({ price: 25, stockQuantity: 5 });
+
+    const { order, payment, paymentRequired } = await placeCheckout(checkoutInput([{ productId: product.id, quantity: 2 }]));
+
+    assert.equal(paymentRequired, true);
+    assert.equal(order.status, 'PENDING');
+    assert.equal(Number(order.totalPrice), 50);
+    assert.equal(payment.provider, 'mock');
+    assert.match(payment.paymentIntentId, /^mock_pi_/);
+    assert.equal((await prisma.product.findUniqueOrThrow({ where: { id: product.id } })).stockQuantity, 3);
+
+    const { paymentIntent, orders } = await confirmPayment(payment.paymentIntentId, 'mock_card_success');
+
+    assert.equal(paymentIntent.status, 'succeeded');
+    assert.deepEqual(orders.map(confirmed => confirmed.status), ['CONFIRMED']);
+
+    const attempts = await prisma.paymentAttempt.findMany({ where: { orderId: order.id } });
+    assert.deepEqual(attempts.map(attempt => attempt.status), ['SUCCEEDED']);
+  });
+
+  test('only confirms mock intents from the server', async () => {
+    await assert.rejects(confirmPayment('pi_3Abc123'), httpError(400));
+    await assert.rejects(confirmPayment('cod_anything'), httpError(400));
+  });
+
+  test('confirms the order from a signed webhook once, however often it is delivered', async () => {
+    const product = await createProduct({ price: 40 });
+    const { order, payment } = await placeCheckout(checkoutInput([{ productId: product.id, quantity: 1 }]));
+    await mockPaymentProvider.confirmIntent(payment.paymentIntentId, 'mock_card_success');
+
+    const { payload, headers } = mockWebhook({
+      id: 'mock_evt_1',
+      type: 'payment_intent.succeeded',
+      paymentIntentId: payment.paymentIntentId
+    });
+    const provider = getProviderByName('mock');
+
+    const first = await handlePaymentEvent(provider.parseWebhook(payload, headers));
+    assert.equal(first.duplicate, false);
+    assert.equal(first.paymentEvent.status, 'PROCESSED');
+    assert.equal((await prisma.order.findUniqueOrThrow({ where: { id: order.id } })).status, 'CONFIRMED');
+
+    const redelivered = await handlePaymentEvent(provider.parseWebhook(payload, headers));
+    assert.equal(redelivered.duplicate, true);
+    assert.equal(await prisma.paymentEvent.count(), 1);
+  });
+
+  test('stores webhook events without the payment intent\'s client secret', async () => {
+    const product = await createProduct({ price: 40 });
+    const { payment } = await placeCheckout(checkoutInput([{ productId: product.id, quantity: 1 }]));
+    await mockPaymentProvider.confirmIntent(payment.paymentIntentId, 'mock_card_success');
+    const { payload, headers } = mockWebhook({
+      id: 'mock_evt_3',
+      type: 'payment_intent.succeeded',
+      paymentIntentId: payment.paymentIntentId
+    });
+
+    const event = getProviderByName('mock').parseWebhook(payload, headers);
+    assert.ok(event.paymentIntent?.clientSecret);
+    await handlePaymentEvent(event);
+
+    const stored = await prisma.paymentEvent.findFirstOrThrow();
+    assert.ok(!JSON.stringify(stored.payload).includes(event.paymentIntent.clientSecret));
+  });
+
+  test('rejects webhooks whose signature does not match', async () => {
+    const { payload } = mockWebhook({ id: 'mock_evt_2', type: 'payment_intent.succeeded' });
+
+    assert.throws(
+      () => getProviderByName('mock').parseWebhook(payload, { 'x-mock-signature': signMockWebhook('something else') }),
+      httpError(400)
+    );
+  });
+});
@@ -0,0 +1,91 @@
+import { beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Request, Response } from 'express';
+import { prisma, resetDatabase, createProduct, checkoutInput, httpError } from './support/setup';
+import { placeCheckout, formatCheckoutResponse } from '../src/services/checkout.service';
+import { assertOrderAccess, findTrackedOrder, formatTrackedOrder } from '../src/services/order-access.service';
+import { getOrderById } from '../src/controllers/order.controller';
+
+const placeOrder = async (overrides: Parameters<typeof checkoutInput>[1] = {}) => {
+  const product = await createProduct({ price: 10 });
+  const result = await placeCheckout(checkoutInput([{ productId: product.id, quantity: 1 }], { paymentMethod: 'cod', ...overrides }));
+  return { order: result.order, accessToken: formatCheckoutResponse(result).accessToken };
+};
+
+/**
+ * Call getOrderById the way a request holding only the order's access token would
+ */
+const viewWithToken = async (orderId: string, accessToken: string) => {
+  const req = { params: { id: orderId }, query: {}, header: (name: string) => name === 'X-Order-Access-Token' ? accessToken : undefined };
+  const sent: { status?: number; body?: any } = {};
+  const res = {
+    status(code: number) {
+      sent.status = code;
+      return this;
+    },
+    json(body: unknown) {
+      sent.body = body;
+      return this;
+    }
+  };
+
+  await getOrderById(req as unknown as Request, res as unknown as Response);
+  return sent;
+};
+
+describe('order access', () => {
+  beforeEach(resetDatabase);
+
+  test('grants the checkout token access to its own order only', async () => {
+    const first = await placeOrder();
+    const second = await placeOrder();
+
+    assert.equal(await assertOrderAccess(first.order.id, { accessToken: first.accessToken }), 'TOKEN');
+    await assert.rejects(assertOrderAccess(second.order.id, { accessToken: first.accessToken }), httpError(404));
+    await assert.rejects(assertOrderAccess(first.order.id, { accessToken: 'not-a-token' }), httpError(404));
+    await assert.rejects(assertOrderAccess(first.order.id, {}), httpError(404));
+  });
+
+  test('lets customers see their own orders and agents the orders credited to them', async () => {
+    const agent = await prisma.user.create({ data: { email: 'agent@example.com', password: 'not-a-real-hash', role: 'AGENT' } });
+    const { order } = await placeOrder({ agentId: agent.id });
+    const agentSession = { userId: agent.id, email: agent.email, role: 'AGENT' };
+
+    assert.equal(await assertOrderAccess(order.id, { user: { userId: 'user-buyer', email: 'buyer@example.com', role: 'CUSTOMER' } }), 'CUSTOMER');
+    await assert.rejects(assertOrderAccess(order.id, { user: { userId: 'user-other', email: 'other@example.com', role: 'CUSTOMER' } }), httpError(404));
+    assert.equal(await assertOrderAccess(order.id, { user: agentSession }), 'AGENT');
+    await assert.rejects(assertOrderAccess(order.id, { user: { ...agentSession, userId: 'user-other-agent' } }), httpError(404));
+    assert.equal(await assertOrderAccess(order.id, { user: { userId: 'user-admin', email: 'admin@example.com', role: 'ADMIN' } }), 'ADMIN');
+  });
+
+  test('shows a token holder only the contact details given with the order', async () => {
+    await prisma.customer.create({
+      data: {
+        email: 'alice@example.com',
+        firstName: 'Alice',
+        lastName: 'Archer',
+        phone: '+1 555 0100',
+        address: '9 Private Lane, Springfield'
+      }
+    });
+    const { order, accessToken } = await placeOrder({
+      customerInfo: { email: 'alice@example.com', firstName: 'Someone', shippingCountry: 'US' }
+    });
+
+    const { status, body } = await viewWithToken(order.id, accessToken);
+
+    const { id, ...contact } = body.customer;
+    assert.equal(status, 200);
+    assert.equal(id, order.customerId);
+    assert.deepEqual(contact, { email: 'alice@example.com', firstName: 'Someone', lastName: '', address: '', phone: '' });
+  });
+
+  test('tracks an order by the email given with it', async () => {
+    const { order } = await placeOrder();
+
+    const tracked = await formatTrackedOrder(await findTrackedOrder(' Buyer@Example.com ', order.orderNumber));
+
+    assert.deepEqual(tracked.customer, { firstName: 'Test', email: 'b***@example.com' });
+    await assert.rejects(findTrackedOrder('someone@example.com', order.orderNumber), httpError(404));
+  });
+});
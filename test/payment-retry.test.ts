@@ -0,0 +1,59 @@
+import { beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { prisma, resetDatabase, createProduct, checkoutInput, httpError } from './support/setup';
+import { placeCheckout } from '../src/services/checkout.service';
+import { confirmPayment, retryOrderPayment } from '../src/services/payment.service';
+import { mockPaymentProvider } from '../src/services/mock-payment.service';
+
+describe('payment retries', () => {
+  beforeEach(resetDatabase);
+
+  test('replaces a declined payment with a new intent and cancels the old one', async () => {
+    const product = await createProduct({ price: 15 });
+    const { order, payment } = await placeCheckout(checkoutInput([{ productId: product.id, quantity: 1 }]));
+    await confirmPayment(payment.paymentIntentId, 'mock_card_insufficient_funds');
+
+    const retried = await retryOrderPayment(order.id, { type: 'CUSTOMER' });
+
+    assert.notEqual(retried.payment.paymentIntentId, payment.paymentIntentId);
+    assert.equal((await mockPaymentProvider.retrieveIntent(payment.paymentIntentId)).status, 'canceled');
+
+    const attempts = await prisma.paymentAttempt.findMany({ where: { orderId: order.id }, orderBy: { createdAt: 'asc' } });
+    assert.deepEqual(attempts.map(attempt => [attempt.paymentIntentId, attempt.status]), [
+      [payment.paymentIntentId, 'FAILED'],
+      [retried.payment.paymentIntentId, 'PENDING']
+    ]);
+
+    await confirmPayment(retried.payment.paymentIntentId, 'mock_card_success');
+    assert.equal((await prisma.order.findUniqueOrThrow({ where: { id: order.id } })).status, 'CONFIRMED');
+  });
+
+  test('does not retry an order that was paid', async () => {
+    const product = await createProduct({ price: 15 });
+    const { order, payment } = await placeCheckout(checkoutInput([{ productId: product.id, quantity: 1 }]));
+    await confirmPayment(payment.paymentIntentId, 'mock_card_success');
+
+    await assert.rejects(retryOrderPayment(order.id, { type: 'CUSTOMER' }), httpError(409));
+  });
+
+  test('cancels the order and releases its stock after three declined payments', async () => {
+    const product = await createProduct({ price: 10, stockQuantity: 4 });
+    const { order, payment } = await placeCheckout(checkoutInput([{ productId: product.id, quantity: 3 }]));
+
+    let paymentIntentId = payment.paymentIntentId;
+    for (let attempt = 1; attempt <= 3; attempt++) {
+      const declined = await confirmPayment(paymentIntentId, 'mock_card_declined');
+      assert.equal(declined.paymentIntent.lastError, 'Your card was declined.');
+
+      if (attempt < 3) {
+        assert.equal((await prisma.order.findUniqueOrThrow({ where: { id: order.id } })).status, 'PENDING');
+        paymentIntentId = (await retryOrderPayment(order.id, { type: 'CUSTOMER' })).payment.paymentIntentId;
+      }
+    }
+
+    assert.equal((await prisma.order.findUniqueOrThrow({ where: { id: order.id } })).status, 'CANCELLED');
+    assert.equal((await prisma.product.findUniqueOrThrow({ where: { id: product.id } })).stockQuantity, 4);
+    assert.equal(await prisma.paymentAttempt.count({ where: { orderId: order.id, status: 'FAILED' } }), 3);
+  });
+
+});
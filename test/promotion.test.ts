@@ -0,0 +1,101 @@
+import { beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { prisma, resetDatabase, createProduct, checkoutInput, httpError } from './support/setup';
+import { placeCheckout } from '../src/services/checkout.service';
+import { createPromoCode } from '../src/services/promotion.service';
+import { transitionOrderStatus } from '../src/services/order-status.service';
+
+const ADMIN = { type: 'ADMIN' as const };
+
+const buyer = (email: string) => ({ ...checkoutInput([]).customerInfo, email });
+
+describe('promotions', () => {
+  beforeEach(resetDatabase);
+
+  test('takes a percentage off only the products the code applies to', async () => {
+    const mug = await createProduct({ name: 'Mug', price: 20 });
+    const poster = await createProduct({ name: 'Poster', price: 30 });
+    const promoCode = await createPromoCode({ code: 'mugs10', discountType: 'PERCENTAGE', value: 10, productIds: [mug.id] }, ADMIN);
+
+    const { order } = await placeCheckout(checkoutInput(
+      [{ productId: mug.id, quantity: 2 }, { productId: poster.id, quantity: 1 }],
+      { paymentMethod: 'cod', promoCode: 'Mugs10' }
+    ));
+
+    assert.equal(Number(order.subtotal), 70);
+    assert.equal(Number(order.discount), 4);
+    assert.equal(order.discountCode, 'MUGS10');
+    assert.equal(Number(order.totalPrice), 66);
+    assert.deepEqual(
+      order.items.map(item => [item.productId, Number(item.discount)]).sort((a, b) => Number(b[1]) - Number(a[1])),
+      [[mug.id, 4], [poster.id, 0]]
+    );
+
+    const redemption = await prisma.promoRedemption.findUniqueOrThrow({ where: { orderId: order.id } });
+    assert.equal(Number(redemption.amount), 4);
+    assert.equal((await prisma.promoCode.findUniqueOrThrow({ where: { id: promoCode.id } })).usageCount, 1);
+  });
+
+  test('refuses a fixed discount below its minimum order value', async () => {
+    const product = await createProduct({ price: 15 });
+    await createPromoCode({ code: 'FIVEOFF', discountType: 'FIXED_AMOUNT', value: 5, minimumOrderValue: 40 }, ADMIN);
+
+    await assert.rejects(
+      placeCheckout(checkoutInput([{ productId: product.id, quantity: 2 }], { paymentMethod: 'cod', promoCode: 'FIVEOFF' })),
+      httpError(400)
+    );
+
+    const { order } = await placeCheckout(checkoutInput([{ productId: product.id, quantity: 3 }], { paymentMethod: 'cod', promoCode: 'FIVEOFF' }));
+    assert.equal(Number(order.totalPrice), 40);
+  });
+
+  test('stops a code at its usage limit and gives the use back when the order is cancelled', async () => {
+    const product = await createProduct({ price: 10, stockQuantity: 5 });
+    await createPromoCode({ code: 'ONCE', discountType: 'PERCENTAGE', value: 50, usageLimit: 1 }, ADMIN);
+    const withCode = (email: string) => checkoutInput([{ productId: product.id, quantity: 1 }], {
+      paymentMethod: 'cod',
+      promoCode: 'ONCE',
+      customerInfo: buyer(email)
+    });
+
+    const { order } = await placeCheckout(withCode('first@example.com'));
+    await assert.rejects(placeCheckout(withCode('second@example.com')), httpError(400));
+    assert.equal(await prisma.order.count(), 1);
+    assert.equal((await prisma.product.findUniqueOrThrow({ where: { id: product.id } })).stockQuantity, 4);
+
+    await transitionOrderStatus(order.id, 'CANCELLED', ADMIN);
+    const { order: second } = await placeCheckout(withCode('second@example.com'));
+    assert.equal(Number(second.discount), 5);
+  });
+
+  test('limits how often one customer may use a code', async () => {
+    const product = await createProduct({ price: 10 });
+    await createPromoCode({ code: 'WELCOME', discountType: 'FIXED_AMOUNT', value: 2, perCustomerLimit: 1 }, ADMIN);
+    const withCode = (email: string) => checkoutInput([{ productId: product.id, quantity: 1 }], {
+      paymentMethod: 'cod',
+      promoCode: 'WELCOME',
+      customerInfo: buyer(email)
+    });
+
+    await placeCheckout(withCode('first@example.com'));
+    await assert.rejects(placeCheckout(withCode(' First@Example.com ')), httpError(400));
+    await placeCheckout(withCode('second@example.com'));
+
+    assert.equal(await prisma.promoRedemption.count(), 2);
+  });
+
+  test('credits sales with an agent\'s coupon to the agent, within the discount agents may give', async () => {
+    const agent = await prisma.user.create({
+      data: { email: 'agent@example.com', password: 'not-a-real-hash', role: 'AGENT' }
+    });
+    const agentActor = { type: 'AGENT' as const, id: agent.id };
+    await assert.rejects(createPromoCode({ code: 'HALFOFF', value: 50 }, agentActor), httpError(400));
+    await createPromoCode({ code: 'AGENT15', value: 15 }, agentActor);
+    const product = await createProduct({ price: 100 });
+
+    const { order } = await placeCheckout(checkoutInput([{ productId: product.id, quantity: 1 }], { paymentMethod: 'cod', promoCode: 'AGENT15' }));
+
+    assert.equal(order.agentId, agent.id);
+    assert.equal(Number(order.totalPrice), 85);
+  });
+});
@@ -0,0 +1,104 @@
+import { beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { ReconciliationRun } from '@prisma/client';
+import { prisma, resetDatabase, createProduct, checkoutInput } from './support/setup';
+import { placeCheckout } from '../src/services/checkout.service';
+import { confirmPayment } from '../src/services/payment.service';
+import { issueRefund } from '../src/services/refund.service';
+import { transitionOrderStatus } from '../src/services/order-status.service';
+import { mockPaymentProvider } from '../src/services/mock-payment.service';
+import {
+  reconcilePayments,
+  reconciliationRunCsv,
+  ReconciliationEntry
+} from '../src/services/reconciliation.service';
+
+const HOUR = 60 * 60 * 1000;
+
+/**
+ * Reconcile mock payments made around now and pick out one intent's entry. The mock
+ * keeps its ledger for the whole file, so earlier tests' payments show up as well.
+ */
+const entryFor = async (paymentIntentId: string): Promise<ReconciliationEntry | undefined> => {
+  const { entries } = await reconcilePayments('mock', new Date(Date.now() - HOUR), new Date(Date.now() + HOUR));
+  return entries.find(entry => entry.paymentIntentId === paymentIntentId);
+};
+
+const placeCardOrder = async (price: number) => {
+  const product = await createProduct({ price });
+  return placeCheckout(checkoutInput([{ productId: product.id, quantity: 1 }]));
+};
+
+describe('payment reconciliation', () => {
+  beforeEach(resetDatabase);
+
+  test('matches a paid and partly refunded order with its charge', async () => {
+    const { order, payment } = await placeCardOrder(60);
+    await confirmPayment(payment.paymentIntentId, 'mock_card_success');
+    await issueRefund(order.id, { amount: 10 }, { type: 'ADMIN' });
+
+    const entry = await entryFor(payment.paymentIntentId);
+
+    assert.equal(entry?.type, 'MATCHED');
+    assert.deepEqual(entry?.orderNumbers, [order.orderNumber]);
+    assert.equal(entry?.chargedAmount, 60);
+    assert.equal(entry?.providerRefundedAmount, 10);
+  });
+
+  test('matches a charge on an intent a retry replaced through the payment attempt', async () => {
+    const { order, payment } = await placeCardOrder(45);
+    await confirmPayment(payment.paymentIntentId, 'mock_card_success');
+    await prisma.order.update({ where: { id: order.id }, data: { paymentIntentId: 'mock_pi_replacement' } });
+
+    const entry = await entryFor(payment.paymentIntentId);
+
+    assert.equal(entry?.type, 'MATCHED');
+    assert.deepEqual(entry?.orderNumbers, [order.orderNumber]);
+  });
+
+  test('flags an order charged on both a replaced and its current intent', async () => {
+    const { order, payment } = await placeCardOrder(30);
+    await confirmPayment(payment.paymentIntentId, 'mock_card_success');
+
+    const second = await mockPaymentProvider.createIntent({ amount: 30, currency: 'USD', metadata: {} });
+    await mockPaymentProvider.confirmIntent(second.id, 'mock_card_success');
+    await prisma.order.update({ where: { id: order.id }, data: { paymentIntentId: second.id } });
+
+    const entry = await entryFor(payment.paymentIntentId);
+
+    assert.equal(entry?.type, 'AMOUNT_MISMATCH');
+    assert.equal(entry?.note, 'The order was charged again on a later payment intent');
+  });
+
+  test('reports confirmed orders the provider never charged', async () => {
+    const { order, payment } = await placeCardOrder(25);
+    await transitionOrderStatus(order.id, 'CONFIRMED', { type: 'ADMIN' });
+
+    const { entries } = await reconcilePayments('mock', new Date(Date.now() - HOUR), new Date(Date.now() + HOUR));
+    const entry = entries.find(candidate => candidate.orderNumbers.includes(order.orderNumber));
+
+    assert.equal(entry?.type, 'UNPAID_ORDER');
+    assert.equal(entry?.paymentIntentId, payment.paymentIntentId);
+  });
+
+  test('reports fixture charges that no order is linked to', async () => {
+    const { summary, entries } = await reconcilePayments('mock', new Date('2026-02-02'), new Date('2026-02-03'));
+
+    assert.deepEqual(entries.map(entry => [entry.type, entry.paymentIntentId]), [['CHARGE_WITHOUT_ORDER', 'mock_pi_fixture_no_order']]);
+    assert.equal(entries[0].providerRefundedAmount, 10);
+    assert.deepEqual(summary.mismatches, { CHARGE_WITHOUT_ORDER: 1 });
+  });
+
+  test('keeps spreadsheets from reading exported cells as formulas', async () => {
+    const { entries } = await reconcilePayments('mock', new Date('2026-02-02'), new Date('2026-02-03'));
+    const run = {
+      entries: [{ ...entries[0], paymentIntentId: '=HYPERLINK("https://example.com")', note: '+1' }]
+    } as unknown as ReconciliationRun;
+
+    const [, row] = reconciliationRunCsv(run).split('\r\n');
+
+    assert.ok(row.includes(`"'=HYPERLINK(""https://example.com"")"`));
+    assert.ok(row.endsWith(",'+1"));
+    assert.ok(row.includes(',49.99,'));
+  });
+});
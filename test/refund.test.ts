@@ -0,0 +1,113 @@
+import { beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { prisma, resetDatabase, createProduct, checkoutInput, httpError } from './support/setup';
+import { placeCheckout, CheckoutInput } from '../src/services/checkout.service';
+import { confirmPayment } from '../src/services/payment.service';
+import { issueRefund } from '../src/services/refund.service';
+import { transitionOrderStatus } from '../src/services/order-status.service';
+import { mockPaymentProvider } from '../src/services/mock-payment.service';
+
+const ADMIN = { type: 'ADMIN' as const };
+
+/**
+ * An order for `price`, paid by card through the mock provider
+ */
+const paidOrder = async (price: number, overrides: Partial<CheckoutInput> = {}) => {
+  const product = await createProduct({ price });
+  const { order, payment } = await placeCheckout(checkoutInput([{ productId: product.id, quantity: 1 }], overrides));
+  await confirmPayment(payment.paymentIntentId, 'mock_card_success');
+  return prisma.order.findUniqueOrThrow({ where: { id: order.id } });
+};
+
+describe('refunds', () => {
+  beforeEach(resetDatabase);
+
+  test('refunds a paid order in parts and marks it REFUNDED once nothing is left', async () => {
+    const order = await paidOrder(80);
+
+    const partial = await issueRefund(order.id, { amount: 30, reason: 'Damaged box' }, ADMIN);
+    assert.equal(partial.status, 'SUCCEEDED');
+
+    let updated = await prisma.order.findUniqueOrThrow({ where: { id: order.id } });
+    assert.equal(updated.status, 'CONFIRMED');
+    assert.equal(Number(updated.refundedAmount), 30);
+
+    const rest = await issueRefund(order.id, {}, ADMIN);
+    assert.equal(Number(rest.amount), 50);
+
+    updated = await prisma.order.findUniqueOrThrow({ where: { id: order.id } });
+    assert.equal(updated.status, 'REFUNDED');
+    assert.equal(Number(updated.refundedAmount), 80);
+
+    const providerRefunds = await mockPaymentProvider.listRefunds(order.paymentIntentId as string);
+    assert.deepEqual(providerRefunds.map(refund => refund.amount), [3000, 5000]);
+  });
+
+  test('rejects refunds of more than is left to refund', async () => {
+    const order = await paidOrder(20);
+    await issueRefund(order.id, { amount: 15 }, ADMIN);
+
+    await assert.rejects(issueRefund(order.id, { amount: 10 }, ADMIN), httpError(400));
+    assert.equal(Number((await prisma.order.findUniqueOrThrow({ where: { id: order.id } })).refundedAmount), 15);
+  });
+
+  test('never refunds more than was paid when refunds run at the same time', async () => {
+    const order = await paidOrder(100);
+
+    const results = await Promise.allSettled([
+      issueRefund(order.id, { amount: 60 }, ADMIN),
+      issueRefund(order.id, { amount: 60 }, ADMIN)
+    ]);
+
+    assert.equal(results.filter(result => result.status === 'fulfilled').length, 1);
+    assert.equal(Number((await prisma.order.findUniqueOrThrow({ where: { id: order.id } })).refundedAmount), 60);
+    assert.equal(await prisma.refund.count({ where: { orderId: order.id } }), 1);
+  });
+
+  test('does not refund an order that has not been paid', async () => {
+    const product = await createProduct({ price: 10 });
+    const { order } = await placeCheckout(checkoutInput([{ productId: product.id, quantity: 1 }]));
+
+    await assert.rejects(issueRefund(order.id, {}, ADMIN), httpError(409));
+  });
+
+  test('refunds cash on delivery only once the order was delivered', async () => {
+    const product = await createProduct({ price: 35 });
+    const { order } = await placeCheckout(checkoutInput([{ productId: product.id, quantity: 1 }], { paymentMethod: 'cod' }));
+    assert.equal(order.status, 'CONFIRMED');
+
+    await assert.rejects(issueRefund(order.id, {}, ADMIN), httpError(409));
+
+    await transitionOrderStatus(order.id, 'SHIPPED', ADMIN);
+    await assert.rejects(issueRefund(order.id, {}, ADMIN), httpError(409));
+
+    await transitionOrderStatus(order.id, 'DELIVERED', ADMIN);
+    await issueRefund(order.id, {}, ADMIN);
+
+    const refunded = await prisma.order.findUniqueOrThrow({ where: { id: order.id } });
+    assert.equal(refunded.status, 'REFUNDED');
+    assert.equal(Number(refunded.refundedAmount), 35);
+  });
+
+  test('takes back the refunded share of the agent commission', async () => {
+    const agent = await prisma.user.create({
+      data: { email: 'agent@example.com', password: 'not-a-real-hash', role: 'AGENT' }
+    });
+    const product = await prisma.product.create({
+      data: { name: 'Commissioned product', price: 200, stockQuantity: 5, commissionPercentage: 10 }
+    });
+    const { order, payment } = await placeCheckout(checkoutInput([{ productId: product.id, quantity: 1 }], { agentId: agent.id }));
+    await confirmPayment(payment.paymentIntentId, 'mock_card_success');
+
+    const refund = await issueRefund(order.id, { amount: 50 }, ADMIN);
+    assert.equal(Number(refund.commissionAdjustment), 5);
+
+    let commission = await prisma.commission.findFirstOrThrow({ where: { orderId: order.id } });
+    assert.equal(Number(commission.amount), 15);
+
+    await issueRefund(order.id, {}, ADMIN);
+    commission = await prisma.commission.findFirstOrThrow({ where: { orderId: order.id } });
+    assert.equal(Number(commission.amount), 0);
+    assert.equal(commission.status, 'BLOCKED');
+  });
+});
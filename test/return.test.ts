@@ -0,0 +1,83 @@
+import { beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { prisma, resetDatabase, checkoutInput, httpError } from './support/setup';
+import { placeCheckout } from '../src/services/checkout.service';
+import { confirmPayment } from '../src/services/payment.service';
+import { transitionOrderStatus } from '../src/services/order-status.service';
+import { issueRefund } from '../src/services/refund.service';
+import {
+  createReturnRequest,
+  approveReturnRequest,
+  receiveReturnRequest
+} from '../src/services/return.service';
+
+const ADMIN = { type: 'ADMIN' as const };
+
+/**
+ * A paid and delivered order of two units at 100, earning an agent 10% commission
+ */
+const deliveredOrder = async () => {
+  const agent = await prisma.user.create({
+    data: { email: 'agent@example.com', password: 'not-a-real-hash', role: 'AGENT' }
+  });
+  const product = await prisma.product.create({
+    data: { name: 'Lamp', price: 100, stockQuantity: 5, commissionPercentage: 10 }
+  });
+  const { order, payment } = await placeCheckout(checkoutInput([{ productId: product.id, quantity: 2 }], { agentId: agent.id }));
+  await confirmPayment(payment.paymentIntentId, 'mock_card_success');
+  await transitionOrderStatus(order.id, 'SHIPPED', ADMIN);
+  await transitionOrderStatus(order.id, 'DELIVERED', ADMIN);
+
+  return { order, product };
+};
+
+const commissionOf = async (orderId: string): Promise<number> => {
+  return Number((await prisma.commission.findFirstOrThrow({ where: { orderId, type: 'SALE' } })).amount);
+};
+
+describe('returns', () => {
+  beforeEach(resetDatabase);
+
+  test('takes back the commission on returned units and restocks them when they arrive', async () => {
+    const { order, product } = await deliveredOrder();
+    assert.equal(await commissionOf(order.id), 20);
+
+    const returnRequest = await createReturnRequest(order.id, 'Too bright', [{ orderItemId: order.items[0].id, quantity: 1 }], ADMIN);
+    assert.equal(Number(returnRequest.returnValue), 100);
+
+    const approved = await approveReturnRequest(returnRequest.id, ADMIN);
+    assert.equal(Number(approved.commissionAdjustment), 10);
+    assert.equal(await commissionOf(order.id), 10);
+
+    await receiveReturnRequest(returnRequest.id, ADMIN);
+    assert.equal((await prisma.product.findUniqueOrThrow({ where: { id: product.id } })).stockQuantity, 4);
+  });
+
+  test('does not return more units than were ordered', async () => {
+    const { order } = await deliveredOrder();
+    await createReturnRequest(order.id, 'Broken', [{ orderItemId: order.items[0].id, quantity: 1 }], ADMIN);
+
+    await assert.rejects(
+      createReturnRequest(order.id, 'Broken too', [{ orderItemId: order.items[0].id, quantity: 2 }], ADMIN),
+      httpError(400)
+    );
+  });
+
+  test('takes back commission only once across refunds and returns', async () => {
+    const { order } = await deliveredOrder();
+
+    // A quarter refunded as a goodwill gesture takes back a quarter of the commission
+    await issueRefund(order.id, { amount: 50 }, ADMIN);
+    assert.equal(await commissionOf(order.id), 15);
+
+    // Half the units returned: half the commission in all, so only what the refund didn't take
+    const returnRequest = await createReturnRequest(order.id, 'Too bright', [{ orderItemId: order.items[0].id, quantity: 1 }], ADMIN);
+    const approved = await approveReturnRequest(returnRequest.id, ADMIN);
+    assert.equal(Number(approved.commissionAdjustment), 5);
+    assert.equal(await commissionOf(order.id), 10);
+
+    // Paying for the return brings the refund to three quarters
+    await issueRefund(order.id, { amount: 100, returnRequestId: returnRequest.id }, ADMIN);
+    assert.equal(await commissionOf(order.id), 5);
+  });
+});
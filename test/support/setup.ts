@@ -0,0 +1,94 @@
+import './wasm-client';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { PGlite } from '@electric-sql/pglite';
+import { PrismaPGlite } from 'pglite-prisma-adapter';
+import { PrismaClient } from '@prisma/client';
+import type { CheckoutInput } from '../../src/services/checkout.service';
+import { HttpError } from '../../src/utils/errors';
+
+// Test files import this module first, so these are set before any service reads its configuration
+process.env.PAYMENT_PROVIDERS = 'card:mock,cod:cash_on_delivery';
+process.env.MOCK_PAYMENT_WEBHOOK_SECRET = 'test_webhook_secret';
+process.env.BASE_CURRENCY = 'USD';
+
+const MIGRATIONS_DIR = path.resolve(__dirname, '../../prisma/migrations');
+
+// Postgres in process, one database per test file
+const db = new PGlite();
+
+export const prisma = new PrismaClient({ adapter: new PrismaPGlite(db) });
+
+// src/lib/prisma hands this client to the services
+global.prisma = prisma;
+
+let migrated: Promise<void> | null = null;
+
+/**
+ * Apply every migration, in order, the first time it's called
+ */
+const migrate = (): Promise<void> => {
+  if (!migrated) {
+    migrated = (async () => {
+      const migrations = fs.readdirSync(MIGRATIONS_DIR)
+        .filter(name => fs.statSync(path.join(MIGRATIONS_DIR, name)).isDirectory())
+        .sort();
+
+      for (const name of migrations) {
+        await db.exec(fs.readFileSync(path.join(MIGRATIONS_DIR, name, 'migration.sql'), 'utf8'));
+      }
+    })();
+  }
+  return migrated;
+};
+
+/**
+ * Start a test from an empty, migrated database
+ */
+export const resetDatabase = async (): Promise<void> => {
+  await migrate();
+
+  const { rows } = await db.query<{ tablename: string }>(
+    "SELECT tablename FROM pg_tables WHERE schemaname = 'public'"
+  );
+  await db.exec(`TRUNCATE ${rows.map(row => `"${row.tablename}"`).join(', ')} CASCADE`);
+};
+
+export const createProduct = (data: { price: number; stockQuantity?: number; name?: string }) => {
+  return prisma.product.create({
+    data: {
+      name: data.name || 'Test product',
+      price: data.price,
+      stockQuantity: data.stockQuantity ?? 10
+    }
+  });
+};
+
+/**
+ * A guest checkout shipped to the US
+ */
+export const checkoutInput = (
+  items: CheckoutInput['items'],
+  overrides: Partial<CheckoutInput> = {}
+): CheckoutInput => ({
+  items,
+  customerInfo: {
+    email: 'buyer@example.com',
+    firstName: 'Test',
+    lastName: 'Buyer',
+    shippingAddress: '1 Main Street, Springfield',
+    shippingCountry: 'US'
+  },
+  paymentMethod: 'card',
+  ...overrides
+});
+
+/**
+ * assert.rejects / assert.throws validator for an HttpError with the given status
+ */
+export const httpError = (statusCode: number) => (error: unknown): boolean => {
+  assert.ok(error instanceof HttpError, `expected an HttpError, got ${error}`);
+  assert.equal(error.statusCode, statusCode);
+  return true;
+};
@@ -0,0 +1,12 @@
+import path from 'path';
+import { register } from 'module';
+import { pathToFileURL } from 'url';
+
+// Lets the client's wasm query engine load under Node
+register(pathToFileURL(path.join(__dirname, 'wasm-engine-hooks.mjs')));
+
+// Only the wasm build takes a driver adapter. The app and the tests get it for
+// @prisma/client, so they share its client and its error classes.
+const wasmClient = require.resolve('@prisma/client/wasm');
+require(wasmClient);
+require.cache[require.resolve('@prisma/client')] = require.cache[wasmClient];
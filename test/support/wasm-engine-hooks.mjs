@@ -0,0 +1,8 @@
+// The generated client imports its query engine through #wasm-engine-loader, whose
+// loaders are written for edge runtimes. Point it at one that works under Node.
+export async function resolve(specifier, context, nextResolve) {
+  if (specifier === '#wasm-engine-loader') {
+    return { url: new URL('./wasm-engine-loader.mjs', import.meta.url).href, shortCircuit: true };
+  }
+  return nextResolve(specifier, context);
+}
@@ -0,0 +1,7 @@
+import { readFileSync } from 'fs';
+import { createRequire } from 'module';
+
+const require = createRequire(import.meta.url);
+const engine = require.resolve('@prisma/client/runtime/query_engine_bg.postgresql.wasm');
+
+export default Promise.resolve({ default: new WebAssembly.Module(readFileSync(engine)) });
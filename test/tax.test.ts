@@ -0,0 +1,50 @@
+import { beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { prisma, resetDatabase, createProduct, checkoutInput } from './support/setup';
+import { placeCheckout } from '../src/services/checkout.service';
+import { getTaxReport } from '../src/services/tax.service';
+import { transitionOrderStatus } from '../src/services/order-status.service';
+
+const shippedTo = (shippingState: string) => ({
+  paymentMethod: 'cod',
+  customerInfo: { ...checkoutInput([]).customerInfo, shippingState }
+});
+
+describe('tax', () => {
+  beforeEach(async () => {
+    await resetDatabase();
+    await prisma.taxRate.createMany({
+      data: [
+        { name: 'US', country: 'US', rate: 5 },
+        { name: 'California', country: 'US', state: 'CA', rate: 7.25 }
+      ]
+    });
+  });
+
+  test('taxes each line at the most specific rate for the destination', async () => {
+    const product = await createProduct({ price: 19.99 });
+
+    const { order } = await placeCheckout(checkoutInput([{ productId: product.id, quantity: 3 }], shippedTo('CA')));
+
+    assert.equal(Number(order.tax), 4.35);
+    assert.equal(order.items[0].taxJurisdiction, 'US-CA');
+    assert.equal(Number(order.totalPrice), 64.32);
+  });
+
+  test('reports tax collected per jurisdiction, leaving out cancelled orders', async () => {
+    const product = await createProduct({ price: 19.99 });
+    await placeCheckout(checkoutInput([{ productId: product.id, quantity: 3 }], shippedTo('CA')));
+    await placeCheckout(checkoutInput([{ productId: product.id, quantity: 1 }], shippedTo('CA')));
+    await placeCheckout(checkoutInput([{ productId: product.id, quantity: 2 }], shippedTo('NY')));
+    const { order: cancelled } = await placeCheckout(checkoutInput([{ productId: product.id, quantity: 1 }], shippedTo('NY')));
+    await transitionOrderStatus(cancelled.id, 'CANCELLED', { type: 'ADMIN' });
+
+    const report = await getTaxReport(new Date(Date.now() - 60 * 60 * 1000), new Date(Date.now() + 60 * 60 * 1000));
+
+    assert.deepEqual(report.jurisdictions.map(row => [row.jurisdiction, row.orders, row.taxableAmount, row.taxCollected]), [
+      ['US', 1, 39.98, 2],
+      ['US-CA', 2, 79.96, 5.8]
+    ]);
+    assert.equal(report.totalTaxCollectedBase, 7.8);
+  });
+});